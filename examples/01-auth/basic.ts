@@ -5,22 +5,25 @@
  */
 
 import { createAuthenticator, createVerifier } from "../../src/index.js";
-import { generateSecp256k1KeyPair, createDidFromPublicJwk, createDidDocument } from "../../src/core/crypto.js";
+import { createDidWbaDocument } from "../../src/core/did.js";
 
 async function main() {
   console.log("🔐 DID-WBA Authentication Example\n");
 
-  // Generate key pair
-  console.log("1. Generating key pair...");
-  const keyPair = await generateSecp256k1KeyPair();
-  const did = createDidFromPublicJwk(keyPair.publicKeyJwk);
-  console.log(`   DID: ${did}\n`);
+  // Generate DID, DID document and keys
+  console.log("1. Generating DID document...");
+  const { did, didDocument, privateKeys, documentUrl } = await createDidWbaDocument({
+    hostname: "example.com",
+    path: "user/alice",
+  });
+  console.log(`   DID: ${did}`);
+  console.log(`   Host document at: ${documentUrl}\n`);
 
   // Create authenticator
   console.log("2. Creating authenticator...");
   const auth = createAuthenticator({
     did,
-    privateKey: keyPair.privateKeyJwk
+    privateKey: privateKeys["key-1"]!
   });
 
   // Sign request
@@ -30,19 +33,18 @@ async function main() {
     amount: 100.00
   };
 
-  const authHeader = await auth.createAuthHeader("POST", "/api/orders", requestBody);
+  const authHeader = await auth.createAuthHeader("POST", "https://agent.example.com/api/orders", requestBody);
   console.log(`   Auth Header: ${authHeader.slice(0, 80)}...\n`);
 
   // Verify signature
   console.log("4. Verifying signature...");
   const verifier = createVerifier();
-  
-  const didDoc = createDidDocument(keyPair.publicKeyJwk);
+
   const result = await verifier.verify(authHeader, {
     method: "POST",
-    url: "/api/orders",
+    url: "https://agent.example.com/api/orders",
     body: requestBody,
-    didDocument: didDoc
+    didDocument
   });
 
   if (result.verified) {
@@ -26,7 +26,8 @@ import {
   FulfillmentReceiptContentsSchema,
 } from "./types/index.js";
 import { cartHash, paymentMandateHash, contentHash } from "./utils.js";
-import { signJwtWithAlgorithm } from "../core/jwt.js";
+import { signJwtWithAlgorithm, signJwtWithSigner } from "../core/jwt.js";
+import type { Signer as KeySigner } from "../core/signer.js";
 import { LogManager, createLogger } from "../core/logging.js";
 import { ANP_AP2_DEFAULTS, type SupportedJwsAlg } from "./constants.js";
 
@@ -38,7 +39,7 @@ import { ANP_AP2_DEFAULTS, type SupportedJwsAlg } from "./constants.js";
  * Signer interface for JWT signing
  */
 export interface Signer {
-  sign(payload: JWTPayload, options: { issuer: string; audience?: string; ttl: number }): Promise<string>;
+  sign(payload: JWTPayload, options: { issuer: string; audience?: string | undefined; ttl: number }): Promise<string>;
   getAlgorithm(): string;
 }
 
@@ -48,37 +49,70 @@ export interface Signer {
 
 class JwtSigner implements Signer {
   constructor(
-    private readonly privateKeyPem: string,
+    private readonly key: string | KeySigner,
     private readonly algorithm: SupportedJwsAlg,
     private readonly logger: LogManager
   ) { }
 
-  async sign(payload: JWTPayload, options: { issuer: string; audience?: string; ttl: number }): Promise<string> {
+  async sign(payload: JWTPayload, options: { issuer: string; audience?: string | undefined; ttl: number }): Promise<string> {
     this.logger.debug("Signing JWT", { algorithm: this.algorithm, issuer: options.issuer });
 
-    return await signJwtWithAlgorithm(
-      this.privateKeyPem,
-      this.algorithm,
-      payload,
-      {
-        issuer: options.issuer,
-        audience: options.audience,
-        expiresIn: options.ttl,
-      }
-    );
+    const now = Math.floor(Date.now() / 1000);
+    const claims: JWTPayload = {
+      iss: options.issuer,
+      ...(options.audience ? { aud: options.audience } : {}),
+      iat: now,
+      exp: now + options.ttl,
+      jti: crypto.randomUUID(),
+      ...payload,
+    };
+
+    if (typeof this.key !== "string") {
+      return await signJwtWithSigner(claims, this.key);
+    }
+    // Algorithm dispatch goes through the core key algorithm registry
+    return await signJwtWithAlgorithm(claims, this.key, this.algorithm);
   }
 
-  getAlgorithm(): string {
+  getAlgorithm(): SupportedJwsAlg {
     return this.algorithm;
   }
 }
 
+/**
+ * Key material shared by the builder configs
+ */
+interface BuilderKeyConfig {
+  privateKeyPem?: string;
+  signer?: KeySigner;
+  algorithm?: SupportedJwsAlg;
+}
+
+/**
+ * Fail Fast: throws without key material, or if `algorithm` contradicts the signer's.
+ */
+function createJwtSigner(config: BuilderKeyConfig, logger: LogManager): JwtSigner {
+  if (config.signer) {
+    if (config.algorithm !== undefined && config.algorithm !== config.signer.alg) {
+      throw new Error(`Algorithm ${config.algorithm} does not match the signer's ${config.signer.alg}`);
+    }
+    return new JwtSigner(config.signer, config.signer.alg as SupportedJwsAlg, logger);
+  }
+  if (!config.privateKeyPem) {
+    throw new Error("privateKeyPem or signer is required");
+  }
+  return new JwtSigner(config.privateKeyPem, config.algorithm ?? ANP_AP2_DEFAULTS.DEFAULT_ALGORITHM, logger);
+}
+
 // ============================================
 // Cart Mandate Builder
 // ============================================
 
 export interface CartBuilderConfig {
-  privateKeyPem: string;
+  /** Private key in PEM format; either this or `signer` is required */
+  privateKeyPem?: string;
+  /** Signer holding the private key (HSM, KMS); `algorithm` defaults to its own */
+  signer?: KeySigner;
   merchantDid: string;
   shopperDid?: string;
   algorithm?: SupportedJwsAlg;
@@ -105,15 +139,17 @@ export interface CartBuilderConfig {
  */
 export class CartBuilder {
   private readonly signer: Signer;
-  private readonly config: Required<Omit<CartBuilderConfig, 'privateKeyPem' | 'logger'>> & { logger: LogManager };
+  private readonly config: Required<Omit<CartBuilderConfig, 'privateKeyPem' | 'signer' | 'logger'>> & { logger: LogManager };
 
   constructor(config: CartBuilderConfig) {
-    const algorithm = config.algorithm ?? ANP_AP2_DEFAULTS.DEFAULT_ALGORITHM;
     const ttlSeconds = config.ttlSeconds ?? ANP_AP2_DEFAULTS.CART_TTL_SECONDS;
     const shopperDid = config.shopperDid ?? "";
     const logger = (config.logger ?? createLogger({ context: { component: "CartBuilder" } })).withContext({ builder: "cart" });
 
-    this.signer = new JwtSigner(config.privateKeyPem, algorithm, logger);
+    const signer = createJwtSigner(config, logger);
+    const algorithm = signer.getAlgorithm();
+
+    this.signer = signer;
     this.config = {
       merchantDid: config.merchantDid,
       shopperDid,
@@ -174,7 +210,10 @@ export class CartBuilder {
 // ============================================
 
 export interface PaymentBuilderConfig {
-  privateKeyPem: string;
+  /** Private key in PEM format; either this or `signer` is required */
+  privateKeyPem?: string;
+  /** Signer holding the private key (HSM, KMS); `algorithm` defaults to its own */
+  signer?: KeySigner;
   userDid: string;
   merchantDid: string;
   algorithm?: SupportedJwsAlg;
@@ -201,14 +240,16 @@ export interface PaymentBuilderConfig {
  */
 export class PaymentBuilder {
   private readonly signer: Signer;
-  private readonly config: Required<Omit<PaymentBuilderConfig, 'privateKeyPem' | 'logger'>> & { logger: LogManager };
+  private readonly config: Required<Omit<PaymentBuilderConfig, 'privateKeyPem' | 'signer' | 'logger'>> & { logger: LogManager };
 
   constructor(config: PaymentBuilderConfig) {
-    const algorithm = config.algorithm ?? ANP_AP2_DEFAULTS.DEFAULT_ALGORITHM;
     const ttlSeconds = config.ttlSeconds ?? ANP_AP2_DEFAULTS.PAYMENT_TTL_SECONDS;
     const logger = (config.logger ?? createLogger({ context: { component: "PaymentBuilder" } })).withContext({ builder: "payment" });
 
-    this.signer = new JwtSigner(config.privateKeyPem, algorithm, logger);
+    const signer = createJwtSigner(config, logger);
+    const algorithm = signer.getAlgorithm();
+
+    this.signer = signer;
     this.config = {
       userDid: config.userDid,
       merchantDid: config.merchantDid,
@@ -273,7 +314,10 @@ export class PaymentBuilder {
 // ============================================
 
 export interface WebhookCredentialBuilderConfig {
-  privateKeyPem: string;
+  /** Private key in PEM format; either this or `signer` is required */
+  privateKeyPem?: string;
+  /** Signer holding the private key (HSM, KMS); `algorithm` defaults to its own */
+  signer?: KeySigner;
   merchantDid: string;
   shopperDid: string;
   algorithm?: SupportedJwsAlg;
@@ -304,14 +348,16 @@ export interface WebhookCredentialBuilderConfig {
  */
 export class WebhookCredentialBuilder {
   private readonly signer: Signer;
-  private readonly config: Required<Omit<WebhookCredentialBuilderConfig, 'privateKeyPem' | 'logger'>> & { logger: LogManager };
+  private readonly config: Required<Omit<WebhookCredentialBuilderConfig, 'privateKeyPem' | 'signer' | 'logger'>> & { logger: LogManager };
 
   constructor(config: WebhookCredentialBuilderConfig) {
-    const algorithm = config.algorithm ?? ANP_AP2_DEFAULTS.DEFAULT_ALGORITHM;
     const ttlSeconds = config.ttlSeconds ?? ANP_AP2_DEFAULTS.CREDENTIAL_TTL_SECONDS;
     const logger = (config.logger ?? createLogger({ context: { component: "WebhookCredentialBuilder" } })).withContext({ builder: "webhook" });
 
-    this.signer = new JwtSigner(config.privateKeyPem, algorithm, logger);
+    const signer = createJwtSigner(config, logger);
+    const algorithm = signer.getAlgorithm();
+
+    this.signer = signer;
     this.config = {
       merchantDid: config.merchantDid,
       shopperDid: config.shopperDid,
@@ -11,4 +11,4 @@ export const ANP_AP2_DEFAULTS = {
   DEFAULT_ALGORITHM: "RS256" as const,
 } as const;
 
-export type SupportedJwsAlg = "RS256" | "ES256K";
+export type SupportedJwsAlg = "RS256" | "ES256K" | "ES256" | "EdDSA";
@@ -75,6 +75,16 @@ export type {
   Logger,
 } from "./builders.js";
 
+export { createMandateVerifier, MandateVerifier } from "./verifiers.js";
+
+export type {
+  MandateVerifierConfig,
+  CartMandateVerifyOptions,
+  PaymentMandateVerifyOptions,
+  WebhookCredentialVerifyOptions,
+  VerifiedCartMandatePayload,
+} from "./verifiers.js";
+
 // ============================================
 // Types (from types/ directory)
 // ============================================
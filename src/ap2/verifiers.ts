@@ -0,0 +1,251 @@
+/**
+ * ANP_AP2 Mandate Verifiers - v1.0a
+ *
+ * Verifies cart mandates, payment mandates, and webhook credentials: the JWS signature
+ * (key picked by `kid` among the issuer's `assertionMethod` keys), the standard claims,
+ * and the hash chain binding each JWS to its contents.
+ *
+ * @packageDocumentation
+ */
+
+import { errors as joseErrors, type JWTPayload } from "jose";
+import type { z } from "zod";
+import type {
+  CartMandate,
+  PaymentMandate,
+  PaymentMandateJWSPayload,
+  PaymentReceipt,
+  FulfillmentReceipt,
+  WebhookCredentialJWSPayload,
+} from "./types/index.js";
+import {
+  CartMandateJWSPayloadSchema,
+  PaymentMandateJWSPayloadSchema,
+  WebhookCredentialJWSPayloadSchema,
+} from "./types/index.js";
+import { cartHash, paymentMandateHash, contentHash } from "./utils.js";
+import { verifyJwtWithAlgorithm, type JwtVerificationKey } from "../core/jwt.js";
+import type { HttpClient } from "../core/http.js";
+import { createCachingDidResolver, createDidResolver, type DidResolver } from "../core/resolver.js";
+import { LogManager, createLogger } from "../core/logging.js";
+import { ANP_AP2_DEFAULTS, type SupportedJwsAlg } from "./constants.js";
+import {
+  CartHashMismatchError,
+  JwtVerificationError,
+  MandateVerificationError,
+  SchemaValidationError,
+} from "./errors.js";
+
+// ============================================
+// Configuration
+// ============================================
+
+export interface MandateVerifierConfig {
+  algorithm?: SupportedJwsAlg;
+  /** Allowed clock skew for exp/nbf, in seconds or a time span such as "30s" */
+  clockTolerance?: number | string;
+  /** Resolver for issuer DID documents (defaults to a caching did:wba/did:web/did:key resolver) */
+  resolver?: DidResolver;
+  /** HTTP client for the default resolver */
+  httpClient?: HttpClient;
+  logger?: LogManager;
+}
+
+interface KeyOptions {
+  /**
+   * Verification key; defaults to the issuer DID, whose document is resolved and
+   * searched for the `assertionMethod` key named by the JWS `kid`.
+   */
+  publicKey?: JwtVerificationKey;
+}
+
+export interface CartMandateVerifyOptions extends KeyOptions {
+  merchantDid: string;
+  shopperDid?: string;
+}
+
+export interface PaymentMandateVerifyOptions extends KeyOptions {
+  userDid: string;
+  merchantDid: string;
+  /** cart_hash of the CartMandate this payment refers to */
+  cartHash: string;
+}
+
+export interface WebhookCredentialVerifyOptions extends KeyOptions {
+  merchantDid: string;
+  shopperDid: string;
+  cartHash: string;
+  pmtHash: string;
+}
+
+/**
+ * Cart mandate payload; `aud` is absent when the cart was built without a shopper DID.
+ */
+const CartPayloadSchema = CartMandateJWSPayloadSchema.partial({ aud: true });
+export type VerifiedCartMandatePayload = z.infer<typeof CartPayloadSchema>;
+
+// ============================================
+// Mandate Verifier
+// ============================================
+
+/**
+ * Mandate Verifier
+ *
+ * @example
+ * ```typescript
+ * const verifier = createMandateVerifier({ algorithm: "ES256K" });
+ *
+ * const payload = await verifier.verifyCartMandate(cartMandate, {
+ *   merchantDid: "did:wba:merchant",
+ *   shopperDid: "did:wba:shopper"
+ * });
+ * ```
+ */
+export class MandateVerifier {
+  private readonly algorithm: SupportedJwsAlg;
+  private readonly clockTolerance: number | string;
+  private readonly resolver: DidResolver;
+  private readonly logger: LogManager;
+
+  constructor(config: MandateVerifierConfig = {}) {
+    this.algorithm = config.algorithm ?? ANP_AP2_DEFAULTS.DEFAULT_ALGORITHM;
+    this.clockTolerance = config.clockTolerance ?? 0;
+    this.resolver =
+      config.resolver ??
+      createCachingDidResolver(createDidResolver(config.httpClient ? { httpClient: config.httpClient } : {}));
+    this.logger = (config.logger ?? createLogger({ context: { component: "MandateVerifier" } })).withContext({
+      verifier: "mandate",
+    });
+  }
+
+  /**
+   * Verify a CartMandate signed by the merchant and check its cart_hash.
+   */
+  async verifyCartMandate(mandate: CartMandate, options: CartMandateVerifyOptions): Promise<VerifiedCartMandatePayload> {
+    const raw = await this.verifyJws("cart", mandate.merchant_authorization, options.merchantDid, options.shopperDid, options);
+    const payload = this.parsePayload("CartMandateJWSPayload", CartPayloadSchema, raw);
+
+    const expected = cartHash(mandate.contents);
+    if (payload.cart_hash !== expected) {
+      throw new CartHashMismatchError(expected, payload.cart_hash);
+    }
+
+    this.logger.info("Cart mandate verified", { cartId: mandate.contents.id });
+    return payload;
+  }
+
+  /**
+   * Verify a PaymentMandate signed by the user and check its transaction_data.
+   */
+  async verifyPaymentMandate(
+    mandate: PaymentMandate,
+    options: PaymentMandateVerifyOptions
+  ): Promise<PaymentMandateJWSPayload> {
+    const raw = await this.verifyJws("payment", mandate.user_authorization, options.userDid, options.merchantDid, options);
+    const payload = this.parsePayload("PaymentMandateJWSPayload", PaymentMandateJWSPayloadSchema, raw);
+
+    const [payloadCartHash, payloadPmtHash] = payload.transaction_data;
+    if (payloadCartHash !== options.cartHash) {
+      throw new CartHashMismatchError(options.cartHash, payloadCartHash);
+    }
+    const expected = paymentMandateHash(mandate.payment_mandate_contents);
+    if (payloadPmtHash !== expected) {
+      throw new MandateVerificationError("payment", `pmt_hash mismatch: expected ${expected}, got ${payloadPmtHash}`);
+    }
+
+    this.logger.info("Payment mandate verified", { paymentId: mandate.payment_mandate_contents.payment_mandate_id });
+    return payload;
+  }
+
+  /**
+   * Verify a PaymentReceipt or FulfillmentReceipt signed by the merchant and check
+   * the complete hash chain.
+   */
+  async verifyWebhookCredential(
+    credential: PaymentReceipt | FulfillmentReceipt,
+    options: WebhookCredentialVerifyOptions
+  ): Promise<WebhookCredentialJWSPayload> {
+    const raw = await this.verifyJws(
+      "webhook",
+      credential.merchant_authorization,
+      options.merchantDid,
+      options.shopperDid,
+      options
+    );
+    const payload = this.parsePayload("WebhookCredentialJWSPayload", WebhookCredentialJWSPayloadSchema, raw);
+
+    if (payload.credential_type !== credential.credential_type) {
+      throw new MandateVerificationError(
+        "webhook",
+        `credential_type mismatch: expected ${credential.credential_type}, got ${payload.credential_type}`
+      );
+    }
+
+    const [payloadCartHash, payloadPmtHash, payloadCredHash] = payload.transaction_data;
+    if (payloadCartHash !== options.cartHash) {
+      throw new CartHashMismatchError(options.cartHash, payloadCartHash);
+    }
+    if (payloadPmtHash !== options.pmtHash) {
+      throw new MandateVerificationError("webhook", `pmt_hash mismatch: expected ${options.pmtHash}, got ${payloadPmtHash}`);
+    }
+    const expected = contentHash(credential.contents);
+    if (payloadCredHash !== expected) {
+      throw new MandateVerificationError("webhook", `cred_hash mismatch: expected ${expected}, got ${payloadCredHash}`);
+    }
+
+    this.logger.info("Webhook credential verified", { credentialId: credential.id });
+    return payload;
+  }
+
+  getAlgorithm(): string {
+    return this.algorithm;
+  }
+
+  /**
+   * Verify signature and standard claims, mapping JOSE failures to JwtVerificationError.
+   */
+  private async verifyJws(
+    mandateType: string,
+    token: string,
+    issuer: string,
+    audience: string | undefined,
+    options: KeyOptions
+  ): Promise<JWTPayload> {
+    this.logger.debug("Verifying JWS", { mandateType, algorithm: this.algorithm, issuer });
+
+    try {
+      return await verifyJwtWithAlgorithm(token, options.publicKey ?? issuer, this.algorithm, {
+        issuer,
+        ...(audience ? { audience } : {}),
+        clockTolerance: this.clockTolerance,
+        requiredClaims: ["iat", "exp", "jti"],
+        resolver: this.resolver,
+        verificationRelationship: "assertionMethod",
+      });
+    } catch (error) {
+      if (error instanceof joseErrors.JOSEError) {
+        throw new JwtVerificationError(`${mandateType}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private parsePayload<S extends z.ZodType>(schemaName: string, schema: S, payload: JWTPayload): z.infer<S> {
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+      throw new SchemaValidationError(schemaName, result.error.message);
+    }
+    return result.data;
+  }
+}
+
+// ============================================
+// Factory Functions (High-level API)
+// ============================================
+
+/**
+ * Create a Mandate Verifier
+ */
+export function createMandateVerifier(config?: MandateVerifierConfig): MandateVerifier {
+  return new MandateVerifier(config);
+}
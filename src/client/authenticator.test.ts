@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { createDidWbaDocument } from "../core/did.js";
+import { issueJwt } from "../core/jwt.js";
+import { createInMemorySigner } from "../core/signer.js";
+import { Authenticator, type AuthenticatorConfig } from "./authenticator.js";
+import { parseDidWbaAuthHeader, Verifier, type DidWbaAuthHeader } from "./verifier.js";
+
+const URL_A = "https://agent.example.com/rpc";
+
+async function createAuthenticator(config: Partial<AuthenticatorConfig> = {}): Promise<Authenticator> {
+  const { did, privateKeys } = await createDidWbaDocument({ hostname: "client.example", keys: ["Ed25519"] });
+  return new Authenticator({ did, signer: createInMemorySigner(privateKeys["key-1"]!), ...config });
+}
+
+async function accessToken(expiresIn = "15m"): Promise<string> {
+  return issueJwt({}, new TextEncoder().encode("secret"), { subject: "did:wba:client.example", expiresIn });
+}
+
+describe("access token reuse", () => {
+  test("sends the origin's token until it is cleared", async () => {
+    const auth = await createAuthenticator();
+    expect(await auth.getAuthHeader("POST", URL_A)).toStartWith("DIDWba ");
+
+    const token = await accessToken();
+    auth.updateToken(URL_A, { Authorization: `Bearer ${token}` });
+    expect(auth.hasToken(URL_A)).toBe(true);
+    expect(await auth.getAuthHeader("POST", "https://agent.example.com/other")).toBe(`Bearer ${token}`);
+    expect(await auth.getAuthHeader("POST", "https://other.example.com/rpc")).toStartWith("DIDWba ");
+    expect(await auth.getAuthHeader("POST", URL_A, undefined, { forceNew: true })).toStartWith("DIDWba ");
+
+    auth.clearToken(URL_A);
+    expect(await auth.getAuthHeader("POST", URL_A)).toStartWith("DIDWba ");
+  });
+
+  test("drops tokens close to their expiry", async () => {
+    const auth = await createAuthenticator({ tokenExpiryLeewayMs: 60_000 });
+    auth.updateToken(URL_A, new Headers({ Authorization: `Bearer ${await accessToken("30s")}` }));
+    expect(auth.hasToken(URL_A)).toBe(false);
+  });
+});
+
+describe("handshakes", () => {
+  test("direct callers that never report responses do not wait", async () => {
+    const auth = await createAuthenticator();
+    const started = Date.now();
+    await auth.getAuthHeader("POST", URL_A);
+    await auth.getAuthHeader("POST", URL_A);
+    await auth.createAuthHeader("POST", URL_A);
+    await auth.getRequestHeaders("POST", URL_A);
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+
+  test("concurrent requests wait for the first one's token", async () => {
+    const auth = await createAuthenticator();
+    const first = await auth.getRequestHeaders("POST", URL_A, undefined, { handshake: true });
+    expect(first["Authorization"]).toStartWith("DIDWba ");
+
+    // Direct and tracked callers alike wait for the tracked handshake
+    const waiting = [auth.getAuthHeader("POST", URL_A), auth.getRequestHeaders("POST", URL_A, undefined, { handshake: true })];
+    const token = await accessToken();
+    auth.updateToken(URL_A, { authorization: `Bearer ${token}` });
+
+    const [direct, tracked] = await Promise.all(waiting);
+    expect(direct).toBe(`Bearer ${token}`);
+    expect(tracked).toEqual({ Authorization: `Bearer ${token}` });
+  });
+
+  test("time out when the response is never reported", async () => {
+    const auth = await createAuthenticator({ handshakeTimeoutMs: 20 });
+    await auth.getRequestHeaders("POST", URL_A, undefined, { handshake: true });
+    expect(await auth.getAuthHeader("POST", URL_A)).toStartWith("DIDWba ");
+  });
+
+  test("are skipped for origins that issue no tokens", async () => {
+    const auth = await createAuthenticator({ handshakeTimeoutMs: 5_000 });
+    await auth.getRequestHeaders("POST", URL_A, undefined, { handshake: true });
+    auth.updateToken(URL_A, {});
+
+    const started = Date.now();
+    await auth.getRequestHeaders("POST", URL_A, undefined, { handshake: true });
+    await auth.getRequestHeaders("POST", URL_A, undefined, { handshake: true });
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+});
+
+describe("keyring", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  async function keyring() {
+    const identity = await createDidWbaDocument({ hostname: "client.example", keys: ["Ed25519", "P-256", "secp256k1"] });
+    const key = (fragment: string) => createInMemorySigner(identity.privateKeys[fragment]!);
+    const verifier = new Verifier();
+    const usedMethod = async (auth: Authenticator) => {
+      const header = await auth.createAuthHeader("POST", URL_A);
+      const result = await verifier.verify(header, { method: "POST", url: URL_A, didDocument: identity.didDocument });
+      expect(result).toMatchObject({ verified: true });
+      expect(result.verificationMethod).toBe(`${identity.did}#${(parseDidWbaAuthHeader(header) as DidWbaAuthHeader).verificationMethod}`);
+      return result.verificationMethod!.slice(identity.did.length + 1);
+    };
+    return { identity, key, usedMethod };
+  }
+
+  test("signs with the latest valid key and names it in the header", async () => {
+    const { identity, key, usedMethod } = await keyring();
+    const now = Date.now();
+    const auth = new Authenticator({
+      did: identity.did,
+      keys: [
+        { verificationMethodId: "key-1", signer: key("key-1") },
+        { verificationMethodId: `${identity.did}#key-2`, signer: key("key-2"), notBefore: now - 1_000 },
+        { verificationMethodId: "#key-3", signer: key("key-3"), notBefore: now + 60_000 },
+      ],
+    });
+    expect(auth.getVerificationMethod()).toBe(`${identity.did}#key-2`);
+    expect(await usedMethod(auth)).toBe("key-2");
+    expect(auth.getKeys().map((k) => k.verificationMethodId)).toEqual(
+      ["key-1", "key-2", "key-3"].map((fragment) => `${identity.did}#${fragment}`)
+    );
+
+    setSystemTime(new Date(now + 61_000));
+    expect(await usedMethod(auth)).toBe("key-3");
+  });
+
+  test("rotates with an overlap period, then drops the old key", async () => {
+    const { identity, key, usedMethod } = await keyring();
+    const now = Date.now();
+    const auth = new Authenticator({ did: identity.did, signer: key("key-1") });
+    auth.rotateKey({ verificationMethodId: "key-2", signer: key("key-2"), notBefore: now + 60_000 }, { overlapMs: 30_000 });
+    expect(auth.getKeys().find((k) => k.verificationMethodId.endsWith("#key-1"))?.notAfter).toBe(now + 90_000);
+
+    // Until the new key activates, and as fallback during the overlap, key-1 keeps working
+    expect(await usedMethod(auth)).toBe("key-1");
+    setSystemTime(new Date(now + 60_000));
+    expect(await usedMethod(auth)).toBe("key-2");
+    auth.removeKey("key-2");
+    expect(await usedMethod(auth)).toBe("key-1");
+
+    setSystemTime(new Date(now + 90_000));
+    expect(() => auth.getActiveKey()).toThrow(`No signing key of ${identity.did} is valid now`);
+    // Adding a key sweeps expired ones
+    auth.addKey({ verificationMethodId: "key-3", signer: key("key-3") });
+    expect(auth.getKeys().map((k) => k.verificationMethodId)).toEqual([`${identity.did}#key-3`]);
+  });
+
+  test("rejects duplicate, keyless and missing keys", async () => {
+    const { identity, key } = await keyring();
+    const auth = new Authenticator({ did: identity.did, signer: key("key-1") });
+    expect(() => auth.addKey({ verificationMethodId: `${identity.did}#key-1`, signer: key("key-1") })).toThrow(
+      "is already in the keyring"
+    );
+    expect(() => auth.addKey({ verificationMethodId: "key-2" })).toThrow("needs a privateKey or signer");
+    expect(auth.removeKey("key-9")).toBe(false);
+    expect(() => new Authenticator({ did: identity.did })).toThrow("Authenticator requires privateKey, signer or keys");
+  });
+
+  test("finds the verification method of a single key in the DID document", async () => {
+    const { identity, key, usedMethod } = await keyring();
+    const auth = new Authenticator({ did: identity.did, signer: key("key-2"), didDocument: identity.didDocument });
+    expect(await usedMethod(auth)).toBe("key-2");
+  });
+});
@@ -1,15 +1,36 @@
 /**
  * DID-WBA Authenticator
  * 
- * Creates DID-WBA signatures for HTTP requests.
+ * Creates DID-WBA signatures for HTTP requests, in the header format of the ANP
+ * specification (interoperable with the Python and Go implementations):
+ *
+ *   DIDWba did="...", nonce="...", timestamp="...", verification_method="key-1", signature="..."
+ *
+ * The signature covers SHA-256(JCS({ nonce, timestamp, service, did })), where
+ * `service` is the domain the request is sent to. With `signContentDigest`, the body's
+ * RFC 9530 Content-Digest is added as `content_digest` to both header and signed data.
+ *
+ * With `scheme: "HttpSignature"`, requests are signed with RFC 9421 HTTP Message
+ * Signatures instead (`Signature-Input` / `Signature`, keyid = verification method).
+ *
+ * Keys come from a keyring of `{ verificationMethodId, privateKey | signer, notBefore, notAfter }`
+ * entries; the newest valid key signs, so keys can be rotated with overlapping validity.
+ * A Signer keeps the private key outside the process (HSM, KMS, signing service).
+ *
  * Fail Fast: No defensive programming, errors thrown immediately.
  * 
  * @packageDocumentation
  */
 
-import { signSecp256k1 } from "../core/crypto.js";
-import { base64urlEncode } from "../core/utils.js";
+import { sha256 } from "../core/hash.js";
+import { computeContentDigest, type DigestBody } from "../core/digest.js";
+import { signHttpMessage } from "../core/http-signatures.js";
+import { computeJwkThumbprint } from "../core/jwk.js";
+import { createInMemorySigner, type Signer } from "../core/signer.js";
+import { getRelationshipMethods, getVerificationMethodJwk, type DidDocument } from "../core/did.js";
+import { base64urlDecode, base64urlEncode, toHex } from "../core/utils.js";
 import canonicalizeModule from "canonicalize";
+import { LRUCache } from "lru-cache";
 import type { JsonWebKey } from "crypto";
 
 const canonicalize =
@@ -21,10 +42,177 @@ const canonicalize =
 export interface AuthenticatorConfig {
   /** DID identifier */
   did: string;
-  /** Private key in JWK format (secp256k1) */
-  privateKey: JsonWebKey;
-  /** Optional cache for signatures */
+  /**
+   * Private key in JWK format; the signing algorithm is picked from the key algorithm
+   * registry by key type. Shorthand for a single-entry `keys`.
+   */
+  privateKey?: JsonWebKey;
+  /** Signer holding the private key, instead of `privateKey` */
+  signer?: Signer;
+  /**
+   * Verification method in the DID document holding the public key of `privateKey` or
+   * `signer`, as a fragment (`key-1`) or full id. Defaults to the authentication method
+   * of `didDocument` with the same key, otherwise `key-1`.
+   */
+  verificationMethod?: string;
+  /** DID document used to find the verification method of `privateKey` or `signer` */
+  didDocument?: DidDocument;
+  /** Signing keyring; combined with `privateKey` / `signer` if given */
+  keys?: SigningKey[];
+  /** Key identifier sent with legacy signatures; defaults to the RFC 7638 thumbprint of the active key */
+  kid?: string;
+  /**
+   * Emit the pre-specification `DidWba did, sig, ts, kid` header, signing method, URL,
+   * timestamp and body. Only for servers that have not moved to the DIDWba format.
+   */
+  legacy?: boolean;
+  /**
+   * Bind the request body to DIDWba signatures through its Content-Digest (default: false).
+   * Servers must support the `content_digest` parameter; implementations that follow the
+   * base specification only will reject these signatures.
+   */
+  signContentDigest?: boolean;
+  /**
+   * How signRequest authenticates requests (default: "DIDWba"). "HttpSignature" signs
+   * `@method`, `@target-uri` and, when present, `content-digest` and `authorization`
+   * with RFC 9421 HTTP Message Signatures; the body is always bound in that mode.
+   */
+  scheme?: AuthenticatorScheme;
+  /**
+   * @deprecated Signatures are no longer cached (every DIDWba header carries a fresh
+   * nonce); servers' bearer tokens are reused instead. Ignored.
+   */
   cache?: Map<string, string>;
+  /** Maximum number of origins whose access tokens are kept (default: 100) */
+  maxTokens?: number;
+  /** Lifetime assumed for access tokens without an `exp` claim, in milliseconds (default: 15 minutes) */
+  defaultTokenTtlMs?: number;
+  /** Tokens are dropped this long before they expire, in milliseconds (default: 30s) */
+  tokenExpiryLeewayMs?: number;
+  /**
+   * How long concurrent requests to an origin wait for an in-flight DID-WBA handshake
+   * to yield a token before signing themselves, in milliseconds (default: 10s)
+   */
+  handshakeTimeoutMs?: number;
+}
+
+/**
+ * A keyring entry.
+ */
+export interface SigningKey {
+  /** Verification method of the key in the DID document, as fragment (`key-2`) or full id */
+  verificationMethodId: string;
+  /** Private key in JWK format; either this or `signer` is required */
+  privateKey?: JsonWebKey;
+  /** Signer holding the private key */
+  signer?: Signer;
+  /** Start of validity, as Date or epoch milliseconds (default: valid immediately) */
+  notBefore?: Date | number;
+  /** End of validity; the key is never used afterwards (default: no expiry) */
+  notAfter?: Date | number;
+}
+
+export interface RotateKeyOptions {
+  /**
+   * How long the previous active key stays valid after the new key takes over, in
+   * milliseconds (default: 0). The previous key remains the fallback in that window.
+   */
+  overlapMs?: number;
+}
+
+interface KeyringEntry {
+  verificationMethodId: string;
+  signer: Signer;
+  /** Kept to hand back from getKeys() */
+  privateKey?: JsonWebKey;
+  notBefore: number;
+  notAfter: number;
+}
+
+/**
+ * Signature scheme used by an Authenticator
+ */
+export type AuthenticatorScheme = "DIDWba" | "HttpSignature";
+
+export interface GetAuthHeaderOptions {
+  /** Skip the cached access token and sign a new DID-WBA header */
+  forceNew?: boolean;
+  /**
+   * When signing, register the request as the origin's handshake so concurrent requests
+   * wait for its token instead of all signing (default: false). The caller must report
+   * the response through updateToken or clearToken, as the authenticated HTTP clients do.
+   */
+  handshake?: boolean;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Fields covered by a DIDWba signature.
+ */
+export interface DidWbaSignatureInput {
+  nonce: string;
+  timestamp: string;
+  /** Domain of the service the request is sent to, e.g. `agent.example.com` */
+  service: string;
+  did: string;
+  /** Content-Digest of the body, when bound */
+  contentDigest?: string;
+}
+
+/**
+ * Bytes signed for a DIDWba header: SHA-256 of the JCS canonical form of the fields.
+ *
+ * Fail Fast: throws if canonicalization fails.
+ */
+export function createDidWbaSigningPayload(input: DidWbaSignatureInput): Uint8Array {
+  const canonical = canonicalize({
+    nonce: input.nonce,
+    timestamp: input.timestamp,
+    service: input.service,
+    did: input.did,
+    ...(input.contentDigest !== undefined ? { content_digest: input.contentDigest } : {}),
+  });
+  if (!canonical) {
+    throw new Error("Failed to canonicalize message");
+  }
+  return sha256(new TextEncoder().encode(canonical));
+}
+
+/**
+ * Random 128-bit nonce, hex encoded (the format of the Python implementation).
+ */
+export function generateNonce(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Format a DIDWba authorization header.
+ */
+export function formatDidWbaAuthHeader(fields: {
+  did: string;
+  nonce: string;
+  timestamp: string;
+  verificationMethod: string;
+  signature: string;
+  contentDigest?: string;
+}): string {
+  return (
+    `DIDWba did="${fields.did}", nonce="${fields.nonce}", timestamp="${fields.timestamp}", ` +
+    `verification_method="${fields.verificationMethod}", signature="${fields.signature}"` +
+    (fields.contentDigest !== undefined ? `, content_digest="${fields.contentDigest}"` : "")
+  );
+}
+
+/**
+ * Raw bytes of a request body as sent: strings and binary as is, anything else as JSON.
+ */
+export function toRawBody(body: unknown): DigestBody {
+  if (typeof body === "string" || body instanceof Uint8Array || body instanceof ArrayBuffer) return body;
+  return JSON.stringify(body ?? null);
 }
 
 /**
@@ -37,26 +225,207 @@ export interface AuthenticatorConfig {
  *   privateKey: keyPair.privateKey
  * });
  * 
- * const authHeader = await auth.createAuthHeader("POST", "/api/orders", requestBody);
- * // DidWba did="...", sig="...", ts="..."
+ * const authHeader = await auth.createAuthHeader("POST", "https://agent.example.com/api/orders", requestBody);
+ * // DIDWba did="...", nonce="...", timestamp="...", verification_method="key-1", signature="..."
+ *
+ * // Reuse the server's bearer token for later requests to the same origin
+ * const header = await auth.getAuthHeader("POST", url, body);
+ * const response = await httpClient.request(url, "POST", { headers: { Authorization: header }, body });
+ * auth.updateToken(url, response.headers);
+ * if (response.status === 401) auth.clearToken(url); // next call signs again
+ *
+ * // Rotation: key-2 signs once verifiers have had a day to refetch the DID document
+ * auth.rotateKey(
+ *   { verificationMethodId: "key-2", privateKey: newKey, notBefore: Date.now() + 86_400_000 },
+ *   { overlapMs: 3_600_000 }
+ * );
  * ```
  */
 export class Authenticator {
   private readonly did: string;
-  private readonly privateKey: JsonWebKey;
-  private readonly cache: Map<string, string>;
-  private readonly verificationMethod: string;
+  private keyring: KeyringEntry[] = [];
+  private readonly kid: string | undefined;
+  private readonly legacy: boolean;
+  private readonly signContentDigest: boolean;
+  private readonly scheme: AuthenticatorScheme;
+  private readonly tokens: LRUCache<string, CachedToken>;
+  /** Origins whose last response carried no token; requests there never wait on handshakes */
+  private readonly tokenless: LRUCache<string, true>;
+  private readonly defaultTokenTtlMs: number;
+  private readonly tokenExpiryLeewayMs: number;
+  private readonly handshakeTimeoutMs: number;
+  /** Origins with a signed request in flight, resolved once its response is seen */
+  private readonly handshakes = new Map<string, { promise: Promise<void>; done: () => void }>();
 
   constructor(config: AuthenticatorConfig) {
     this.did = config.did;
-    this.privateKey = config.privateKey;
-    this.cache = config.cache ?? new Map();
-    this.verificationMethod = `${config.did}#key-0`;
+    this.kid = config.kid;
+    this.legacy = config.legacy ?? false;
+    this.signContentDigest = config.signContentDigest ?? false;
+    this.scheme = config.scheme ?? "DIDWba";
+    if (config.privateKey || config.signer) {
+      const signer = config.signer ?? createInMemorySigner(config.privateKey!);
+      const method =
+        config.verificationMethod ??
+        (config.didDocument && findMethodForKey(config.didDocument, signer)) ??
+        "key-1";
+      this.addKey({
+        verificationMethodId: method,
+        signer,
+        ...(config.privateKey && !config.signer ? { privateKey: config.privateKey } : {}),
+      });
+    }
+    for (const key of config.keys ?? []) {
+      this.addKey(key);
+    }
+    if (this.keyring.length === 0) {
+      throw new Error("Authenticator requires privateKey, signer or keys");
+    }
+    this.defaultTokenTtlMs = config.defaultTokenTtlMs ?? 15 * 60_000;
+    this.tokens = new LRUCache({ max: config.maxTokens ?? 100 });
+    this.tokenless = new LRUCache({ max: config.maxTokens ?? 100, ttl: this.defaultTokenTtlMs });
+    this.tokenExpiryLeewayMs = config.tokenExpiryLeewayMs ?? 30_000;
+    this.handshakeTimeoutMs = config.handshakeTimeoutMs ?? 10_000;
+  }
+
+  /**
+   * Authorization header for a request: `Bearer <token>` while the origin's access
+   * token is valid, otherwise a freshly signed DID-WBA header.
+   *
+   * Waits while a handshake started with the `handshake` option is in flight to the
+   * origin (see updateToken), so its token can be reused.
+   */
+  async getAuthHeader(
+    method: string,
+    url: string,
+    body?: unknown,
+    options: GetAuthHeaderOptions = {}
+  ): Promise<string> {
+    const bearer = await this.awaitBearer(url, options);
+    return bearer ?? this.createAuthHeader(method, url, body);
+  }
+
+  /**
+   * Authentication headers for a request: the origin's access token while it is valid,
+   * otherwise freshly signed headers from signRequest (so HTTP Message Signatures and
+   * Content-Digest are included when configured).
+   */
+  async getRequestHeaders(
+    method: string,
+    url: string,
+    body?: unknown,
+    options: GetAuthHeaderOptions = {}
+  ): Promise<Record<string, string>> {
+    const bearer = await this.awaitBearer(url, options);
+    return bearer ? { Authorization: bearer } : this.signRequest(method, url, body);
+  }
+
+  /**
+   * `Bearer <token>` if the origin has a valid token (waiting for an in-flight handshake
+   * first); otherwise returns undefined so the caller signs, starting a handshake when
+   * asked to.
+   */
+  private async awaitBearer(url: string, options: GetAuthHeaderOptions): Promise<string | undefined> {
+    const origin = new URL(url).origin;
+
+    if (!options.forceNew) {
+      const cached = this.getToken(origin);
+      if (cached) {
+        return `Bearer ${cached}`;
+      }
+
+      const handshake = this.handshakes.get(origin);
+      if (handshake) {
+        await handshake.promise;
+        const token = this.getToken(origin);
+        if (token) {
+          return `Bearer ${token}`;
+        }
+      }
+    }
+
+    if (options.handshake && !this.handshakes.has(origin) && !this.tokenless.has(origin)) {
+      this.startHandshake(origin);
+    }
+    return undefined;
+  }
+
+  /**
+   * Capture an access token from response headers (`Authorization: Bearer <token>`)
+   * and release requests waiting on the origin's handshake.
+   */
+  updateToken(url: string, headers: Record<string, string> | Headers): void {
+    const origin = new URL(url).origin;
+    const value = headers instanceof Headers ? headers.get("authorization") : findHeader(headers, "authorization");
+    const match = value?.match(/^Bearer\s+(\S+)\s*$/i);
+    if (match) {
+      const token = match[1]!;
+      this.tokens.set(origin, { token, expiresAt: tokenExpiry(token) ?? Date.now() + this.defaultTokenTtlMs });
+      this.tokenless.delete(origin);
+    } else if (!this.tokens.has(origin)) {
+      this.tokenless.set(origin, true);
+    }
+    this.finishHandshake(origin);
+  }
+
+  /**
+   * Forget the origin's access token (e.g. after a 401) so the next request signs again.
+   */
+  clearToken(url: string): void {
+    const origin = new URL(url).origin;
+    this.tokens.delete(origin);
+    this.finishHandshake(origin);
+  }
+
+  /**
+   * Whether a usable access token is cached for the URL's origin
+   */
+  hasToken(url: string): boolean {
+    return this.getToken(new URL(url).origin) !== undefined;
+  }
+
+  private getToken(origin: string): string | undefined {
+    const cached = this.tokens.get(origin);
+    if (!cached) return undefined;
+    if (cached.expiresAt - this.tokenExpiryLeewayMs <= Date.now()) {
+      this.tokens.delete(origin);
+      return undefined;
+    }
+    return cached.token;
+  }
+
+  private startHandshake(origin: string): void {
+    let done!: () => void;
+    const promise = new Promise<void>((resolve) => {
+      done = resolve;
+    });
+    // Waiters must not hang if the caller never reports the response
+    const timer = setTimeout(() => this.finishHandshake(origin), this.handshakeTimeoutMs);
+    (timer as { unref?: () => void }).unref?.();
+    this.handshakes.set(origin, {
+      promise,
+      done: () => {
+        clearTimeout(timer);
+        done();
+      },
+    });
+  }
+
+  private finishHandshake(origin: string): void {
+    const handshake = this.handshakes.get(origin);
+    if (handshake) {
+      this.handshakes.delete(origin);
+      handshake.done();
+    }
   }
 
   /**
    * Create authorization header for HTTP request
    * 
+   * The DIDWba signature binds the request to the domain of `url`, which must
+   * therefore be absolute. The body is bound through its Content-Digest when
+   * `signContentDigest` is set (see signRequest for the matching header).
+   *
    * Fail Fast: Throws if signing fails, no error wrapping.
    * 
    * @param method - HTTP method
@@ -69,14 +438,75 @@ export class Authenticator {
     url: string,
     body?: unknown
   ): Promise<string> {
-    const timestamp = new Date().toISOString();
-    const cacheKey = `${method}:${url}:${timestamp}`;
+    if (this.legacy) {
+      return this.createLegacyAuthHeader(method, url, body);
+    }
+
+    const service = new URL(url).hostname;
+    const nonce = generateNonce();
+    // Second precision, as produced by the Python and Go implementations
+    const timestamp = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+    const input: DidWbaSignatureInput = { nonce, timestamp, service, did: this.did };
+    if (this.signContentDigest && body !== undefined) {
+      input.contentDigest = computeContentDigest(toRawBody(body));
+    }
+    const key = this.activeKey();
+    const signature = base64urlEncode(await key.signer.sign(createDidWbaSigningPayload(input)));
+
+    return formatDidWbaAuthHeader({
+      did: this.did,
+      nonce,
+      timestamp,
+      verificationMethod: key.verificationMethodId.slice(key.verificationMethodId.indexOf("#") + 1),
+      signature,
+      ...(input.contentDigest !== undefined ? { contentDigest: input.contentDigest } : {}),
+    });
+  }
 
-    // Check cache
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)!;
+  /**
+   * Headers authenticating a request.
+   *
+   * DIDWba scheme: `Authorization`, plus `Content-Digest` when the body is bound to the
+   * signature. HttpSignature scheme: `Content-Digest` (with a body), `Signature-Input`
+   * and `Signature`; pass `headers` already set on the request (e.g. `Authorization`)
+   * to have them covered too.
+   */
+  async signRequest(
+    method: string,
+    url: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<Record<string, string>> {
+    if (this.scheme === "HttpSignature") {
+      const signed: Record<string, string> = {};
+      if (body !== undefined) {
+        signed["Content-Digest"] = computeContentDigest(toRawBody(body));
+      }
+      const key = this.activeKey();
+      Object.assign(
+        signed,
+        await signHttpMessage({ method, url, headers: { ...headers, ...signed } }, key.signer, {
+          keyid: key.verificationMethodId,
+          nonce: generateNonce(),
+        })
+      );
+      return signed;
     }
 
+    const signed: Record<string, string> = { Authorization: await this.createAuthHeader(method, url, body) };
+    if (this.signContentDigest && !this.legacy && body !== undefined) {
+      signed["Content-Digest"] = computeContentDigest(toRawBody(body));
+    }
+    return signed;
+  }
+
+  /**
+   * Pre-specification `DidWba did, sig, ts, kid` header
+   */
+  private async createLegacyAuthHeader(method: string, url: string, body?: unknown): Promise<string> {
+    const timestamp = new Date().toISOString();
+
     // Create message to sign
     const message = {
       method: method.toUpperCase(),
@@ -95,16 +525,13 @@ export class Authenticator {
     const messageBytes = new TextEncoder().encode(canonical);
     
     // Sign (throws if fails)
-    const signature = await signSecp256k1(this.privateKey, messageBytes);
+    const key = this.activeKey();
+    const signature = await key.signer.sign(messageBytes);
     const sig = base64urlEncode(signature);
 
     // Create header
-    const header = `DidWba did="${this.did}", sig="${sig}", ts="${timestamp}"`;
-
-    // Cache result
-    this.cache.set(cacheKey, header);
-
-    return header;
+    const kid = this.kid ?? key.signer.kid;
+    return `DidWba did="${this.did}", sig="${sig}", ts="${timestamp}", kid="${kid}"`;
   }
 
   /**
@@ -126,10 +553,157 @@ export class Authenticator {
   }
 
   /**
-   * Get the verification method
+   * Get the verification method of the active key
    */
   getVerificationMethod(): string {
-    return this.verificationMethod;
+    return this.activeKey().verificationMethodId;
+  }
+
+  /**
+   * The key signing requests now: the valid key with the latest `notBefore` (earlier
+   * entries win ties). Verification method ids are returned in full.
+   *
+   * Fail Fast: throws if no key is currently valid.
+   */
+  getActiveKey(): SigningKey {
+    return toSigningKey(this.activeKey());
+  }
+
+  /**
+   * All keys in the keyring, including ones not yet or no longer valid
+   */
+  getKeys(): SigningKey[] {
+    return this.keyring.map(toSigningKey);
+  }
+
+  /**
+   * Add a key to the keyring. Expired keys are dropped along the way.
+   *
+   * Fail Fast: throws if the verification method is already in the keyring, or if the
+   * key has neither `privateKey` nor `signer`.
+   */
+  addKey(key: SigningKey): void {
+    const verificationMethodId = key.verificationMethodId.startsWith("did:")
+      ? key.verificationMethodId
+      : `${this.did}#${key.verificationMethodId.replace(/^#/, "")}`;
+    const now = Date.now();
+    this.keyring = this.keyring.filter((entry) => entry.notAfter > now);
+    if (this.keyring.some((entry) => entry.verificationMethodId === verificationMethodId)) {
+      throw new Error(`Key ${verificationMethodId} is already in the keyring`);
+    }
+    const signer = key.signer ?? (key.privateKey && createInMemorySigner(key.privateKey));
+    if (!signer) {
+      throw new Error(`Key ${verificationMethodId} needs a privateKey or signer`);
+    }
+    this.keyring.push({
+      verificationMethodId,
+      signer,
+      ...(key.privateKey ? { privateKey: key.privateKey } : {}),
+      notBefore: key.notBefore === undefined ? -Infinity : Number(key.notBefore),
+      notAfter: key.notAfter === undefined ? Infinity : Number(key.notAfter),
+    });
+  }
+
+  /**
+   * Remove a key from the keyring
+   *
+   * @returns false if no key has that verification method
+   */
+  removeKey(verificationMethodId: string): boolean {
+    const before = this.keyring.length;
+    this.keyring = this.keyring.filter(
+      (entry) =>
+        entry.verificationMethodId !== verificationMethodId &&
+        !entry.verificationMethodId.endsWith(`#${verificationMethodId.replace(/^#/, "")}`)
+    );
+    return this.keyring.length < before;
+  }
+
+  /**
+   * Rotate to a new key: it signs from its `notBefore` (default: now), and the current
+   * active key expires `overlapMs` later. Publish the new verification method in the DID
+   * document before the new key takes over.
+   */
+  rotateKey(key: SigningKey, options: RotateKeyOptions = {}): void {
+    const activation = key.notBefore === undefined ? Date.now() : Number(key.notBefore);
+    const retireAt = activation + (options.overlapMs ?? 0);
+    const current = this.findActiveKey(Date.now());
+    this.addKey({ ...key, notBefore: activation });
+    if (current && current.notAfter > retireAt) {
+      current.notAfter = retireAt;
+    }
+  }
+
+  private activeKey(): KeyringEntry {
+    const key = this.findActiveKey(Date.now());
+    if (!key) {
+      throw new Error(`No signing key of ${this.did} is valid now`);
+    }
+    return key;
+  }
+
+  private findActiveKey(now: number): KeyringEntry | undefined {
+    let active: KeyringEntry | undefined;
+    for (const entry of this.keyring) {
+      if (entry.notBefore <= now && now < entry.notAfter && (!active || entry.notBefore > active.notBefore)) {
+        active = entry;
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Get the signature scheme used by signRequest
+   */
+  getScheme(): AuthenticatorScheme {
+    return this.scheme;
+  }
+
+  /**
+   * Get the key identifier sent with legacy signatures
+   */
+  getKid(): string {
+    return this.kid ?? this.activeKey().signer.kid;
+  }
+}
+
+function toSigningKey(entry: KeyringEntry): SigningKey {
+  const key: SigningKey = { verificationMethodId: entry.verificationMethodId, signer: entry.signer };
+  if (entry.privateKey) key.privateKey = entry.privateKey;
+  if (Number.isFinite(entry.notBefore)) key.notBefore = entry.notBefore;
+  if (Number.isFinite(entry.notAfter)) key.notAfter = entry.notAfter;
+  return key;
+}
+
+/**
+ * Authentication method of a DID document holding the public key of a signer
+ */
+function findMethodForKey(didDocument: DidDocument, signer: Signer): string | undefined {
+  const thumbprint = computeJwkThumbprint(signer.publicJwk);
+  return getRelationshipMethods(didDocument, "authentication").find((method) => {
+    try {
+      return computeJwkThumbprint(getVerificationMethodJwk(method)) === thumbprint;
+    } catch {
+      return false;
+    }
+  })?.id;
+}
+
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((candidate) => candidate.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Expiry of a JWT access token from its `exp` claim, in milliseconds. The token is
+ * opaque to the client, so nothing is verified here.
+ */
+function tokenExpiry(token: string): number | undefined {
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(base64urlDecode(token.split(".")[1] ?? "")));
+    return typeof payload.exp === "number" ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
   }
 }
 
@@ -2,25 +2,100 @@
  * Client module - Integrates auth and crawler for discovering and calling agents
  */
 
-import { createAuthenticator, type Authenticator } from "./authenticator.js";
-import { Crawler } from "./crawler.js";
-import { defaultHttpClient, type HttpClient } from "../core/http.js";
+import { createAuthenticator, type Authenticator, type AuthenticatorConfig } from "./authenticator.js";
+import { createAuthenticatedHttpClient, defaultHttpClient, type HttpClient } from "../core/http.js";
+import { didToURL, getServiceEndpointUrl, serviceHasType } from "../core/did.js";
+import { createDidResolver, requireDidDocument, type DidResolver } from "../core/resolver.js";
+import type { Signer } from "../core/signer.js";
+import type { DidDocument } from "../core/did.js";
+import type { JsonWebKey } from "crypto";
+import { SecureChannelClient } from "./secure-channel.js";
 
 // Re-export auth
-export { Authenticator, createAuthenticator } from "./authenticator.js";
-export type { AuthenticatorConfig } from "./authenticator.js";
-export { Verifier, createVerifier } from "./verifier.js";
-export type { VerifierConfig, VerifyOptions, VerificationResult } from "./verifier.js";
+export {
+  Authenticator,
+  createAuthenticator,
+  createDidWbaSigningPayload,
+  formatDidWbaAuthHeader,
+  generateNonce,
+  toRawBody,
+} from "./authenticator.js";
+export type {
+  AuthenticatorConfig,
+  AuthenticatorScheme,
+  DidWbaSignatureInput,
+  GetAuthHeaderOptions,
+  SigningKey,
+  RotateKeyOptions,
+} from "./authenticator.js";
+export { Verifier, createVerifier, parseDidWbaAuthHeader } from "./verifier.js";
+export {
+  InMemoryNonceStore,
+  KeyValueNonceStore,
+  createInMemoryNonceStore,
+  createKeyValueNonceStore,
+} from "./nonce-store.js";
+export type {
+  NonceStore,
+  InMemoryNonceStoreConfig,
+  KeyValueNonceBackend,
+  KeyValueNonceStoreConfig,
+} from "./nonce-store.js";
+export { DidPolicy, createDidPolicy } from "./policy.js";
+export type { DidPolicyConfig, DidPolicyContext, DidPattern, PolicyName, PolicyViolation } from "./policy.js";
+export type {
+  VerifierConfig,
+  VerifyOptions,
+  VerificationResult,
+  VerificationErrorCode,
+  AuthScheme,
+  HttpSignatureVerifyOptions,
+  VerifyRequestOptions,
+  RequestVerificationResult,
+  Principal,
+  DidWbaAuthHeader,
+  LegacyDidWbaAuthHeader,
+} from "./verifier.js";
 
 // Re-export crawler
 export { Crawler, createCrawler, fetchInterface } from "./crawler.js";
 export type { CrawlerConfig, CrawlerInterface, CrawlerEndpoint } from "./crawler.js";
 
+// Re-export secure channels
+export { SecureChannelClient, createSecureChannelClient } from "./secure-channel.js";
+export type { SecureChannelClientConfig } from "./secure-channel.js";
+
+/**
+ * Options for end-to-end encrypted JSON-RPC calls
+ */
+export interface ClientEncryptionOptions {
+  /** DID of the agent; defaults to the client's `did` */
+  did?: string;
+  /** The agent's DID document; resolved when omitted */
+  didDocument?: DidDocument;
+  resolver?: DidResolver;
+  /** keyAgreement method to use (`#key-2` or full DID URL) */
+  kid?: string;
+}
+
 export interface AgentClientConfig {
   did: string;
   baseUrl?: string;
   httpClient?: HttpClient;
   privateKey?: JsonWebKey;
+  /** Signer holding the private key (HSM, KMS), instead of `privateKey` */
+  signer?: Signer;
+  /**
+   * Authenticator to sign with instead of one built from `did` and `privateKey` / `signer`;
+   * share it between clients so they reuse each other's access tokens.
+   */
+  authenticator?: Authenticator;
+  /**
+   * Send JSON-RPC calls over a secure channel encrypted to the agent's `keyAgreement` key.
+   * `true` uses the client's `did` as the agent's DID. Handshakes must sign the body, so a
+   * given `authenticator` needs `signContentDigest` (or the HttpSignature scheme).
+   */
+  encryption?: boolean | ClientEncryptionOptions;
 }
 
 export interface AgentClient {
@@ -96,11 +171,37 @@ export function createClient(config: AgentClientConfig): AgentClient {
     }
   }
 
-  let authenticator: Authenticator | undefined;
-  if (config.privateKey) {
-    authenticator = createAuthenticator({
+  let authenticator: Authenticator | undefined = config.authenticator;
+  if (!authenticator && (config.privateKey || config.signer)) {
+    const authConfig: AuthenticatorConfig = {
       did: config.did,
-      privateKey: config.privateKey,
+      // Agents only open channels for handshakes whose signature covers the body
+      signContentDigest: !!config.encryption,
+    };
+    if (config.signer) {
+      authConfig.signer = config.signer;
+    } else if (config.privateKey) {
+      authConfig.privateKey = config.privateKey;
+    }
+    authenticator = createAuthenticator(authConfig);
+  }
+
+  // Only JSON-RPC calls to the agent are authenticated; descriptions are public
+  const rpcClient = authenticator
+    ? createAuthenticatedHttpClient(httpClient, authenticator, { domains: [new URL(baseUrl).hostname] })
+    : httpClient;
+
+  let secureChannel: SecureChannelClient | undefined;
+  if (config.encryption) {
+    const encryption = config.encryption === true ? {} : config.encryption;
+    secureChannel = new SecureChannelClient({
+      did: encryption.did ?? config.did,
+      baseUrl,
+      handshakeClient: rpcClient,
+      httpClient,
+      ...(encryption.didDocument ? { didDocument: encryption.didDocument } : {}),
+      ...(encryption.resolver ? { resolver: encryption.resolver } : {}),
+      ...(encryption.kid ? { kid: encryption.kid } : {}),
     });
   }
 
@@ -124,31 +225,23 @@ export function createClient(config: AgentClientConfig): AgentClient {
       const url = `${baseUrl}/rpc`;
       const body = JSON.stringify(request);
 
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
-
-      if (authenticator) {
-        const authHeader = await authenticator.createAuthHeader(
-          "POST",
-          url,
-          body
-        );
-        headers["Authorization"] = authHeader;
+      let data: JSONRPCResponse;
+      if (secureChannel) {
+        data = (await secureChannel.send(body)) as JSONRPCResponse;
+      } else {
+        const headers: Record<string, string> = {
+          "Content-Type": "application/json",
+        };
+        data = (await rpcClient.request<JSONRPCResponse>(url, "POST", { headers, body })).data;
       }
 
-      const response = await httpClient.request<JSONRPCResponse>(url, "POST", {
-        headers,
-        body,
-      });
-
-      if (response.data.error) {
+      if (data.error) {
         throw new Error(
-          `JSON-RPC Error ${response.data.error.code}: ${response.data.error.message}`
+          `JSON-RPC Error ${data.error.code}: ${data.error.message}`
         );
       }
 
-      return response.data.result as TResult;
+      return data.result as TResult;
     },
 
     async getAgentDescription(): Promise<AgentDescription> {
@@ -169,58 +262,55 @@ export function createClient(config: AgentClientConfig): AgentClient {
   };
 }
 
+/**
+ * Discover an agent by DID and return a client for it.
+ *
+ * The DID document is resolved (did:wba, did:web, did:key or any method the given
+ * resolver supports) and its `ANPAgent` service endpoint used as base URL. did:wba
+ * documents without such a service fall back to the DID's origin.
+ */
 export async function discover(
   did: string,
   options?: {
     httpClient?: HttpClient;
     privateKey?: JsonWebKey;
+    signer?: Signer;
+    /** Authenticator for JSON-RPC calls, e.g. one shared between clients */
+    authenticator?: Authenticator;
+    resolver?: DidResolver;
+    /** Encrypt JSON-RPC calls to the agent's `keyAgreement` key */
+    encryption?: boolean | Omit<ClientEncryptionOptions, "did" | "didDocument">;
   }
 ): Promise<AgentClient> {
   const httpClient = options?.httpClient || defaultHttpClient;
-  const crawler = new Crawler({ httpClient });
-
-  let baseUrl: string;
-
-  if (did.startsWith("did:wba:")) {
-    baseUrl = `https://${did.replace("did:wba:", "")}`;
-  } else if (did.startsWith("did:web:")) {
-    const didDocUrl = didToDidDocumentUrl(did);
-    const response = await httpClient.request(didDocUrl, "GET");
-    const didDoc = response.data as any;
+  const resolver = options?.resolver ?? createDidResolver({ httpClient });
 
-    const serviceEndpoint = didDoc.service?.find(
-      (s: any) => s.type === "ANPAgent"
-    )?.serviceEndpoint;
+  const didDoc = await requireDidDocument(resolver, did);
+  const service = didDoc.service?.find((s) => serviceHasType(s, "ANPAgent"));
+  const serviceEndpoint = service && getServiceEndpointUrl(service);
 
-    if (!serviceEndpoint) {
-      throw new Error(`No ANPAgent service found in DID document for ${did}`);
-    }
-
-    baseUrl = serviceEndpoint as string;
+  let baseUrl: string;
+  if (serviceEndpoint) {
+    baseUrl = serviceEndpoint;
+  } else if (did.startsWith("did:wba:")) {
+    baseUrl = new URL(didToURL(did)).origin;
   } else {
-    throw new Error(`Unsupported DID method: ${did}`);
+    throw new Error(`No ANPAgent service found in DID document for ${did}`);
   }
 
   const client = createClient({
     did,
     baseUrl,
     httpClient,
-    privateKey: options?.privateKey,
+    ...(options?.privateKey ? { privateKey: options.privateKey } : {}),
+    ...(options?.signer ? { signer: options.signer } : {}),
+    ...(options?.authenticator ? { authenticator: options.authenticator } : {}),
+    ...(options?.encryption
+      ? { encryption: { ...(options.encryption === true ? {} : options.encryption), didDocument: didDoc } }
+      : {}),
   });
 
   await client.getAgentDescription();
 
   return client;
 }
-
-function didToDidDocumentUrl(did: string): string {
-  if (did.startsWith("did:web:")) {
-    const parts = did.split(":");
-    const domain = parts[2];
-    const path = parts.slice(3).join("/");
-    return path
-      ? `https://${domain}/${path}/did.json`
-      : `https://${domain}/.well-known/did.json`;
-  }
-  throw new Error("Only did:web is supported");
-}
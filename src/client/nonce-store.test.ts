@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { createInMemoryNonceStore, createKeyValueNonceStore, type KeyValueNonceBackend } from "./nonce-store.js";
+
+describe("InMemoryNonceStore", () => {
+  test("rejects a nonce until its TTL passes", async () => {
+    const store = createInMemoryNonceStore({ sweepIntervalMs: 0 });
+    expect(await store.checkAndStore("a", 20)).toBe(true);
+    expect(await store.checkAndStore("a", 20)).toBe(false);
+    expect(await store.checkAndStore("b", 20)).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await store.checkAndStore("c", 20)).toBe(true);
+    // The sweep dropped the expired entries
+    expect(store.size).toBe(1);
+    expect(await store.checkAndStore("a", 20)).toBe(true);
+  });
+});
+
+describe("KeyValueNonceStore", () => {
+  test("stores prefixed keys through the backend", async () => {
+    const keys = new Map<string, number>();
+    const backend: KeyValueNonceBackend = {
+      async setIfAbsent(key, _value, ttlMs) {
+        if (keys.has(key)) return false;
+        keys.set(key, ttlMs);
+        return true;
+      },
+    };
+    const store = createKeyValueNonceStore(backend, { prefix: "test:" });
+    expect(await store.checkAndStore("a", 0.5)).toBe(true);
+    expect(await store.checkAndStore("a", 1000)).toBe(false);
+    expect(Object.fromEntries(keys)).toEqual({ "test:a": 1 });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Nonce Stores
+ *
+ * Remember the nonces of accepted DID-WBA requests so the Verifier can reject
+ * replays. Entries only need to outlive the timestamp acceptance window: older
+ * requests are rejected by their timestamp anyway.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Records seen nonces.
+ */
+export interface NonceStore {
+  /**
+   * Record a nonce for `ttlMs` milliseconds.
+   *
+   * @returns false if the nonce was already recorded (a replay), true otherwise
+   */
+  checkAndStore(nonce: string, ttlMs: number): Promise<boolean>;
+}
+
+// ============================================
+// In-memory store
+// ============================================
+
+export interface InMemoryNonceStoreConfig {
+  /** Interval between sweeps of expired entries, in milliseconds (default: 60s) */
+  sweepIntervalMs?: number;
+}
+
+/**
+ * Process-local nonce store. Use a key-value backed store when several
+ * verifier instances serve the same DID-WBA domain.
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly entries = new Map<string, number>();
+  private readonly sweepIntervalMs: number;
+  private lastSweep = Date.now();
+
+  constructor(config: InMemoryNonceStoreConfig = {}) {
+    this.sweepIntervalMs = config.sweepIntervalMs ?? 60_000;
+  }
+
+  async checkAndStore(nonce: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const expiresAt = this.entries.get(nonce);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+    this.entries.set(nonce, now + ttlMs);
+    return true;
+  }
+
+  /**
+   * Number of nonces currently remembered (expired entries may linger until the next sweep)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.sweepIntervalMs) return;
+    this.lastSweep = now;
+    for (const [nonce, expiresAt] of this.entries) {
+      if (expiresAt <= now) this.entries.delete(nonce);
+    }
+  }
+}
+
+// ============================================
+// Key-value backed store
+// ============================================
+
+/**
+ * Minimal key-value backend with atomic insert-if-absent and expiry.
+ *
+ * @example
+ * ```typescript
+ * // Redis (node-redis)
+ * const backend: KeyValueNonceBackend = {
+ *   async setIfAbsent(key, value, ttlMs) {
+ *     return (await redis.set(key, value, { NX: true, PX: ttlMs })) === "OK";
+ *   },
+ * };
+ *
+ * // Deno KV
+ * const backend: KeyValueNonceBackend = {
+ *   async setIfAbsent(key, value, ttlMs) {
+ *     const result = await kv.atomic()
+ *       .check({ key: [key], versionstamp: null })
+ *       .set([key], value, { expireIn: ttlMs })
+ *       .commit();
+ *     return result.ok;
+ *   },
+ * };
+ * ```
+ */
+export interface KeyValueNonceBackend {
+  /**
+   * Store `value` under `key` for `ttlMs` milliseconds unless the key exists.
+   *
+   * @returns true if the value was stored, false if the key already existed
+   */
+  setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+}
+
+export interface KeyValueNonceStoreConfig {
+  /** Key prefix (default: "anp:nonce:") */
+  prefix?: string;
+}
+
+/**
+ * Nonce store on top of a shared key-value backend (Redis, Deno KV, ...).
+ */
+export class KeyValueNonceStore implements NonceStore {
+  private readonly prefix: string;
+
+  constructor(
+    private readonly backend: KeyValueNonceBackend,
+    config: KeyValueNonceStoreConfig = {}
+  ) {
+    this.prefix = config.prefix ?? "anp:nonce:";
+  }
+
+  async checkAndStore(nonce: string, ttlMs: number): Promise<boolean> {
+    return this.backend.setIfAbsent(`${this.prefix}${nonce}`, "1", Math.max(1, Math.ceil(ttlMs)));
+  }
+}
+
+// ============================================
+// Factory Functions
+// ============================================
+
+/**
+ * Create a process-local nonce store
+ */
+export function createInMemoryNonceStore(config?: InMemoryNonceStoreConfig): InMemoryNonceStore {
+  return new InMemoryNonceStore(config);
+}
+
+/**
+ * Create a nonce store backed by a key-value backend
+ */
+export function createKeyValueNonceStore(
+  backend: KeyValueNonceBackend,
+  config?: KeyValueNonceStoreConfig
+): KeyValueNonceStore {
+  return new KeyValueNonceStore(backend, config);
+}
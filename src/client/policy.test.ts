@@ -0,0 +1,164 @@
+import { describe, expect, test } from "bun:test";
+import { createDidWbaDocument, type DidDocument } from "../core/did.js";
+import type { DidResolver } from "../core/resolver.js";
+import { createInMemorySigner } from "../core/signer.js";
+import { Authenticator } from "./authenticator.js";
+import { DidPolicy } from "./policy.js";
+import { Verifier, type VerifierConfig } from "./verifier.js";
+
+const ALICE = "did:wba:partner.example:user:alice";
+
+function document(did: string): DidDocument {
+  return {
+    id: did,
+    verificationMethod: [{ id: `${did}#key-1`, type: "JsonWebKey2020", controller: did }],
+    authentication: [`${did}#key-1`],
+  };
+}
+
+describe("checkDid", () => {
+  test("accepts any DID without rules", () => {
+    expect(new DidPolicy().checkDid(ALICE)).toBeNull();
+  });
+
+  test("matches exact, glob and RegExp patterns", () => {
+    const policy = new DidPolicy({ allow: ["did:wba:a.example", "did:wba:partner.example:user:*", /^did:key:/] });
+    expect(policy.checkDid("did:wba:a.example")).toBeNull();
+    expect(policy.checkDid(ALICE)).toBeNull();
+    expect(policy.checkDid("did:key:z6Mk")).toBeNull();
+    expect(policy.checkDid("did:wba:a.example:user:bob")).toEqual({
+      policy: "allow",
+      error: "did:wba:a.example:user:bob is not allowed",
+    });
+    // Glob patterns are anchored and treat dots literally
+    expect(policy.checkDid("did:wba:partnerXexample:user:alice")).toMatchObject({ policy: "allow" });
+  });
+
+  test("matches domains and subdomains, ignoring ports and case", () => {
+    const policy = new DidPolicy({ allowDomains: ["a.example", "*.partner.example"] });
+    expect(policy.checkDid("did:wba:A.example%3A8800:user:bob")).toBeNull();
+    expect(policy.checkDid("did:web:eu.partner.example")).toBeNull();
+    expect(policy.checkDid(ALICE)).toMatchObject({ policy: "allow" });
+    // DIDs without a domain never match
+    expect(policy.checkDid("did:key:z6Mk")).toMatchObject({ policy: "allow" });
+  });
+
+  test("lets deny rules win over allow rules", () => {
+    const policy = new DidPolicy({
+      allowDomains: ["partner.example"],
+      deny: ["did:wba:partner.example:user:mallory"],
+      denyDomains: ["*.partner.example"],
+    });
+    expect(policy.checkDid("did:wba:partner.example:user:mallory")).toEqual({
+      policy: "deny",
+      error: "did:wba:partner.example:user:mallory is denied",
+    });
+    expect(policy.checkDid("did:wba:eu.partner.example")).toMatchObject({ policy: "deny" });
+    expect(policy.checkDid(ALICE)).toBeNull();
+  });
+});
+
+describe("checkDocument", () => {
+  const didDocument = document(ALICE);
+  const verificationMethod = didDocument.verificationMethod![0]!;
+
+  test("requires accepted verification method types", async () => {
+    const policy = new DidPolicy({ verificationMethodTypes: ["Ed25519VerificationKey2020"] });
+    expect(await policy.checkDocument({ did: ALICE, didDocument, verificationMethod })).toEqual({
+      policy: "verificationMethodType",
+      error: "Verification method type JsonWebKey2020 is not accepted",
+    });
+    const accepting = new DidPolicy({ verificationMethodTypes: ["JsonWebKey2020"] });
+    expect(await accepting.checkDocument({ did: ALICE, didDocument, verificationMethod })).toBeNull();
+    expect(await accepting.checkDocument({ did: ALICE, didDocument })).toMatchObject({
+      policy: "verificationMethodType",
+    });
+  });
+
+  test("asks the trust callback last", async () => {
+    const asked: string[] = [];
+    const policy = new DidPolicy({
+      isTrusted: async (did, doc) => {
+        asked.push(did);
+        return doc.id === ALICE;
+      },
+    });
+    expect(await policy.checkDocument({ did: ALICE, didDocument, verificationMethod })).toBeNull();
+    const other = "did:wba:partner.example:user:bob";
+    expect(await policy.checkDocument({ did: other, didDocument: document(other) })).toEqual({
+      policy: "trust",
+      error: `${other} is not trusted`,
+    });
+    expect(asked).toEqual([ALICE, other]);
+  });
+
+  test("binds documents to the DID's domain", async () => {
+    const policy = new DidPolicy({ domainBinding: true });
+    const documentUrl = "https://partner.example/user/alice/did.json";
+    expect(await policy.checkDocument({ did: ALICE, didDocument, verificationMethod, documentUrl })).toBeNull();
+
+    expect(
+      await policy.checkDocument({ did: ALICE, didDocument, documentUrl: "https://mirror.example/user/alice/did.json" })
+    ).toEqual({ policy: "domainBinding", error: `Document of ${ALICE} was served from mirror.example` });
+    expect(await policy.checkDocument({ did: ALICE, didDocument: document("did:wba:mirror.example") })).toMatchObject({
+      policy: "domainBinding",
+    });
+    const foreign = { ...verificationMethod, controller: "did:wba:mirror.example" };
+    expect(await policy.checkDocument({ did: ALICE, didDocument, verificationMethod: foreign })).toEqual({
+      policy: "domainBinding",
+      error: `Verification method ${ALICE}#key-1 does not belong to ${ALICE}`,
+    });
+  });
+});
+
+describe("Verifier policy", () => {
+  const URL_A = "https://agent.example.com/rpc";
+
+  async function setup(config: VerifierConfig, documentUrl?: string) {
+    const identity = await createDidWbaDocument({ hostname: "partner.example", path: "user/alice", keys: ["Ed25519"] });
+    const resolver: DidResolver = {
+      async resolve() {
+        return {
+          didResolutionMetadata: { documentUrl: documentUrl ?? identity.documentUrl },
+          didDocument: identity.didDocument,
+          didDocumentMetadata: {},
+        };
+      },
+    };
+    const authenticator = new Authenticator({
+      did: identity.did,
+      signer: createInMemorySigner(identity.privateKeys["key-1"]!),
+    });
+    const header = await authenticator.createAuthHeader("POST", URL_A);
+    return new Verifier({ resolver, ...config }).verify(header, { method: "POST", url: URL_A });
+  }
+
+  test("accepts DIDs that pass every check", async () => {
+    const result = await setup({
+      policy: { allowDomains: ["partner.example"], verificationMethodTypes: ["Ed25519VerificationKey2020"], domainBinding: true },
+    });
+    expect(result).toMatchObject({ verified: true, did: ALICE });
+  });
+
+  test("reports which policy rejected the request", async () => {
+    const cases: Array<[VerifierConfig["policy"], string]> = [
+      [{ deny: ["did:wba:partner.example:*"] }, "deny"],
+      [{ allowDomains: ["a.example"] }, "allow"],
+      [{ verificationMethodTypes: ["JsonWebKey2020"] }, "verificationMethodType"],
+      [{ isTrusted: () => false }, "trust"],
+    ];
+    for (const [policy, name] of cases) {
+      expect(await setup({ policy: policy! })).toMatchObject({ verified: false, code: "policyDenied", policy: name });
+    }
+  });
+
+  test("checks the resolver's document URL for domain binding", async () => {
+    const result = await setup({ policy: { domainBinding: true } }, "https://mirror.example/user/alice/did.json");
+    expect(result).toMatchObject({ verified: false, code: "policyDenied", policy: "domainBinding" });
+  });
+
+  test("accepts shared DidPolicy instances", async () => {
+    const policy = new DidPolicy({ deny: [ALICE] });
+    expect(await setup({ policy })).toMatchObject({ code: "policyDenied", policy: "deny" });
+  });
+});
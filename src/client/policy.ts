@@ -0,0 +1,189 @@
+/**
+ * DID Policies
+ *
+ * Decide which authenticated DIDs a Verifier accepts: allow/deny lists by DID pattern
+ * or domain, required verification method types, a trust callback, and did:wba domain
+ * binding. Checks that only need the DID run before its document is resolved.
+ *
+ * @packageDocumentation
+ */
+
+import type { DidDocument, DidVerificationMethod } from "../core/did.js";
+
+/**
+ * A DID pattern: exact DID, glob with `*` wildcards (`did:wba:example.com:*`) or RegExp.
+ */
+export type DidPattern = string | RegExp;
+
+/**
+ * Names of the policy checks, reported when a request is rejected.
+ */
+export type PolicyName = "deny" | "allow" | "domainBinding" | "verificationMethodType" | "trust";
+
+export interface DidPolicyConfig {
+  /** DIDs to accept; when set (with `allowDomains`), DIDs matching neither are rejected */
+  allow?: DidPattern[];
+  /** DIDs to reject; takes precedence over every allow rule */
+  deny?: DidPattern[];
+  /**
+   * did:wba / did:web domains to accept, e.g. `example.com` or `*.example.com` for
+   * subdomains. DIDs of other methods have no domain and never match.
+   */
+  allowDomains?: string[];
+  /** did:wba / did:web domains to reject */
+  denyDomains?: string[];
+  /** Accepted types of the signing verification method, e.g. `["Ed25519VerificationKey2020"]` */
+  verificationMethodTypes?: string[];
+  /**
+   * Require did:wba / did:web documents to be bound to the DID's domain: the document
+   * must have been served from that domain (when the resolver reports `documentUrl`)
+   * and the signing method must belong to the DID itself (default: false).
+   */
+  domainBinding?: boolean;
+  /** Final say on a DID once its document is known; return false to reject */
+  isTrusted?: (did: string, didDocument: DidDocument) => boolean | Promise<boolean>;
+}
+
+/**
+ * A failed policy check.
+ */
+export interface PolicyViolation {
+  policy: PolicyName;
+  error: string;
+}
+
+/**
+ * What document-level checks look at.
+ */
+export interface DidPolicyContext {
+  did: string;
+  didDocument: DidDocument;
+  /** The verification method that signed the request */
+  verificationMethod?: DidVerificationMethod;
+  /** URL the document was served from, if known */
+  documentUrl?: string;
+}
+
+/**
+ * DID policy evaluated by the Verifier
+ *
+ * @example
+ * ```typescript
+ * const verifier = createVerifier({
+ *   policy: {
+ *     allowDomains: ["*.partner.example"],
+ *     deny: ["did:wba:partner.example:revoked:*"],
+ *     domainBinding: true,
+ *   },
+ * });
+ * const result = await verifier.verify(header, options);
+ * if (result.code === "policyDenied") console.log(result.policy); // e.g. "allow"
+ * ```
+ */
+export class DidPolicy {
+  constructor(private readonly config: DidPolicyConfig = {}) {}
+
+  /**
+   * Allow/deny checks on the DID alone
+   */
+  checkDid(did: string): PolicyViolation | null {
+    const domain = didDomain(did);
+    if (
+      this.config.deny?.some((pattern) => matchesDid(pattern, did)) ||
+      (domain !== undefined && this.config.denyDomains?.some((pattern) => matchesDomain(pattern, domain)))
+    ) {
+      return { policy: "deny", error: `${did} is denied` };
+    }
+
+    const { allow, allowDomains } = this.config;
+    if (allow || allowDomains) {
+      const allowed =
+        allow?.some((pattern) => matchesDid(pattern, did)) ||
+        (domain !== undefined && allowDomains?.some((pattern) => matchesDomain(pattern, domain)));
+      if (!allowed) {
+        return { policy: "allow", error: `${did} is not allowed` };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Checks that need the resolved DID document
+   */
+  async checkDocument(context: DidPolicyContext): Promise<PolicyViolation | null> {
+    const { did, didDocument, verificationMethod } = context;
+
+    if (this.config.domainBinding) {
+      const error = domainBindingError(context);
+      if (error) {
+        return { policy: "domainBinding", error };
+      }
+    }
+
+    const types = this.config.verificationMethodTypes;
+    if (types && (!verificationMethod || !types.includes(verificationMethod.type))) {
+      return {
+        policy: "verificationMethodType",
+        error: `Verification method type ${verificationMethod?.type ?? "(unknown)"} is not accepted`,
+      };
+    }
+
+    if (this.config.isTrusted && !(await this.config.isTrusted(did, didDocument))) {
+      return { policy: "trust", error: `${did} is not trusted` };
+    }
+    return null;
+  }
+}
+
+/**
+ * Host of a did:wba / did:web DID, without port
+ */
+function didDomain(did: string): string | undefined {
+  const match = did.match(/^did:(?:wba|web):([^:]+)/);
+  if (!match) return undefined;
+  return decodeURIComponent(match[1]!).replace(/:\d+$/, "").toLowerCase();
+}
+
+function matchesDid(pattern: DidPattern, did: string): boolean {
+  if (pattern instanceof RegExp) return pattern.test(did);
+  if (!pattern.includes("*")) return pattern === did;
+  const source = pattern.split("*").map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`).test(did);
+}
+
+function matchesDomain(pattern: string, domain: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized.startsWith("*.")) return domain.endsWith(normalized.slice(1));
+  return domain === normalized;
+}
+
+function domainBindingError({ did, didDocument, verificationMethod, documentUrl }: DidPolicyContext): string | null {
+  if (didDocument.id !== did) {
+    return `Document id ${didDocument.id} does not match ${did}`;
+  }
+  const domain = didDomain(did);
+  if (domain === undefined) {
+    return null;
+  }
+  if (documentUrl !== undefined && new URL(documentUrl).hostname.toLowerCase() !== domain) {
+    return `Document of ${did} was served from ${new URL(documentUrl).hostname}`;
+  }
+  if (verificationMethod) {
+    const { id, controller } = verificationMethod;
+    if (!(id.startsWith("#") || id.startsWith(`${did}#`)) || controller !== did) {
+      return `Verification method ${verificationMethod.id} does not belong to ${did}`;
+    }
+  }
+  return null;
+}
+
+// ============================================
+// Factory Functions
+// ============================================
+
+/**
+ * Create a DID policy
+ */
+export function createDidPolicy(config?: DidPolicyConfig): DidPolicy {
+  return new DidPolicy(config);
+}
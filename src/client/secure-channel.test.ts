@@ -0,0 +1,171 @@
+import "reflect-metadata";
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { createDidWbaDocument, type DidDocument } from "../core/did.js";
+import { createHttpClient } from "../core/http.js";
+import { findKeyAgreementKey } from "../core/jwe.js";
+import type { DidResolver } from "../core/resolver.js";
+import {
+  SECURE_CHANNEL_CONTENT_TYPE,
+  SECURE_CHANNEL_RPC_ERRORS,
+  initiateSecureChannel,
+  isSealedFrame,
+  type SealedFrame,
+} from "../core/secure-channel.js";
+import { createInMemorySigner } from "../core/signer.js";
+import { createAgent } from "../server/index.js";
+import { Authenticator } from "./authenticator.js";
+import { createClient } from "./index.js";
+
+const BASE_URL = "https://agent.example.com";
+
+function staticResolver(...documents: DidDocument[]): DidResolver {
+  return {
+    async resolve(did) {
+      const didDocument = documents.find((document) => document.id === did) ?? null;
+      return {
+        didResolutionMetadata: didDocument ? {} : { error: "notFound" },
+        didDocument,
+        didDocumentMetadata: {},
+      };
+    },
+  };
+}
+
+async function setup() {
+  const agentIdentity = await createDidWbaDocument({ hostname: "agent.example.com" });
+  const clientIdentity = await createDidWbaDocument({ hostname: "client.example", keys: ["Ed25519"] });
+  const agent = createAgent({
+    name: "Orders",
+    did: agentIdentity.did,
+    baseUrl: BASE_URL,
+    authEnabled: true,
+    verifier: { resolver: staticResolver(clientIdentity.didDocument) },
+    encryption: { keyAgreementKeys: { "#key-2": agentIdentity.privateKeys["key-2"]! }, required: true },
+  });
+  agent.capability("whoami", {
+    params: z.object({ note: z.string() }),
+    handler: async ({ note }, context) => ({ did: context.did, note }),
+  });
+  const httpClient = createHttpClient({
+    fetchImpl: async (input, init) => agent.handleRequest(new Request(input, init)),
+  });
+  return { agent, agentIdentity, clientIdentity, httpClient };
+}
+
+describe("secure channel with an agent", () => {
+  test("carries JSON-RPC calls and exposes the handshake DID", async () => {
+    const { agentIdentity, clientIdentity, httpClient } = await setup();
+    const client = createClient({
+      did: clientIdentity.did,
+      signer: createInMemorySigner(clientIdentity.privateKeys["key-1"]!),
+      baseUrl: BASE_URL,
+      httpClient,
+      encryption: { did: agentIdentity.did, didDocument: agentIdentity.didDocument },
+    });
+    const whoami = (note: string) => client.call<{ note: string }, { did: string; note: string }>("whoami", { note });
+    expect(await whoami("first")).toEqual({ did: clientIdentity.did, note: "first" });
+    expect(await whoami("second")).toEqual({ did: clientIdentity.did, note: "second" });
+  });
+
+  test("renegotiates after a request that never reached the agent", async () => {
+    const { agent, agentIdentity, clientIdentity } = await setup();
+    const paths: string[] = [];
+    let dropNext = false;
+    const httpClient = createHttpClient({
+      fetchImpl: async (input, init) => {
+        const request = new Request(input, init);
+        const { pathname } = new URL(request.url);
+        if (pathname === "/rpc" && dropNext) {
+          dropNext = false;
+          throw new TypeError("fetch failed");
+        }
+        paths.push(pathname);
+        return agent.handleRequest(request);
+      },
+    });
+    const client = createClient({
+      did: clientIdentity.did,
+      signer: createInMemorySigner(clientIdentity.privateKeys["key-1"]!),
+      baseUrl: BASE_URL,
+      httpClient,
+      encryption: { did: agentIdentity.did, didDocument: agentIdentity.didDocument },
+    });
+    const whoami = (note: string) => client.call<{ note: string }, { note: string }>("whoami", { note });
+    expect(await whoami("first")).toMatchObject({ note: "first" });
+
+    dropNext = true;
+    await expect(whoami("lost")).rejects.toThrow();
+    expect(await whoami("after")).toMatchObject({ note: "after" });
+    expect(paths).toEqual(["/rpc/session", "/rpc", "/rpc/session", "/rpc"]);
+  });
+
+  test("rejects replayed and reordered frames", async () => {
+    const { agent, agentIdentity, clientIdentity } = await setup();
+    const { method, publicKey } = findKeyAgreementKey(agentIdentity.didDocument);
+    const auth = new Authenticator({
+      did: clientIdentity.did,
+      signer: createInMemorySigner(clientIdentity.privateKeys["key-1"]!),
+      signContentDigest: true,
+    });
+    const post = async (path: string, body: unknown, headers: Record<string, string> = {}) =>
+      agent.handleRequest(
+        new Request(`${BASE_URL}${path}`, {
+          method: "POST",
+          headers: { ...headers, "Content-Type": SECURE_CHANNEL_CONTENT_TYPE },
+          body: JSON.stringify(body),
+        })
+      );
+
+    const handshake = initiateSecureChannel(method.id, publicKey);
+    const headers = await auth.signRequest("POST", `${BASE_URL}/rpc/session`, JSON.stringify(handshake.init));
+    const channel = await handshake.complete(await (await post("/rpc/session", handshake.init, headers)).json());
+    const call = (id: number) => JSON.stringify({ jsonrpc: "2.0", id, method: "whoami", params: { note: `${id}` } });
+    const first = await channel.seal(call(1));
+    const second = await channel.seal(call(2));
+    const third = await channel.seal(call(3));
+
+    const answer = async (frame: SealedFrame) => {
+      const response = await post("/rpc", frame);
+      const body = await response.json();
+      return isSealedFrame(body) ? JSON.parse(new TextDecoder().decode(await channel.open(body))) : body;
+    };
+    expect(await answer(first)).toMatchObject({ id: 1, result: { did: clientIdentity.did, note: "1" } });
+    expect(await answer(first)).toMatchObject({ error: { code: SECURE_CHANNEL_RPC_ERRORS.invalidFrame } });
+    expect(await answer(third)).toMatchObject({ error: { code: SECURE_CHANNEL_RPC_ERRORS.invalidFrame } });
+    expect(await answer(second)).toMatchObject({ id: 2, result: { note: "2" } });
+    expect(await answer(third)).toMatchObject({ id: 3, result: { note: "3" } });
+  });
+
+  test("refuses handshake bodies the signature does not cover", async () => {
+    const { agent, agentIdentity, clientIdentity } = await setup();
+    const { method, publicKey } = findKeyAgreementKey(agentIdentity.didDocument);
+    const signer = createInMemorySigner(clientIdentity.privateKeys["key-1"]!);
+    const url = `${BASE_URL}/rpc/session`;
+    const post = (headers: Record<string, string>, body: unknown) =>
+      agent.handleRequest(
+        new Request(url, {
+          method: "POST",
+          headers: { ...headers, "Content-Type": SECURE_CHANNEL_CONTENT_TYPE },
+          body: JSON.stringify(body),
+        })
+      );
+
+    // A signature without Content-Digest could be attached to any epk
+    const unbound = new Authenticator({ did: clientIdentity.did, signer });
+    const victim = initiateSecureChannel(method.id, publicKey);
+    const unboundHeaders = await unbound.signRequest("POST", url, JSON.stringify(victim.init));
+    expect((await post(unboundHeaders, victim.init)).status).toBe(401);
+
+    // A bound signature does not carry over to an attacker's epk
+    const bound = new Authenticator({ did: clientIdentity.did, signer, signContentDigest: true });
+    const boundHeaders = await bound.signRequest("POST", url, JSON.stringify(victim.init));
+    const attacker = initiateSecureChannel(method.id, publicKey);
+    expect((await post(boundHeaders, attacker.init)).status).toBe(401);
+
+    const fresh = await bound.signRequest("POST", url, JSON.stringify(victim.init));
+    const response = await post(fresh, victim.init);
+    expect(response.status).toBe(200);
+    expect((await victim.complete(await response.json())).id).toBeString();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Secure Channel Client
+ *
+ * Client end of an agent's encrypted `/rpc` endpoint: negotiates a channel at
+ * `{baseUrl}/rpc/session` against the agent's DID document `keyAgreement` key, then
+ * sends every request as a sealed frame. Requests are serialized so sequence numbers
+ * reach the agent in order.
+ *
+ * An unknown or expired channel is renegotiated once; any other plaintext reply or a
+ * failed request drops the channel, whose sequence numbers are then out of step with
+ * the agent's.
+ *
+ * @packageDocumentation
+ */
+
+import type { HttpClient, HttpResponse } from "../core/http.js";
+import type { DidDocument } from "../core/did.js";
+import { findKeyAgreementKey } from "../core/jwe.js";
+import { createDidResolver, requireDidDocument, type DidResolver } from "../core/resolver.js";
+import {
+  SECURE_CHANNEL_CONTENT_TYPE,
+  SECURE_CHANNEL_RPC_ERRORS,
+  SecureChannelError,
+  initiateSecureChannel,
+  isSealedFrame,
+  type SecureChannel,
+  type SecureChannelAccept,
+} from "../core/secure-channel.js";
+
+export interface SecureChannelClientConfig {
+  /** DID of the agent */
+  did: string;
+  baseUrl: string;
+  /** Client for the handshake; authenticated when the agent requires it */
+  handshakeClient: HttpClient;
+  /** Client for sealed frames, which the channel keys authenticate */
+  httpClient: HttpClient;
+  /** The agent's DID document; resolved when omitted */
+  didDocument?: DidDocument;
+  resolver?: DidResolver;
+  /** keyAgreement method to use (`#key-2` or full DID URL); defaults to the first supported one */
+  kid?: string;
+}
+
+export class SecureChannelClient {
+  private channel: Promise<SecureChannel> | undefined;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly config: SecureChannelClientConfig) {}
+
+  /**
+   * Send a request body over the channel and return the parsed response body
+   */
+  send(body: string): Promise<unknown> {
+    const result = this.queue.then(() => this.exchange(body, true));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Forget the current channel; the next request negotiates a new one
+   */
+  reset(): void {
+    this.channel = undefined;
+  }
+
+  private async exchange(body: string, retry: boolean): Promise<unknown> {
+    const channel = await this.getChannel();
+    const frame = await channel.seal(body);
+    let response: HttpResponse;
+    try {
+      response = await this.config.httpClient.request<unknown>(`${this.config.baseUrl}/rpc`, "POST", {
+        headers: { "Content-Type": SECURE_CHANNEL_CONTENT_TYPE },
+        body: JSON.stringify(frame),
+      });
+    } catch (error) {
+      // The frame used up a sequence number the agent may never have seen
+      this.reset();
+      throw error;
+    }
+
+    if (isSealedFrame(response.data)) {
+      try {
+        return JSON.parse(new TextDecoder().decode(await channel.open(response.data)));
+      } catch (error) {
+        this.reset();
+        throw error;
+      }
+    }
+
+    this.reset();
+    const code = (response.data as { error?: { code?: number } } | undefined)?.error?.code;
+    if (retry && code === SECURE_CHANNEL_RPC_ERRORS.channelNotFound) {
+      return this.exchange(body, false);
+    }
+    return response.data;
+  }
+
+  private async getChannel(): Promise<SecureChannel> {
+    const current = await this.channel?.catch(() => undefined);
+    if (current && !current.isExpired()) return current;
+
+    this.channel = this.negotiate();
+    try {
+      return await this.channel;
+    } catch (error) {
+      this.reset();
+      throw error;
+    }
+  }
+
+  private async negotiate(): Promise<SecureChannel> {
+    const { did, kid } = this.config;
+    const resolver = this.config.resolver ?? createDidResolver({ httpClient: this.config.httpClient });
+    const didDocument = this.config.didDocument ?? (await requireDidDocument(resolver, did));
+    const { method, publicKey } = findKeyAgreementKey(didDocument, kid);
+
+    const handshake = initiateSecureChannel(method.id, publicKey);
+    const response = await this.config.handshakeClient.request<unknown>(
+      `${this.config.baseUrl}/rpc/session`,
+      "POST",
+      { headers: { "Content-Type": SECURE_CHANNEL_CONTENT_TYPE }, body: JSON.stringify(handshake.init) }
+    );
+    if (response.status !== 200) {
+      const message = (response.data as { error?: { message?: string } } | undefined)?.error?.message;
+      throw new SecureChannelError(
+        "invalidHandshake",
+        `Secure channel handshake failed (${response.status})${message ? `: ${message}` : ""}`
+      );
+    }
+    return handshake.complete(response.data as SecureChannelAccept);
+  }
+}
+
+/**
+ * Create the client end of an agent's secure channel
+ */
+export function createSecureChannelClient(config: SecureChannelClientConfig): SecureChannelClient {
+  return new SecureChannelClient(config);
+}
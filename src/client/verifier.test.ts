@@ -0,0 +1,429 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { signWithJwk } from "../core/algorithms.js";
+import { createDidWbaDocument } from "../core/did.js";
+import { computeContentDigest } from "../core/digest.js";
+import { createInMemorySigner } from "../core/signer.js";
+import { base64urlDecode, base64urlEncode } from "../core/utils.js";
+import { Authenticator, createDidWbaSigningPayload, formatDidWbaAuthHeader, generateNonce } from "./authenticator.js";
+import { createInMemoryNonceStore } from "./nonce-store.js";
+import { parseDidWbaAuthHeader, Verifier, type DidWbaAuthHeader, type VerifierConfig } from "./verifier.js";
+
+const ORDERS_URL = "https://agent.example.com/api/orders";
+
+async function setup(config: VerifierConfig = {}) {
+  const identity = await createDidWbaDocument({ hostname: "client.example", keys: ["secp256k1"] });
+  const authenticator = new Authenticator({ did: identity.did, signer: createInMemorySigner(identity.privateKeys["key-1"]!) });
+  const verifier = new Verifier(config);
+  const verify = (header: string, url = ORDERS_URL) =>
+    verifier.verify(header, { method: "POST", url, didDocument: identity.didDocument });
+  return { identity, authenticator, verifier, verify };
+}
+
+/** Re-encode a compact secp256k1 signature as (r, n - s) */
+function flipS(signatureB64Url: string): string {
+  const { r, s } = secp256k1.Signature.fromBytes(base64urlDecode(signatureB64Url), "compact");
+  return base64urlEncode(new secp256k1.Signature(r, secp256k1.Point.Fn.ORDER - s).toBytes("compact"));
+}
+
+function withSignature(header: string, signature: string): string {
+  const parsed = parseDidWbaAuthHeader(header) as DidWbaAuthHeader;
+  return formatDidWbaAuthHeader({ ...parsed, signature });
+}
+
+describe("DIDWba header", () => {
+  test("parses parameters in any order", () => {
+    const parsed = parseDidWbaAuthHeader(
+      'DIDWba signature="sig", verification_method="key-1", timestamp="2024-01-01T00:00:00Z", nonce="abc", did="did:wba:a.example"'
+    );
+    expect(parsed).toEqual({
+      scheme: "DIDWba",
+      did: "did:wba:a.example",
+      nonce: "abc",
+      timestamp: "2024-01-01T00:00:00Z",
+      verificationMethod: "key-1",
+      signature: "sig",
+    });
+    expect(parseDidWbaAuthHeader('DIDWba did="did:wba:a.example", nonce="abc"')).toBeNull();
+    expect(parseDidWbaAuthHeader("Basic abc")).toBeNull();
+  });
+
+  test("round-trips between Authenticator and Verifier", async () => {
+    const { identity, authenticator, verify } = await setup();
+    const header = await authenticator.createAuthHeader("POST", ORDERS_URL);
+    expect(header).toStartWith(`DIDWba did="${identity.did}", nonce="`);
+    expect(await verify(header)).toMatchObject({
+      verified: true,
+      did: identity.did,
+      verificationMethod: `${identity.did}#key-1`,
+      authScheme: "DIDWba",
+    });
+  });
+
+  test("binds the signature to the service domain", async () => {
+    const { authenticator, verify } = await setup();
+    const header = await authenticator.createAuthHeader("POST", ORDERS_URL);
+    expect(await verify(header, "https://other.example.com/api/orders")).toMatchObject({
+      verified: false,
+      code: "invalidSignature",
+    });
+  });
+
+  test("rejects high-S signatures unless allowed", async () => {
+    const strict = await setup();
+    const header = await strict.authenticator.createAuthHeader("POST", ORDERS_URL);
+    const highS = withSignature(header, flipS((parseDidWbaAuthHeader(header) as DidWbaAuthHeader).signature));
+    expect(await strict.verify(highS)).toMatchObject({ verified: false, code: "invalidSignature" });
+
+    const lenient = new Verifier({ allowHighS: true });
+    expect(
+      await lenient.verify(highS, { method: "POST", url: ORDERS_URL, didDocument: strict.identity.didDocument })
+    ).toMatchObject({ verified: true });
+  });
+
+  test("only accepts legacy headers when enabled", async () => {
+    const identity = await createDidWbaDocument({ hostname: "client.example", keys: ["Ed25519"] });
+    const signer = createInMemorySigner(identity.privateKeys["key-1"]!);
+    const legacy = new Authenticator({ did: identity.did, signer, legacy: true });
+    const header = await legacy.createAuthHeader("POST", ORDERS_URL, { item: 1 });
+    expect(header).toStartWith("DidWba ");
+
+    const options = { method: "POST", url: ORDERS_URL, body: { item: 1 }, didDocument: identity.didDocument };
+    expect(await new Verifier().verify(header, options)).toMatchObject({ verified: false, code: "invalidHeader" });
+    expect(await new Verifier({ legacy: true }).verify(header, options)).toMatchObject({
+      verified: true,
+      authScheme: "DidWba",
+    });
+  });
+});
+
+describe("replay protection", () => {
+  async function signedHeader(
+    identity: Awaited<ReturnType<typeof createDidWbaDocument>>,
+    fields: { timestamp?: string; nonce?: string; verificationMethod?: string } = {}
+  ): Promise<string> {
+    const nonce = fields.nonce ?? generateNonce();
+    const timestamp = fields.timestamp ?? new Date().toISOString();
+    const payload = createDidWbaSigningPayload({ nonce, timestamp, service: "agent.example.com", did: identity.did });
+    const signature = base64urlEncode(await signWithJwk(identity.privateKeys["key-1"]!, payload));
+    return formatDidWbaAuthHeader({
+      did: identity.did,
+      nonce,
+      timestamp,
+      verificationMethod: fields.verificationMethod ?? "key-1",
+      signature,
+    });
+  }
+
+  test("accepts a fresh header once", async () => {
+    const { identity, verify } = await setup();
+    const header = await signedHeader(identity);
+    expect(await verify(header)).toMatchObject({ verified: true });
+    expect(await verify(header)).toMatchObject({ verified: false, code: "replayed" });
+  });
+
+  test("rejects timestamps outside the window", async () => {
+    const { identity, verify } = await setup({ maxAgeMs: 60_000, maxClockSkewMs: 5_000 });
+    const cases: Array<[string, string]> = [
+      [new Date(Date.now() - 120_000).toISOString(), "expired"],
+      [new Date(Date.now() + 60_000).toISOString(), "futureTimestamp"],
+      ["yesterday", "invalidTimestamp"],
+    ];
+    for (const [timestamp, code] of cases) {
+      expect(await verify(await signedHeader(identity, { timestamp }))).toMatchObject({ verified: false, code });
+    }
+  });
+
+  test("does not record nonces of rejected headers", async () => {
+    const { identity, verify } = await setup();
+    const header = await signedHeader(identity, { nonce: "n-1" });
+    const forged = withSignature(header, base64urlEncode(new Uint8Array(64).fill(1)));
+    expect(await verify(forged)).toMatchObject({ verified: false, code: "invalidSignature" });
+    expect(await verify(await signedHeader(identity, { verificationMethod: "key-9" }))).toMatchObject({
+      verified: false,
+      code: "keyNotFound",
+    });
+    expect(await verify(header)).toMatchObject({ verified: true });
+  });
+
+  test("shares seen nonces through the nonce store", async () => {
+    const { identity } = await setup();
+    const nonceStore = createInMemoryNonceStore();
+    const header = await signedHeader(identity);
+    const options = { method: "POST", url: ORDERS_URL, didDocument: identity.didDocument };
+    expect(await new Verifier({ nonceStore }).verify(header, options)).toMatchObject({ verified: true });
+    expect(await new Verifier({ nonceStore }).verify(header, options)).toMatchObject({ code: "replayed" });
+    expect(await new Verifier().verify(header, options)).toMatchObject({ verified: true });
+  });
+
+  test("rejects legacy replays, including re-encoded signatures", async () => {
+    const identity = await createDidWbaDocument({ hostname: "client.example", keys: ["secp256k1"] });
+    const signer = createInMemorySigner(identity.privateKeys["key-1"]!);
+    const legacy = new Authenticator({ did: identity.did, signer, legacy: true });
+    const header = await legacy.createAuthHeader("POST", ORDERS_URL, { item: 1 });
+    const sig = /sig="([^"]+)"/.exec(header)![1]!;
+    const reencoded = header.replace(sig, flipS(sig));
+
+    // Interop mode accepts both S forms, which must still count as the same request
+    const verifier = new Verifier({ legacy: true, allowHighS: true });
+    const options = { method: "POST", url: ORDERS_URL, body: { item: 1 }, didDocument: identity.didDocument };
+    expect(await verifier.verify(header, options)).toMatchObject({ verified: true });
+    expect(await verifier.verify(reencoded, options)).toMatchObject({ verified: false, code: "replayed" });
+    expect(await verifier.verify(header, options)).toMatchObject({ verified: false, code: "replayed" });
+  });
+});
+
+describe("access tokens", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("are issued after a signed request, accepted, then expire", async () => {
+    const issued: Array<[string, string]> = [];
+    const { identity, authenticator, verifier } = await setup({
+      jwtSecret: "test-secret",
+      accessTokenExpiresIn: "10m",
+      onIssueToken: (token, did) => {
+        issued.push([token, did]);
+      },
+    });
+    const options = { method: "POST", url: ORDERS_URL, didDocument: identity.didDocument };
+
+    const signed = await verifier.verify(await authenticator.createAuthHeader("POST", ORDERS_URL), options);
+    expect(signed).toMatchObject({ verified: true, authScheme: "DIDWba" });
+    const token = signed.accessToken!;
+    expect(issued).toEqual([[token, identity.did]]);
+
+    expect(await verifier.verify(`Bearer ${token}`, options)).toMatchObject({
+      verified: true,
+      did: identity.did,
+      verificationMethod: `${identity.did}#key-1`,
+      authScheme: "Bearer",
+    });
+    // Bearer requests do not mint further tokens
+    expect(issued).toHaveLength(1);
+
+    setSystemTime(new Date(Date.now() + 11 * 60_000));
+    expect(await verifier.verify(`Bearer ${token}`, options)).toMatchObject({ verified: false, code: "invalidToken" });
+  });
+
+  test("are bound to the issuing domain and secret", async () => {
+    const { identity, authenticator, verifier } = await setup({ jwtSecret: "test-secret" });
+    const options = { method: "POST", url: ORDERS_URL, didDocument: identity.didDocument };
+    const { accessToken } = await verifier.verify(await authenticator.createAuthHeader("POST", ORDERS_URL), options);
+
+    const elsewhere = { ...options, url: "https://other.example.com/api/orders" };
+    expect(await verifier.verify(`Bearer ${accessToken}`, elsewhere)).toMatchObject({ code: "invalidToken" });
+    expect(await new Verifier({ jwtSecret: "other-secret" }).verify(`Bearer ${accessToken}`, options)).toMatchObject({
+      code: "invalidToken",
+    });
+    expect(await new Verifier().verify(`Bearer ${accessToken}`, options)).toMatchObject({ code: "invalidHeader" });
+  });
+
+  test("stop working once the DID is denied", async () => {
+    const { identity, authenticator, verifier } = await setup({ jwtSecret: "test-secret" });
+    const options = { method: "POST", url: ORDERS_URL, didDocument: identity.didDocument };
+    const { accessToken } = await verifier.verify(await authenticator.createAuthHeader("POST", ORDERS_URL), options);
+
+    const denying = new Verifier({ jwtSecret: "test-secret", policy: { deny: [identity.did] } });
+    expect(await denying.verify(`Bearer ${accessToken}`, options)).toMatchObject({ code: "policyDenied", policy: "deny" });
+  });
+});
+
+describe("Content-Digest binding", () => {
+  async function signedRequest(body: string) {
+    const identity = await createDidWbaDocument({ hostname: "client.example", keys: ["Ed25519"] });
+    const signer = createInMemorySigner(identity.privateKeys["key-1"]!);
+    const authenticator = new Authenticator({ did: identity.did, signer, signContentDigest: true });
+    const headers = await authenticator.signRequest("POST", ORDERS_URL, body);
+    return { identity, authorization: headers["Authorization"]!, contentDigest: headers["Content-Digest"]! };
+  }
+
+  test("accepts the signed body", async () => {
+    const { identity, authorization, contentDigest } = await signedRequest('{"item":1}');
+    expect(parseDidWbaAuthHeader(authorization)).toMatchObject({ contentDigest });
+    const result = await new Verifier({ requireContentDigest: true }).verify(authorization, {
+      method: "POST",
+      url: ORDERS_URL,
+      body: '{"item":1}',
+      contentDigest,
+      didDocument: identity.didDocument,
+    });
+    expect(result).toMatchObject({ verified: true });
+  });
+
+  test("rejects a substituted body", async () => {
+    const { identity, authorization, contentDigest } = await signedRequest('{"item":1}');
+    const result = await new Verifier().verify(authorization, {
+      method: "POST",
+      url: ORDERS_URL,
+      body: '{"item":2}',
+      contentDigest,
+      didDocument: identity.didDocument,
+    });
+    expect(result).toMatchObject({ verified: false, code: "digestMismatch" });
+  });
+
+  test("rejects a Content-Digest header that differs from the signed one", async () => {
+    const { identity, authorization } = await signedRequest('{"item":1}');
+    const result = await new Verifier().verify(authorization, {
+      method: "POST",
+      url: ORDERS_URL,
+      body: '{"item":2}',
+      contentDigest: computeContentDigest('{"item":2}'),
+      didDocument: identity.didDocument,
+    });
+    expect(result).toMatchObject({ verified: false, code: "digestMismatch" });
+  });
+
+  test("rejects parsed bodies, which cannot be digested", async () => {
+    const { identity, authorization } = await signedRequest('{"item":1}');
+    const result = await new Verifier().verify(authorization, {
+      method: "POST",
+      url: ORDERS_URL,
+      body: { item: 1 },
+      didDocument: identity.didDocument,
+    });
+    expect(result).toMatchObject({ verified: false, code: "digestMismatch" });
+  });
+
+  test("requires a bound digest when configured", async () => {
+    const { identity, authenticator } = await setup();
+    const header = await authenticator.createAuthHeader("POST", ORDERS_URL, '{"item":1}');
+    const options = { method: "POST", url: ORDERS_URL, body: '{"item":1}', didDocument: identity.didDocument };
+    expect(await new Verifier().verify(header, options)).toMatchObject({ verified: true });
+    expect(await new Verifier({ requireContentDigest: true }).verify(header, options)).toMatchObject({
+      verified: false,
+      code: "digestMismatch",
+    });
+    // Per request, e.g. for secure channel handshakes
+    const required = { ...options, requireContentDigest: true };
+    expect(await new Verifier().verify(header, required)).toMatchObject({ verified: false, code: "digestMismatch" });
+  });
+});
+
+describe("HTTP Message Signatures", () => {
+  async function signed(body: string) {
+    const identity = await createDidWbaDocument({ hostname: "client.example", keys: ["P-256"] });
+    const signer = createInMemorySigner(identity.privateKeys["key-1"]!);
+    const authenticator = new Authenticator({ did: identity.did, signer, scheme: "HttpSignature" });
+    const headers = await authenticator.signRequest("POST", ORDERS_URL, body);
+    return { identity, headers };
+  }
+
+  test("round-trip through the Verifier once per nonce", async () => {
+    const { identity, headers } = await signed('{"item":1}');
+    const verifier = new Verifier({ httpSignatures: true, requireContentDigest: true });
+    const options = { method: "POST", url: ORDERS_URL, body: '{"item":1}', headers, didDocument: identity.didDocument };
+
+    expect(await verifier.verifyHttpSignature(options)).toMatchObject({
+      verified: true,
+      did: identity.did,
+      verificationMethod: `${identity.did}#key-1`,
+      authScheme: "HttpSignature",
+    });
+    expect(await verifier.verifyHttpSignature(options)).toMatchObject({ verified: false, code: "replayed" });
+  });
+
+  test("check the covered Content-Digest against the body", async () => {
+    const { identity, headers } = await signed('{"item":1}');
+    const result = await new Verifier({ httpSignatures: true }).verifyHttpSignature({
+      method: "POST",
+      url: ORDERS_URL,
+      body: '{"item":2}',
+      headers,
+      didDocument: identity.didDocument,
+    });
+    expect(result).toMatchObject({ verified: false, code: "digestMismatch" });
+  });
+
+  test("are only accepted when enabled", async () => {
+    const { identity, headers } = await signed("{}");
+    const options = { method: "POST", url: ORDERS_URL, body: "{}", headers, didDocument: identity.didDocument };
+    expect(await new Verifier().verifyHttpSignature(options)).toMatchObject({ code: "invalidHeader" });
+  });
+});
+
+describe("verifyRequest", () => {
+  async function signedRequest(config: VerifierConfig = {}) {
+    const identity = await createDidWbaDocument({ hostname: "client.example", keys: ["Ed25519"] });
+    const signer = createInMemorySigner(identity.privateKeys["key-1"]!);
+    const authenticator = new Authenticator({ did: identity.did, signer, signContentDigest: true });
+    const verifier = new Verifier(config);
+    const options = { didDocument: identity.didDocument };
+    return { identity, authenticator, verifier, options };
+  }
+
+  test("reads the body from a clone and returns the principal", async () => {
+    const { identity, authenticator, verifier, options } = await signedRequest({ jwtSecret: "test-secret" });
+    const body = '{"item":1}';
+    const headers = await authenticator.signRequest("POST", ORDERS_URL, body);
+    const request = new Request(ORDERS_URL, { method: "POST", headers, body });
+
+    const result = await verifier.verifyRequest(request, options);
+    expect(result).toMatchObject({
+      verified: true,
+      principal: { did: identity.did, verificationMethod: `${identity.did}#key-1`, authScheme: "DIDWba" },
+    });
+    // The handler can still read the body
+    expect(await request.text()).toBe(body);
+
+    const token = result.verified ? result.principal.token : undefined;
+    expect(token).toBeString();
+    const bearer = new Request(ORDERS_URL, { method: "POST", headers: { Authorization: `Bearer ${token}` } });
+    expect(await verifier.verifyRequest(bearer, options)).toEqual({
+      verified: true,
+      principal: { did: identity.did, verificationMethod: `${identity.did}#key-1`, authScheme: "Bearer", token: token! },
+    });
+  });
+
+  test("rejects a body that differs from the signed one", async () => {
+    const { authenticator, verifier, options } = await signedRequest();
+    const headers = await authenticator.signRequest("POST", ORDERS_URL, '{"item":1}');
+    const request = new Request(ORDERS_URL, { method: "POST", headers, body: '{"item":2}' });
+    expect(await verifier.verifyRequest(request, options)).toMatchObject({ verified: false, code: "digestMismatch" });
+  });
+
+  test("reports missing credentials", async () => {
+    const { verifier } = await signedRequest();
+    expect(await verifier.verifyRequest(new Request(ORDERS_URL))).toEqual({
+      verified: false,
+      code: "missingCredentials",
+      error: "Authorization header is required",
+    });
+  });
+
+  test("only trusts forwarding headers when configured", async () => {
+    const internalUrl = "http://10.0.0.5:8080/api/orders";
+    const forwardings: Array<Record<string, string>> = [
+      { "X-Forwarded-Proto": "https", "X-Forwarded-Host": "agent.example.com" },
+      { Forwarded: 'for=192.0.2.60;proto=https;host="agent.example.com"' },
+    ];
+    for (const forwarding of forwardings) {
+      const { authenticator, options } = await signedRequest();
+      const headers = await authenticator.signRequest("POST", ORDERS_URL, "{}");
+      const request = () => new Request(internalUrl, { method: "POST", headers: { ...headers, ...forwarding }, body: "{}" });
+
+      expect(await new Verifier().verifyRequest(request(), options)).toMatchObject({
+        verified: false,
+        code: "invalidSignature",
+      });
+      expect(await new Verifier({ trustProxy: true }).verifyRequest(request(), options)).toMatchObject({
+        verified: true,
+      });
+    }
+  });
+
+  test("picks RFC 9421 signatures from the headers", async () => {
+    const identity = await createDidWbaDocument({ hostname: "client.example", keys: ["P-256"] });
+    const signer = createInMemorySigner(identity.privateKeys["key-1"]!);
+    const authenticator = new Authenticator({ did: identity.did, signer, scheme: "HttpSignature" });
+    const headers = await authenticator.signRequest("POST", ORDERS_URL, "{}");
+    const request = new Request(ORDERS_URL, { method: "POST", headers, body: "{}" });
+
+    const result = await new Verifier({ httpSignatures: true }).verifyRequest(request, {
+      didDocument: identity.didDocument,
+    });
+    expect(result).toMatchObject({ verified: true, principal: { did: identity.did, authScheme: "HttpSignature" } });
+  });
+});
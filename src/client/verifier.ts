@@ -1,37 +1,272 @@
 /**
  * DID-WBA Verifier
  *
- * Verifies DID-WBA signatures on HTTP requests.
+ * Verifies DID-WBA signatures on HTTP requests: `DIDWba` headers of the ANP
+ * specification and, when enabled, the legacy `DidWba` format and RFC 9421 HTTP
+ * Message Signatures whose keyid is a verification method DID URL. An optional
+ * DID policy (see policy.ts) decides which authenticated DIDs are accepted.
  * Fail Fast: Errors thrown immediately, no defensive programming.
  *
  * @packageDocumentation
  */
 
 import canonicalizeModule from "canonicalize";
-import { verifySecp256k1Signature } from "../core/crypto.js";
-import { resolveDidDocument, type DidDocument } from "../core/did.js";
-import { defaultHttpClient, type HttpClient } from "../core/http.js";
+import { verifyWithJwk } from "../core/algorithms.js";
+import { sha256 } from "../core/crypto.js";
+import { verifyContentDigest } from "../core/digest.js";
+import { HttpSignatureError, verifyHttpMessage } from "../core/http-signatures.js";
+import { createDidWbaSigningPayload, type DidWbaSignatureInput } from "./authenticator.js";
+import { createInMemoryNonceStore, type NonceStore } from "./nonce-store.js";
+import {
+  DidPolicy,
+  type DidPolicyConfig,
+  type DidPolicyContext,
+  type PolicyName,
+  type PolicyViolation,
+} from "./policy.js";
+import {
+  findVerificationMethod,
+  getRelationshipMethods,
+  getVerificationMethodJwk,
+  type DidDocument,
+  type DidVerificationMethod,
+} from "../core/did.js";
+import type { HttpClient } from "../core/http.js";
+import { toHex } from "../core/utils.js";
+import { issueJwt, verifyJwt } from "../core/jwt.js";
+import {
+  createCachingDidResolver,
+  createDidResolver,
+  requireDidResolution,
+  type DidResolver,
+} from "../core/resolver.js";
 
 export interface VerifierConfig {
-  /** Optional HTTP client for DID resolution */
+  /**
+   * Optional DID resolver. Defaults to a caching resolver (see createCachingDidResolver)
+   * for did:wba, did:web and did:key.
+   */
+  resolver?: DidResolver;
+  /** Optional HTTP client for the default DID resolver */
   httpClient?: HttpClient;
-  /** Optional DID document cache */
+  /**
+   * Optional DID document cache, consulted before the resolver.
+   * @deprecated Entries never expire; rely on the default caching resolver instead.
+   */
   cache?: Map<string, DidDocument>;
+  /** Also accept the pre-specification `DidWba did, sig, ts, kid` header (default: false) */
+  legacy?: boolean;
+  /** Oldest accepted request timestamp, in milliseconds before now (default: 5 minutes) */
+  maxAgeMs?: number;
+  /** Tolerated clock skew for timestamps in the future, in milliseconds (default: 1 minute) */
+  maxClockSkewMs?: number;
+  /**
+   * Store of seen nonces used to reject replays (default: in-memory). Share a key-value
+   * backed store between instances serving the same domain.
+   */
+  nonceStore?: NonceStore;
+  /**
+   * HS256 secret for access tokens. When set, a successful DID-WBA verification mints a
+   * short-lived token (VerificationResult.accessToken) that later requests may present
+   * as `Authorization: Bearer <token>` instead of signing again.
+   */
+  jwtSecret?: string | Uint8Array;
+  /** Access token lifetime as a time span (default: "15m") */
+  accessTokenExpiresIn?: string;
+  /**
+   * Reject DIDWba headers whose signature does not cover the body's Content-Digest
+   * (default: false). Bound digests are always checked when present.
+   */
+  requireContentDigest?: boolean;
+  /**
+   * Accept high-S ECDSA signatures from signers that do not normalize them (default: false).
+   * Only enable for interop with such clients: either S form verifies, so a captured
+   * signature can be re-encoded.
+   */
+  allowHighS?: boolean;
+  /**
+   * Accept RFC 9421 HTTP Message Signatures through verifyHttpSignature (default: false).
+   * Signatures must cover `@method` and `@target-uri` and carry `created`, `nonce` and a
+   * keyid naming an authentication method; a covered `content-digest` is checked
+   * against the body.
+   */
+  httpSignatures?: boolean;
+  /**
+   * Take the request URL seen by clients from `Forwarded` / `X-Forwarded-Proto`,
+   * `X-Forwarded-Host` and `X-Forwarded-Port` in verifyRequest (default: false). Only
+   * enable behind a proxy that sets these headers, since signatures are bound to this URL.
+   */
+  trustProxy?: boolean;
+  /**
+   * Which DIDs to accept beyond a valid signature: allow/deny lists, verification method
+   * types, domain binding and a trust callback (default: any DID that resolves).
+   * Rejections carry code "policyDenied" and the failed `policy`.
+   */
+  policy?: DidPolicyConfig | DidPolicy;
+  /** Called for every access token issued, e.g. for audit logging */
+  onIssueToken?: (token: string, did: string) => void | Promise<void>;
 }
 
 export interface VerifyOptions {
   method: string;
   url: string;
+  /**
+   * Request body. Content-Digest checks need the raw body (string or bytes) exactly as
+   * received; legacy headers sign the parsed JSON value.
+   */
   body?: unknown;
+  /** `Content-Digest` request header, if sent; must match the digest bound to the signature */
+  contentDigest?: string;
+  /**
+   * Reject signatures that do not cover the body, overriding the verifier's
+   * `requireContentDigest` for this request. Access tokens bind no body and are unaffected.
+   */
+  requireContentDigest?: boolean;
+  /**
+   * Domain of this service, which DIDWba signatures must be bound to.
+   * Defaults to the host name of `url` (which must then be absolute).
+   */
+  domain?: string;
   /** Optional: provide DID document directly (skip resolution) */
   didDocument?: DidDocument;
 }
 
+export interface HttpSignatureVerifyOptions extends VerifyOptions {
+  /** Request headers, including `Signature-Input` and `Signature` */
+  headers: Record<string, string> | Headers;
+}
+
+export interface VerifyRequestOptions {
+  /**
+   * Raw body, if already read. Otherwise it is read from a clone of the request, which
+   * stays readable for the handler.
+   */
+  body?: string | Uint8Array;
+  /** Domain signatures must be bound to (default: host name of the request URL) */
+  domain?: string;
+  /** Optional: provide DID document directly (skip resolution) */
+  didDocument?: DidDocument;
+  /** Reject signatures that do not cover the body (see VerifyOptions) */
+  requireContentDigest?: boolean;
+}
+
+/**
+ * Why a request failed verification.
+ */
+export type VerificationErrorCode =
+  | "missingCredentials"
+  | "invalidHeader"
+  | "invalidTimestamp"
+  | "expired"
+  | "futureTimestamp"
+  | "keyNotFound"
+  | "invalidSignature"
+  | "replayed"
+  | "invalidToken"
+  | "digestMismatch"
+  | "policyDenied";
+
+/**
+ * How a request authenticated: `DIDWba` (specification header), `DidWba` (legacy
+ * header), `HttpSignature` (RFC 9421) or `Bearer` (access token issued by this verifier).
+ */
+export type AuthScheme = "DIDWba" | "DidWba" | "HttpSignature" | "Bearer";
+
 export interface VerificationResult {
   verified: boolean;
   did?: string;
   timestamp?: string;
+  /** Full id of the verification method that signed the request */
+  verificationMethod?: string;
+  authScheme?: AuthScheme;
+  /** Access token issued for this DID (only when `jwtSecret` is configured) */
+  accessToken?: string;
   error?: string;
+  /** Set when `verified` is false */
+  code?: VerificationErrorCode;
+  /** Policy check that rejected the request (code "policyDenied") */
+  policy?: PolicyName;
+}
+
+/**
+ * The authenticated caller of a request.
+ */
+export interface Principal {
+  did: string;
+  /** Full id of the verification method that signed the request, when known */
+  verificationMethod?: string;
+  authScheme: AuthScheme;
+  /**
+   * Access token: issued for this request (signed requests, with `jwtSecret`
+   * configured) or presented as `Bearer`
+   */
+  token?: string;
+}
+
+export type RequestVerificationResult =
+  | { verified: true; principal: Principal }
+  | { verified: false; code: VerificationErrorCode; error: string; policy?: PolicyName };
+
+/**
+ * A parsed `DIDWba` header (ANP specification format).
+ */
+export interface DidWbaAuthHeader {
+  scheme: "DIDWba";
+  did: string;
+  nonce: string;
+  timestamp: string;
+  /** Verification method fragment, e.g. `key-1` */
+  verificationMethod: string;
+  signature: string;
+  /** Content-Digest of the body, when bound to the signature */
+  contentDigest?: string;
+}
+
+/**
+ * A parsed legacy `DidWba` header.
+ */
+export interface LegacyDidWbaAuthHeader {
+  scheme: "DidWba";
+  did: string;
+  sig: string;
+  ts: string;
+  kid?: string;
+}
+
+/**
+ * Parse a DID-WBA authorization header.
+ *
+ * `DIDWba` parameters may appear in any order; the legacy `DidWba` form is matched
+ * as emitted by earlier versions of this library.
+ *
+ * @returns The parsed header, or null if it is not a well-formed DID-WBA header
+ */
+export function parseDidWbaAuthHeader(header: string): DidWbaAuthHeader | LegacyDidWbaAuthHeader | null {
+  const trimmed = header.trim();
+
+  if (trimmed.startsWith("DIDWba ")) {
+    const params: Record<string, string> = {};
+    for (const [, name, value] of trimmed.slice("DIDWba ".length).matchAll(/([a-z_]+)="([^"]*)"/g)) {
+      params[name!] = value!;
+    }
+    const { did, nonce, timestamp, verification_method: verificationMethod, signature, content_digest } = params;
+    if (!did || !nonce || !timestamp || !verificationMethod || !signature) {
+      return null;
+    }
+    const parsed: DidWbaAuthHeader = { scheme: "DIDWba", did, nonce, timestamp, verificationMethod, signature };
+    if (content_digest) parsed.contentDigest = content_digest;
+    return parsed;
+  }
+
+  const match = trimmed.match(/^DidWba\s+did="([^"]+)",\s*sig="([^"]+)",\s*ts="([^"]+)"(?:,\s*kid="([^"]+)")?/);
+  if (!match) {
+    return null;
+  }
+  const [, did, sig, ts, kid] = match;
+  if (!did || !sig || !ts) {
+    return null;
+  }
+  return kid ? { scheme: "DidWba", did, sig, ts, kid } : { scheme: "DidWba", did, sig, ts };
 }
 
 /**
@@ -43,7 +278,7 @@ export interface VerificationResult {
  *
  * const result = await verifier.verify(authHeader, {
  *   method: "POST",
- *   url: "/api/orders",
+ *   url: "https://agent.example.com/api/orders",
  *   body: requestBody
  * });
  *
@@ -59,17 +294,126 @@ const canonicalizeFn =
   ((value: unknown) => JSON.stringify(value));
 
 export class Verifier {
-  private readonly httpClient: HttpClient;
-  private readonly cache: Map<string, DidDocument>;
+  private readonly resolver: DidResolver;
+  private readonly cache: Map<string, DidDocument> | undefined;
+  private readonly legacy: boolean;
+  private readonly maxAgeMs: number;
+  private readonly maxClockSkewMs: number;
+  private readonly nonceStore: NonceStore;
+  private readonly jwtSecret: Uint8Array | undefined;
+  private readonly accessTokenExpiresIn: string;
+  private readonly onIssueToken: VerifierConfig["onIssueToken"];
+  private readonly requireContentDigest: boolean;
+  private readonly allowHighS: boolean;
+  private readonly httpSignatures: boolean;
+  private readonly trustProxy: boolean;
+  private readonly policy: DidPolicy;
 
   constructor(config: VerifierConfig = {}) {
-    this.httpClient = config.httpClient ?? defaultHttpClient;
-    this.cache = config.cache ?? new Map();
+    this.resolver =
+      config.resolver ??
+      createCachingDidResolver(createDidResolver(config.httpClient ? { httpClient: config.httpClient } : {}));
+    this.cache = config.cache;
+    this.legacy = config.legacy ?? false;
+    this.maxAgeMs = config.maxAgeMs ?? 5 * 60_000;
+    this.maxClockSkewMs = config.maxClockSkewMs ?? 60_000;
+    this.nonceStore = config.nonceStore ?? createInMemoryNonceStore();
+    this.jwtSecret =
+      typeof config.jwtSecret === "string" ? new TextEncoder().encode(config.jwtSecret) : config.jwtSecret;
+    this.accessTokenExpiresIn = config.accessTokenExpiresIn ?? "15m";
+    this.onIssueToken = config.onIssueToken;
+    this.requireContentDigest = config.requireContentDigest ?? false;
+    this.allowHighS = config.allowHighS ?? false;
+    this.httpSignatures = config.httpSignatures ?? false;
+    this.trustProxy = config.trustProxy ?? false;
+    this.policy = config.policy instanceof DidPolicy ? config.policy : new DidPolicy(config.policy);
+  }
+
+  /**
+   * Verify a fetch-style Request
+   *
+   * Picks the scheme from the headers (`Bearer` token, RFC 9421 `Signature-Input`, or
+   * DID-WBA `Authorization`), reads the body once, and rebuilds the URL clients signed
+   * (see `trustProxy`).
+   *
+   * Fail Fast: Throws if DID resolution fails, returns RequestVerificationResult otherwise.
+   *
+   * @example
+   * ```typescript
+   * const result = await verifier.verifyRequest(request);
+   * if (!result.verified) return new Response(result.error, { status: 401 });
+   * console.log(result.principal.did);
+   * ```
+   */
+  async verifyRequest(request: Request, options: VerifyRequestOptions = {}): Promise<RequestVerificationResult> {
+    const authHeader = request.headers.get("authorization");
+    const signed = request.headers.has("signature-input") && !/^Bearer\s/i.test(authHeader ?? "");
+    if (!authHeader && !signed) {
+      return { verified: false, code: "missingCredentials", error: "Authorization header is required" };
+    }
+
+    let body: string | Uint8Array = options.body ?? (request.body ? new Uint8Array(await request.clone().arrayBuffer()) : "");
+    // Legacy headers sign the body as the client passed it, i.e. the JSON text
+    if (typeof body !== "string" && authHeader?.trim().startsWith("DidWba ")) {
+      body = new TextDecoder().decode(body);
+    }
+    const verifyOptions: VerifyOptions = { method: request.method, url: this.requestUrl(request), body };
+    if (options.domain !== undefined) verifyOptions.domain = options.domain;
+    if (options.didDocument) verifyOptions.didDocument = options.didDocument;
+    if (options.requireContentDigest !== undefined) verifyOptions.requireContentDigest = options.requireContentDigest;
+    const contentDigest = request.headers.get("content-digest");
+    if (contentDigest) verifyOptions.contentDigest = contentDigest;
+
+    const result = signed
+      ? await this.verifyHttpSignature({ ...verifyOptions, headers: request.headers })
+      : await this.verify(authHeader!, verifyOptions);
+
+    if (!result.verified || !result.did || !result.authScheme) {
+      const failure: RequestVerificationResult = {
+        verified: false,
+        code: result.code ?? "invalidSignature",
+        error: result.error ?? "Authentication failed",
+      };
+      if (result.policy) failure.policy = result.policy;
+      return failure;
+    }
+    const principal: Principal = { did: result.did, authScheme: result.authScheme };
+    if (result.verificationMethod) principal.verificationMethod = result.verificationMethod;
+    const token = result.authScheme === "Bearer" ? authHeader!.trim().split(/\s+/)[1] : result.accessToken;
+    if (token) principal.token = token;
+    return { verified: true, principal };
+  }
+
+  /**
+   * URL of a request as sent by the client, from forwarding headers when trusted
+   */
+  private requestUrl(request: Request): string {
+    const url = new URL(request.url);
+    if (!this.trustProxy) {
+      return url.href;
+    }
+
+    const forwarded = parseForwarded(request.headers.get("forwarded"));
+    const proto = forwarded.proto ?? firstValue(request.headers.get("x-forwarded-proto"));
+    const host = forwarded.host ?? firstValue(request.headers.get("x-forwarded-host"));
+    const port = firstValue(request.headers.get("x-forwarded-port"));
+    if (proto) url.protocol = `${proto}:`;
+    if (host) {
+      // Setting `host` without a port keeps the old one
+      url.port = "";
+      url.host = host;
+    }
+    if (port && !/:\d+$/.test(host ?? "")) url.port = port;
+    return url.href;
   }
 
   /**
    * Verify DID-WBA signature
    *
+   * Checks, in order: header format, timestamp window, key, signature and nonce reuse.
+   * A nonce is only recorded once the signature is valid. `Bearer` headers are checked
+   * against the access tokens this verifier issues.
+   *
    * Fail Fast: Throws on parsing errors, returns VerificationResult for signature validation.
    *
    * @param authHeader - Authorization header value
@@ -81,98 +425,407 @@ export class Verifier {
     options: VerifyOptions
   ): Promise<VerificationResult> {
     try {
-      // Parse header (throws if invalid format)
-      const parsed = this.parseAuthHeader(authHeader);
-      if (!parsed) {
-        return { verified: false, error: "Invalid authorization header format" };
+      const bearer = authHeader.match(/^Bearer\s+(\S+)\s*$/i);
+      if (bearer) {
+        return this.verifyAccessToken(bearer[1]!, options);
       }
 
-      const { did, sig, ts } = parsed;
+      const parsed = parseDidWbaAuthHeader(authHeader);
+      if (!parsed || (parsed.scheme === "DidWba" && !this.legacy)) {
+        return reject("invalidHeader", "Invalid authorization header format");
+      }
 
-      // Get DID document
-      let didDoc = options.didDocument;
-      if (!didDoc) {
-        // Check cache
-        didDoc = this.cache.get(did);
+      const { did } = parsed;
+      const timestampError = this.checkTimestamp(parsed.scheme === "DIDWba" ? parsed.timestamp : parsed.ts);
+      if (timestampError) {
+        return timestampError;
+      }
+      const didViolation = this.policy.checkDid(did);
+      if (didViolation) {
+        return denied(didViolation);
+      }
 
-        if (!didDoc) {
-          // Resolve DID (throws if resolution fails)
-          didDoc = await resolveDidDocument(did, this.httpClient);
-          this.cache.set(did, didDoc);
-        }
+      const resolved = await this.getDidDocument(did, options);
+
+      if (parsed.scheme === "DidWba") {
+        return this.verifyLegacy(parsed, resolved, options);
       }
 
       // Get public key from DID document
-      const publicKey = this.extractPublicKey(didDoc);
-      if (!publicKey) {
-        return { verified: false, error: "Public key not found in DID document" };
+      const verificationMethod = `${did}#${parsed.verificationMethod}`;
+      const key = this.findAuthenticationKey(resolved.didDocument, `#${parsed.verificationMethod}`);
+      if (!key) {
+        return reject("keyNotFound", `Key ${verificationMethod} is not an authentication method of ${did}`);
+      }
+
+      const digestError = this.checkContentDigest(parsed, options);
+      if (digestError) {
+        return digestError;
       }
 
-      // Reconstruct message
-      const message = {
-        method: options.method.toUpperCase(),
-        url: options.url,
-        timestamp: ts,
-        body: options.body ?? null,
+      // Reconstruct signed payload, bound to this service's domain
+      const input: DidWbaSignatureInput = {
+        nonce: parsed.nonce,
+        timestamp: parsed.timestamp,
+        service: serviceDomain(options),
+        did,
       };
+      if (parsed.contentDigest !== undefined) input.contentDigest = parsed.contentDigest;
 
-      // Canonicalize (throws if fails)
-      const canonical = canonicalizeFn(message);
-      if (!canonical) {
-        return { verified: false, error: "Failed to canonicalize message" };
+      const valid = await verifyWithJwk(key.publicKey, createDidWbaSigningPayload(input), parsed.signature, {
+        allowHighS: this.allowHighS,
+      });
+      if (!valid) {
+        return reject("invalidSignature", "Signature verification failed");
       }
+      const documentViolation = await this.policy.checkDocument(policyContext(did, resolved, key.method));
+      if (documentViolation) {
+        return denied(documentViolation);
+      }
+      if (!(await this.nonceStore.checkAndStore(`${did}:${parsed.nonce}`, this.nonceTtlMs()))) {
+        return reject("replayed", "Nonce has already been used");
+      }
+      return this.withAccessToken(
+        { verified: true, did, timestamp: parsed.timestamp, verificationMethod, authScheme: "DIDWba" },
+        options
+      );
+    } catch (error) {
+      // Fail Fast: Let unexpected errors propagate
+      throw error;
+    }
+  }
 
-      // Verify signature
-      const messageBytes = new TextEncoder().encode(canonical);
+  /**
+   * Verify an RFC 9421 HTTP Message Signature
+   *
+   * The keyid must be a DID URL naming an authentication method of its DID. Checks
+   * covered components, the `created` / `expires` window, the signature, a covered
+   * Content-Digest against the raw body, and nonce reuse.
+   *
+   * Fail Fast: Throws if DID resolution fails, returns VerificationResult otherwise.
+   */
+  async verifyHttpSignature(options: HttpSignatureVerifyOptions): Promise<VerificationResult> {
+    if (!this.httpSignatures) {
+      return reject("invalidHeader", "HTTP Message Signatures are not accepted by this verifier");
+    }
 
-      const valid = await verifySecp256k1Signature(
-        publicKey,
-        messageBytes,
-        sig
-      );
+    const requiredComponents = ["@method", "@target-uri"];
+    if (options.requireContentDigest ?? this.requireContentDigest) requiredComponents.push("content-digest");
 
-      if (valid) {
-        return { verified: true, did, timestamp: ts };
-      } else {
-        return { verified: false, error: "Signature verification failed" };
-      }
+    let verified;
+    let didViolation: PolicyViolation | null = null;
+    let resolved: ResolvedDid | undefined;
+    let method: DidVerificationMethod | undefined;
+    try {
+      verified = await verifyHttpMessage(
+        { method: options.method, url: options.url, headers: options.headers },
+        async (keyid) => {
+          const did = keyid.split("#")[0]!;
+          if (!did.startsWith("did:") || !keyid.includes("#")) {
+            throw new HttpSignatureError("keyNotFound", `keyid ${keyid} is not a DID URL`);
+          }
+          // Denied DIDs are rejected before their documents are fetched
+          didViolation = this.policy.checkDid(did);
+          if (didViolation) {
+            throw new HttpSignatureError("keyNotFound", didViolation.error);
+          }
+          resolved = await this.getDidDocument(did, options);
+          const key = this.findAuthenticationKey(resolved.didDocument, keyid);
+          if (!key) {
+            throw new HttpSignatureError("keyNotFound", `Key ${keyid} is not an authentication method of ${did}`);
+          }
+          method = key.method;
+          return key.publicKey;
+        },
+        {
+          requiredComponents,
+          maxAge: Math.floor(this.maxAgeMs / 1000),
+          clockSkew: Math.floor(this.maxClockSkewMs / 1000),
+          allowHighS: this.allowHighS,
+        }
+      );
     } catch (error) {
-      // Fail Fast: Let unexpected errors propagate
+      if (didViolation) {
+        return denied(didViolation);
+      }
+      if (error instanceof HttpSignatureError) {
+        return reject(error.code === "missingComponent" ? "invalidHeader" : error.code, error.message);
+      }
       throw error;
     }
+
+    const { keyid, input } = verified;
+    const did = keyid.split("#")[0]!;
+    if (!input.params.nonce) {
+      return reject("invalidHeader", "HTTP message signature has no nonce");
+    }
+
+    if (input.components.includes("content-digest")) {
+      const body = options.body ?? "";
+      if (typeof body !== "string" && !(body instanceof Uint8Array) && !(body instanceof ArrayBuffer)) {
+        return reject("digestMismatch", "Content-Digest verification needs the raw request body");
+      }
+      const header = headerValue(options.headers, "content-digest");
+      if (!header || !verifyContentDigest(header, body)) {
+        return reject("digestMismatch", "Request body does not match its Content-Digest");
+      }
+    }
+
+    const documentViolation = await this.policy.checkDocument(policyContext(did, resolved!, method));
+    if (documentViolation) {
+      return denied(documentViolation);
+    }
+    if (!(await this.nonceStore.checkAndStore(`${did}:${input.params.nonce}`, this.nonceTtlMs()))) {
+      return reject("replayed", "Nonce has already been used");
+    }
+    const result: VerificationResult = { verified: true, did, verificationMethod: keyid, authScheme: "HttpSignature" };
+    if (input.params.created !== undefined) result.timestamp = new Date(input.params.created * 1000).toISOString();
+    return this.withAccessToken(result, options);
   }
 
   /**
-   * Parse authorization header
+   * DID document from the options, the deprecated cache or the resolver
    */
-  private parseAuthHeader(header: string): { did: string; sig: string; ts: string } | null {
-    const regex = /DidWba\s+did="([^"]+)",\s*sig="([^"]+)",\s*ts="([^"]+)"/;
-    const match = header.match(regex);
+  private async getDidDocument(did: string, options: VerifyOptions): Promise<ResolvedDid> {
+    if (options.didDocument) {
+      return { didDocument: options.didDocument };
+    }
+    const cached = this.cache?.get(did);
+    if (cached) {
+      return { didDocument: cached };
+    }
+    // Resolve DID (throws if resolution fails)
+    const { didDocument, didResolutionMetadata } = await requireDidResolution(this.resolver, did);
+    this.cache?.set(did, didDocument);
+    return didResolutionMetadata.documentUrl ? { didDocument, documentUrl: didResolutionMetadata.documentUrl } : { didDocument };
+  }
 
-    if (!match) {
-      return null;
+  /**
+   * Verify a legacy `DidWba` header, which signs method, URL, timestamp and body
+   */
+  private async verifyLegacy(
+    parsed: LegacyDidWbaAuthHeader,
+    resolved: ResolvedDid,
+    options: VerifyOptions
+  ): Promise<VerificationResult> {
+    const { did, sig, ts, kid } = parsed;
+
+    // Get public key from DID document
+    const key = this.findAuthenticationKey(resolved.didDocument, kid);
+    if (!key) {
+      return reject(
+        "keyNotFound",
+        kid ? `Key ${kid} is not an authentication method of ${did}` : "No authentication key found in DID document"
+      );
     }
 
-    const [, did, sig, ts] = match;
-    if (!did || !sig || !ts) {
-      return null;
+    // Reconstruct message
+    const message = {
+      method: options.method.toUpperCase(),
+      url: options.url,
+      timestamp: ts,
+      body: options.body ?? null,
+    };
+
+    // Canonicalize (throws if fails)
+    const canonical = canonicalizeFn(message);
+    if (!canonical) {
+      return reject("invalidSignature", "Failed to canonicalize message");
     }
 
-    return { did, sig, ts };
+    // Verify signature
+    const messageBytes = new TextEncoder().encode(canonical);
+
+    const valid = await verifyWithJwk(key.publicKey, messageBytes, sig, { allowHighS: this.allowHighS });
+    if (!valid) {
+      return reject("invalidSignature", "Signature verification failed");
+    }
+    const documentViolation = await this.policy.checkDocument(policyContext(did, resolved, key.method));
+    if (documentViolation) {
+      return denied(documentViolation);
+    }
+    // Legacy headers carry no nonce. The signed message stands in for one: keying on the
+    // signature would let a re-encoded signature of the same message through.
+    const messageHash = toHex(sha256(messageBytes));
+    if (!(await this.nonceStore.checkAndStore(`${did}:${ts}:${messageHash}`, this.nonceTtlMs()))) {
+      return reject("replayed", "Request has already been used");
+    }
+    return this.withAccessToken({ verified: true, did, timestamp: ts, authScheme: "DidWba" }, options);
+  }
+
+  /**
+   * Accept an access token issued by this verifier for the same domain
+   */
+  private async verifyAccessToken(token: string, options: VerifyOptions): Promise<VerificationResult> {
+    if (!this.jwtSecret) {
+      return reject("invalidHeader", "Bearer tokens are not accepted by this verifier");
+    }
+    const audience = serviceDomain(options);
+    const result = await verifyJwt(token, this.jwtSecret, {
+      issuer: audience,
+      audience,
+      requiredClaims: ["sub", "exp"],
+    });
+    if (!result?.payload.sub) {
+      return reject("invalidToken", "Invalid or expired access token");
+    }
+    // Tokens outlive policy changes; document-level checks ran when the token was issued
+    const didViolation = this.policy.checkDid(result.payload.sub);
+    if (didViolation) {
+      return denied(didViolation);
+    }
+
+    const verified: VerificationResult = { verified: true, did: result.payload.sub, authScheme: "Bearer" };
+    const verificationMethod = result.payload["verification_method"];
+    if (typeof verificationMethod === "string") verified.verificationMethod = verificationMethod;
+    return verified;
   }
 
   /**
-   * Extract public key from DID document
+   * Mint an access token for a verified DID-WBA request when a secret is configured
    */
-  private extractPublicKey(didDoc: DidDocument): JsonWebKey | null {
-    // Get first verification method
-    const vm = didDoc.verificationMethod?.[0];
+  private async withAccessToken(result: VerificationResult, options: VerifyOptions): Promise<VerificationResult> {
+    if (!this.jwtSecret || !result.did) {
+      return result;
+    }
+    const audience = serviceDomain(options);
+    const claims = result.verificationMethod ? { verification_method: result.verificationMethod } : {};
+    const accessToken = await issueJwt(claims, this.jwtSecret, {
+      issuer: audience,
+      audience,
+      subject: result.did,
+      expiresIn: this.accessTokenExpiresIn,
+    });
+    await this.onIssueToken?.(accessToken, result.did);
+    return { ...result, accessToken };
+  }
+
+  /**
+   * Check the Content-Digest bound to a DIDWba signature against the raw body
+   */
+  private checkContentDigest(parsed: DidWbaAuthHeader, options: VerifyOptions): VerificationResult | null {
+    if (parsed.contentDigest === undefined) {
+      return (options.requireContentDigest ?? this.requireContentDigest)
+        ? reject("digestMismatch", "Signature does not cover the request body")
+        : null;
+    }
+    if (options.contentDigest !== undefined && options.contentDigest !== parsed.contentDigest) {
+      return reject("digestMismatch", "Content-Digest header differs from the signed digest");
+    }
+    const body = options.body ?? "";
+    if (typeof body !== "string" && !(body instanceof Uint8Array) && !(body instanceof ArrayBuffer)) {
+      return reject("digestMismatch", "Content-Digest verification needs the raw request body");
+    }
+    if (!verifyContentDigest(parsed.contentDigest, body)) {
+      return reject("digestMismatch", "Request body does not match its Content-Digest");
+    }
+    return null;
+  }
+
+  /**
+   * Reject timestamps outside [now - maxAgeMs, now + maxClockSkewMs]
+   */
+  private checkTimestamp(timestamp: string): VerificationResult | null {
+    const time = Date.parse(timestamp);
+    if (Number.isNaN(time)) {
+      return reject("invalidTimestamp", `Invalid timestamp: ${timestamp}`);
+    }
+    const now = Date.now();
+    if (time < now - this.maxAgeMs) {
+      return reject("expired", `Request timestamp ${timestamp} is older than ${this.maxAgeMs}ms`);
+    }
+    if (time > now + this.maxClockSkewMs) {
+      return reject("futureTimestamp", `Request timestamp ${timestamp} is in the future`);
+    }
+    return null;
+  }
+
+  /**
+   * Nonces must be remembered for as long as their timestamp is acceptable
+   */
+  private nonceTtlMs(): number {
+    return this.maxAgeMs + this.maxClockSkewMs;
+  }
+
+  /**
+   * Find the signing method and its public key in a DID document
+   *
+   * Only methods listed under `authentication` are accepted. Selects the one named by
+   * `kid` (method id, fragment, JWK kid or thumbprint); headers without a kid fall back
+   * to the first authentication method.
+   */
+  private findAuthenticationKey(
+    didDoc: DidDocument,
+    kid?: string
+  ): { method: DidVerificationMethod; publicKey: JsonWebKey } | null {
+    const vm = kid
+      ? findVerificationMethod(didDoc, kid, "authentication")
+      : getRelationshipMethods(didDoc, "authentication")[0];
     if (!vm) {
       return null;
     }
 
-    return vm.publicKeyJwk ?? null;
+    try {
+      return { method: vm, publicKey: getVerificationMethodJwk(vm) };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Domain DIDWba signatures and access tokens are bound to
+ */
+function serviceDomain(options: VerifyOptions): string {
+  return options.domain ?? new URL(options.url).hostname;
+}
+
+/**
+ * First element of a comma-separated forwarding header (the client-facing hop)
+ */
+function firstValue(header: string | null): string | undefined {
+  const value = header?.split(",")[0]?.trim();
+  return value || undefined;
+}
+
+/**
+ * `proto` and `host` of the first element of an RFC 7239 `Forwarded` header
+ */
+function parseForwarded(header: string | null): { proto?: string; host?: string } {
+  const result: { proto?: string; host?: string } = {};
+  for (const pair of (firstValue(header) ?? "").split(";")) {
+    const [name, raw] = pair.split("=", 2).map((part) => part.trim());
+    const value = raw?.replace(/^"(.*)"$/, "$1");
+    if (!value) continue;
+    if (name?.toLowerCase() === "proto") result.proto = value;
+    if (name?.toLowerCase() === "host") result.host = value;
   }
+  return result;
+}
+
+function headerValue(headers: Record<string, string> | Headers, name: string): string | undefined {
+  if (headers instanceof Headers) return headers.get(name) ?? undefined;
+  return Object.entries(headers).find(([candidate]) => candidate.toLowerCase() === name)?.[1];
+}
+
+function reject(code: VerificationErrorCode, error: string): VerificationResult {
+  return { verified: false, code, error };
+}
+
+function denied(violation: PolicyViolation): VerificationResult {
+  return { verified: false, code: "policyDenied", error: violation.error, policy: violation.policy };
+}
+
+/**
+ * A DID document and where it was served from, if known
+ */
+interface ResolvedDid {
+  didDocument: DidDocument;
+  documentUrl?: string;
+}
+
+function policyContext(did: string, resolved: ResolvedDid, method: DidVerificationMethod | undefined): DidPolicyContext {
+  return { did, ...resolved, ...(method ? { verificationMethod: method } : {}) };
 }
 
 /**
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getKeyAlgorithm,
+  getKeyAlgorithmForJwk,
+  listKeyAlgorithms,
+  registerKeyAlgorithm,
+  signWithJwk,
+  verifyWithJwk,
+  type KeyAlgorithm,
+} from "@/core/algorithms.js";
+import { generateEd25519KeyPair, generateP256KeyPair, generateSecp256k1KeyPair, type KeyPair } from "@/core/crypto.js";
+import { base64urlEncode } from "@/core/utils.js";
+
+const message = new TextEncoder().encode("registry");
+
+async function generateRsaKeyPair(): Promise<KeyPair> {
+  const params = { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) };
+  const pair = await crypto.subtle.generateKey(params, true, ["sign", "verify"]);
+  return {
+    publicKeyJwk: await crypto.subtle.exportKey("jwk", pair.publicKey),
+    privateKeyJwk: await crypto.subtle.exportKey("jwk", pair.privateKey),
+  };
+}
+
+const keyPairs: Array<[string, () => Promise<KeyPair>]> = [
+  ["ES256K", generateSecp256k1KeyPair],
+  ["ES256", generateP256KeyPair],
+  ["EdDSA", generateEd25519KeyPair],
+  ["RS256", generateRsaKeyPair],
+];
+
+describe("built-in algorithms", () => {
+  test("are all registered", () => {
+    expect(listKeyAlgorithms().map((algorithm) => algorithm.alg)).toEqual(
+      expect.arrayContaining(["ES256K", "ES256", "EdDSA", "RS256"])
+    );
+  });
+
+  for (const [alg, generate] of keyPairs) {
+    describe(alg, () => {
+      test("is selected from the key type", async () => {
+        const { publicKeyJwk, privateKeyJwk } = await generate();
+        expect(getKeyAlgorithmForJwk(publicKeyJwk).alg).toBe(alg);
+        expect(getKeyAlgorithmForJwk(privateKeyJwk).alg).toBe(alg);
+      });
+
+      test("signs and verifies through the registry", async () => {
+        const { publicKeyJwk, privateKeyJwk } = await generate();
+        const signature = base64urlEncode(await signWithJwk(privateKeyJwk, message));
+        expect(await verifyWithJwk(publicKeyJwk, message, signature)).toBe(true);
+        expect(await verifyWithJwk(publicKeyJwk, new TextEncoder().encode("other"), signature)).toBe(false);
+      });
+
+      test("treats malformed keys and signatures as invalid", async () => {
+        const { publicKeyJwk, privateKeyJwk } = await generate();
+        const algorithm = getKeyAlgorithm(alg);
+        const signature = base64urlEncode(await algorithm.sign(privateKeyJwk, message));
+        for (const bad of ["", "!!not base64url!!", base64urlEncode(new Uint8Array(7))]) {
+          expect(await algorithm.verify(publicKeyJwk, message, bad)).toBe(false);
+        }
+        const { x: _x, n: _n, ...truncated } = publicKeyJwk;
+        expect(await algorithm.verify(truncated, message, signature)).toBe(false);
+        expect(await algorithm.verify({ ...publicKeyJwk, x: "AAAA", n: "AAAA" }, message, signature)).toBe(false);
+      });
+
+      test("round-trips keys through PEM", async () => {
+        const { publicKeyJwk, privateKeyJwk } = await generate();
+        const algorithm = getKeyAlgorithm(alg);
+        const privateKey = await algorithm.importPrivateKeyPem(await algorithm.exportPrivateKeyPem(privateKeyJwk));
+        const publicKey = await algorithm.importPublicKeyPem(await algorithm.exportPublicKeyPem(publicKeyJwk));
+        expect(algorithm.thumbprintMembers(privateKey)).toEqual(algorithm.thumbprintMembers(privateKeyJwk));
+        expect(algorithm.thumbprintMembers(publicKey)).toEqual(algorithm.thumbprintMembers(publicKeyJwk));
+
+        const signature = base64urlEncode(await algorithm.sign(privateKey, message));
+        expect(await algorithm.verify(publicKey, message, signature)).toBe(true);
+      });
+    });
+  }
+});
+
+describe("registry", () => {
+  test("throws for unknown algorithms and key types", () => {
+    expect(() => getKeyAlgorithm("HS256")).toThrow("Unsupported algorithm: HS256");
+    expect(() => getKeyAlgorithmForJwk({ kty: "OKP", crv: "Ed448", x: "AA" })).toThrow("Unsupported key type");
+  });
+
+  test("prefers the JWK alg member", async () => {
+    const { publicKeyJwk } = await generateP256KeyPair();
+    expect(getKeyAlgorithmForJwk({ ...publicKeyJwk, alg: "ES256" }).alg).toBe("ES256");
+  });
+
+  test("dispatches to registered algorithms", async () => {
+    const custom: KeyAlgorithm = {
+      alg: "TEST-ALG",
+      kty: "oct",
+      crv: "test",
+      sign: async (_key, data) => data.slice().reverse(),
+      verify: async (_key, data, signature) => signature === base64urlEncode(data.slice().reverse()),
+      importPrivateKeyPem: async () => ({ kty: "oct", crv: "test" }),
+      exportPrivateKeyPem: async () => "",
+      importPublicKeyPem: async () => ({ kty: "oct", crv: "test" }),
+      exportPublicKeyPem: async () => "",
+      thumbprintMembers: () => ({ kty: "oct" }),
+    };
+    registerKeyAlgorithm(custom);
+
+    const key = { kty: "oct", crv: "test" };
+    expect(getKeyAlgorithmForJwk(key)).toBe(custom);
+    const signature = base64urlEncode(await signWithJwk(key, message));
+    expect(await verifyWithJwk(key, message, signature)).toBe(true);
+  });
+});
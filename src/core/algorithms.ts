@@ -0,0 +1,234 @@
+/**
+ * Key Algorithm Registry
+ *
+ * Every signing algorithm the SDK understands is described by a single KeyAlgorithm
+ * registration. Authentication, JWT and AP2 code dispatch through this registry using
+ * the JWK `kty`/`crv` or the JWS `alg`, so supporting a new curve is one
+ * `registerKeyAlgorithm()` call.
+ *
+ * @packageDocumentation
+ */
+
+import { exportJWK, exportPKCS8, exportSPKI, importJWK, importPKCS8, importSPKI } from "jose";
+import type { JWK } from "jose";
+import {
+  signSecp256k1,
+  verifySecp256k1Signature,
+  importSecp256k1PrivateKeyFromPem,
+  exportSecp256k1PrivateKeyToPem,
+  importSecp256k1PublicKeyFromPem,
+  exportSecp256k1PublicKeyToPem,
+  signP256,
+  verifyP256Signature,
+  importP256PrivateKeyFromPem,
+  exportP256PrivateKeyToPem,
+  importP256PublicKeyFromPem,
+  exportP256PublicKeyToPem,
+  signEd25519,
+  verifyEd25519Signature,
+  importEd25519PrivateKeyFromPem,
+  exportEd25519PrivateKeyToPem,
+  importEd25519PublicKeyFromPem,
+  exportEd25519PublicKeyToPem,
+  jwkToRawEd25519PrivateKey,
+  type SignatureVerifyOptions,
+} from "@/core/crypto.js";
+import { base64urlDecode } from "@/core/utils.js";
+
+/**
+ * JWS algorithm identifiers registered by default.
+ */
+export type KeyAlgorithmName = "ES256K" | "ES256" | "EdDSA" | "RS256";
+
+/**
+ * A signing algorithm and the key family it operates on.
+ */
+export interface KeyAlgorithm {
+  /** JWS `alg` header value */
+  readonly alg: string;
+  /** JWK `kty` of keys used with this algorithm */
+  readonly kty: string;
+  /** JWK `crv` of keys used with this algorithm (EC/OKP only) */
+  readonly crv?: string;
+  /** Sign raw bytes; any hashing required by the algorithm happens inside */
+  sign(privateKey: JsonWebKey, data: Uint8Array): Promise<Uint8Array>;
+  /** Verify a base64url encoded signature over raw bytes; ECDSA algorithms honour `allowHighS` */
+  verify(
+    publicKey: JsonWebKey,
+    data: Uint8Array,
+    signatureB64Url: string,
+    options?: SignatureVerifyOptions
+  ): Promise<boolean>;
+  importPrivateKeyPem(pem: string): Promise<JsonWebKey>;
+  exportPrivateKeyPem(privateKey: JsonWebKey): Promise<string>;
+  importPublicKeyPem(pem: string): Promise<JsonWebKey>;
+  exportPublicKeyPem(publicKey: JsonWebKey): Promise<string>;
+  /** Required JWK members for the RFC 7638 thumbprint, in any order */
+  thumbprintMembers(jwk: JsonWebKey): Record<string, string>;
+}
+
+const registry = new Map<string, KeyAlgorithm>();
+
+/**
+ * Register (or replace) a key algorithm under its JWS `alg`.
+ */
+export function registerKeyAlgorithm(algorithm: KeyAlgorithm): void {
+  registry.set(algorithm.alg, algorithm);
+}
+
+/**
+ * Look up a key algorithm by JWS `alg`.
+ *
+ * Fail Fast: throws if the algorithm is not registered.
+ */
+export function getKeyAlgorithm(alg: string): KeyAlgorithm {
+  const algorithm = registry.get(alg);
+  if (!algorithm) throw new Error(`Unsupported algorithm: ${alg}`);
+  return algorithm;
+}
+
+/**
+ * Look up the key algorithm for a JWK, using its `alg` member when present and
+ * its `kty`/`crv` otherwise.
+ *
+ * Fail Fast: throws if no registered algorithm handles the key.
+ */
+export function getKeyAlgorithmForJwk(jwk: JsonWebKey): KeyAlgorithm {
+  if (jwk.alg && registry.has(jwk.alg)) return registry.get(jwk.alg)!;
+  for (const algorithm of registry.values()) {
+    if (algorithm.kty === jwk.kty && algorithm.crv === jwk.crv) return algorithm;
+  }
+  throw new Error(`Unsupported key type: kty=${jwk.kty ?? "none"}, crv=${jwk.crv ?? "none"}`);
+}
+
+/**
+ * All registered key algorithms.
+ */
+export function listKeyAlgorithms(): KeyAlgorithm[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Sign data with a private JWK, choosing the algorithm from the key itself.
+ */
+export async function signWithJwk(privateKey: JsonWebKey, data: Uint8Array): Promise<Uint8Array> {
+  return getKeyAlgorithmForJwk(privateKey).sign(privateKey, data);
+}
+
+/**
+ * Verify a base64url signature with a public JWK, choosing the algorithm from the key itself.
+ */
+export async function verifyWithJwk(
+  publicKey: JsonWebKey,
+  data: Uint8Array,
+  signatureB64Url: string,
+  options?: SignatureVerifyOptions
+): Promise<boolean> {
+  return getKeyAlgorithmForJwk(publicKey).verify(publicKey, data, signatureB64Url, options);
+}
+
+// ============================================
+// Built-in algorithms
+// ============================================
+
+function ecThumbprintMembers(jwk: JsonWebKey): Record<string, string> {
+  if (!jwk.crv || !jwk.x || !jwk.y) throw new Error("EC JWK missing crv/x/y");
+  return { crv: jwk.crv, kty: "EC", x: jwk.x, y: jwk.y };
+}
+
+function okpThumbprintMembers(jwk: JsonWebKey): Record<string, string> {
+  if (!jwk.crv || !jwk.x) throw new Error("OKP JWK missing crv/x");
+  return { crv: jwk.crv, kty: "OKP", x: jwk.x };
+}
+
+function rsaThumbprintMembers(jwk: JsonWebKey): Record<string, string> {
+  if (!jwk.e || !jwk.n) throw new Error("RSA JWK missing e/n");
+  return { e: jwk.e, kty: "RSA", n: jwk.n };
+}
+
+registerKeyAlgorithm({
+  alg: "ES256K",
+  kty: "EC",
+  crv: "secp256k1",
+  sign: signSecp256k1,
+  verify: verifySecp256k1Signature,
+  importPrivateKeyPem: async (pem) => importSecp256k1PrivateKeyFromPem(pem),
+  exportPrivateKeyPem: async (jwk) => {
+    if (!jwk.d) throw new Error("Private JWK missing 'd'");
+    return exportSecp256k1PrivateKeyToPem(base64urlDecode(jwk.d));
+  },
+  importPublicKeyPem: async (pem) => importSecp256k1PublicKeyFromPem(pem),
+  exportPublicKeyPem: async (jwk) => exportSecp256k1PublicKeyToPem(jwk),
+  thumbprintMembers: ecThumbprintMembers,
+});
+
+registerKeyAlgorithm({
+  alg: "ES256",
+  kty: "EC",
+  crv: "P-256",
+  sign: signP256,
+  verify: verifyP256Signature,
+  importPrivateKeyPem: importP256PrivateKeyFromPem,
+  exportPrivateKeyPem: exportP256PrivateKeyToPem,
+  importPublicKeyPem: importP256PublicKeyFromPem,
+  exportPublicKeyPem: exportP256PublicKeyToPem,
+  thumbprintMembers: ecThumbprintMembers,
+});
+
+registerKeyAlgorithm({
+  alg: "EdDSA",
+  kty: "OKP",
+  crv: "Ed25519",
+  sign: signEd25519,
+  verify: verifyEd25519Signature,
+  importPrivateKeyPem: async (pem) => importEd25519PrivateKeyFromPem(pem),
+  exportPrivateKeyPem: async (jwk) => exportEd25519PrivateKeyToPem(jwkToRawEd25519PrivateKey(jwk)),
+  importPublicKeyPem: async (pem) => importEd25519PublicKeyFromPem(pem),
+  exportPublicKeyPem: async (jwk) => exportEd25519PublicKeyToPem(jwk),
+  thumbprintMembers: okpThumbprintMembers,
+});
+
+// RS256 relies on WebCrypto (through jose for PEM handling)
+const RS256_PARAMS = { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" } as const;
+
+function toPlainRsaJwk(jwk: JsonWebKey): JsonWebKey {
+  const { key_ops: _ops, ext: _ext, use: _use, alg: _alg, ...rest } = jwk;
+  return rest;
+}
+
+registerKeyAlgorithm({
+  alg: "RS256",
+  kty: "RSA",
+  async sign(privateKey, data) {
+    const key = await crypto.subtle.importKey("jwk", toPlainRsaJwk(privateKey), RS256_PARAMS, false, ["sign"]);
+    return new Uint8Array(await crypto.subtle.sign(RS256_PARAMS, key, data as BufferSource));
+  },
+  async verify(publicKey, data, signatureB64Url) {
+    const { d: _d, p: _p, q: _q, dp: _dp, dq: _dq, qi: _qi, ...pub } = toPlainRsaJwk(publicKey);
+    try {
+      const key = await crypto.subtle.importKey("jwk", pub, RS256_PARAMS, false, ["verify"]);
+      const signature = base64urlDecode(signatureB64Url);
+      return await crypto.subtle.verify(RS256_PARAMS, key, signature as BufferSource, data as BufferSource);
+    } catch {
+      return false;
+    }
+  },
+  async importPrivateKeyPem(pem) {
+    const key = await importPKCS8(pem, "RS256", { extractable: true });
+    return toPlainRsaJwk((await exportJWK(key)) as JsonWebKey);
+  },
+  async exportPrivateKeyPem(jwk) {
+    const key = await importJWK(toPlainRsaJwk(jwk) as JWK, "RS256", { extractable: true });
+    return exportPKCS8(key as CryptoKey);
+  },
+  async importPublicKeyPem(pem) {
+    const key = await importSPKI(pem, "RS256", { extractable: true });
+    return toPlainRsaJwk((await exportJWK(key)) as JsonWebKey);
+  },
+  async exportPublicKeyPem(jwk) {
+    const { d: _d, p: _p, q: _q, dp: _dp, dq: _dq, qi: _qi, ...pub } = toPlainRsaJwk(jwk);
+    const key = await importJWK(pub as JWK, "RS256", { extractable: true });
+    return exportSPKI(key as CryptoKey);
+  },
+  thumbprintMembers: rsaThumbprintMembers,
+});
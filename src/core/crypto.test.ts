@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { p256 } from "@noble/curves/nist.js";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import type { ECDSA } from "@noble/curves/abstract/weierstrass.js";
+import {
+  exportEd25519PrivateKeyToPem,
+  exportEd25519PublicKeyToPem,
+  generateEd25519KeyPair,
+  generateP256KeyPair,
+  generateSecp256k1KeyPair,
+  importEd25519PrivateKeyFromPem,
+  importEd25519PublicKeyFromPem,
+  jwkToRawEd25519PrivateKey,
+  signEd25519,
+  signP256,
+  signSecp256k1,
+  verifyEd25519Signature,
+  verifyP256Signature,
+  verifySecp256k1Signature,
+} from "@/core/crypto.js";
+import { base64urlDecode, base64urlEncode } from "@/core/utils.js";
+
+const message = new TextEncoder().encode("hello anp");
+
+/** The other valid encoding of an ECDSA signature: (r, n - s) */
+function flipS(curve: ECDSA, signatureB64Url: string): string {
+  const { r, s } = curve.Signature.fromBytes(base64urlDecode(signatureB64Url), "compact");
+  return base64urlEncode(new curve.Signature(r, curve.Point.Fn.ORDER - s).toBytes("compact"));
+}
+
+describe("Ed25519", () => {
+  test("signs and verifies", async () => {
+    const { publicKeyJwk, privateKeyJwk } = await generateEd25519KeyPair();
+    expect(publicKeyJwk).toMatchObject({ kty: "OKP", crv: "Ed25519" });
+    expect(publicKeyJwk.d).toBeUndefined();
+
+    const signature = base64urlEncode(await signEd25519(privateKeyJwk, message));
+    expect(await verifyEd25519Signature(publicKeyJwk, message, signature)).toBe(true);
+    expect(await verifyEd25519Signature(publicKeyJwk, new TextEncoder().encode("other"), signature)).toBe(false);
+  });
+
+  test("returns false for malformed signatures", async () => {
+    const { publicKeyJwk } = await generateEd25519KeyPair();
+    expect(await verifyEd25519Signature(publicKeyJwk, message, "not base64!")).toBe(false);
+    expect(await verifyEd25519Signature(publicKeyJwk, message, "AAAA")).toBe(false);
+  });
+
+  test("rejects signatures of another key", async () => {
+    const alice = await generateEd25519KeyPair();
+    const bob = await generateEd25519KeyPair();
+    const signature = base64urlEncode(await signEd25519(alice.privateKeyJwk, message));
+    expect(await verifyEd25519Signature(bob.publicKeyJwk, message, signature)).toBe(false);
+  });
+
+  test("round-trips keys through PEM", async () => {
+    const { publicKeyJwk, privateKeyJwk } = await generateEd25519KeyPair();
+    const privatePem = exportEd25519PrivateKeyToPem(jwkToRawEd25519PrivateKey(privateKeyJwk));
+    expect(privatePem).toContain("BEGIN PRIVATE KEY");
+    expect(importEd25519PrivateKeyFromPem(privatePem)).toEqual(privateKeyJwk);
+    expect(importEd25519PublicKeyFromPem(exportEd25519PublicKeyToPem(publicKeyJwk))).toEqual(publicKeyJwk);
+  });
+});
+
+describe("secp256k1", () => {
+  test("signs and verifies", async () => {
+    const { publicKeyJwk, privateKeyJwk } = await generateSecp256k1KeyPair();
+    const signature = base64urlEncode(await signSecp256k1(privateKeyJwk, message));
+    expect(await verifySecp256k1Signature(publicKeyJwk, message, signature)).toBe(true);
+    expect(await verifySecp256k1Signature(publicKeyJwk, new TextEncoder().encode("other"), signature)).toBe(false);
+  });
+
+  test("signs low-S and rejects high-S signatures unless allowed", async () => {
+    const { publicKeyJwk, privateKeyJwk } = await generateSecp256k1KeyPair();
+    for (let i = 0; i < 8; i++) {
+      const signature = await signSecp256k1(privateKeyJwk, message);
+      expect(secp256k1.Signature.fromBytes(signature, "compact").hasHighS()).toBe(false);
+      const highS = flipS(secp256k1, base64urlEncode(signature));
+      expect(await verifySecp256k1Signature(publicKeyJwk, message, highS)).toBe(false);
+      expect(await verifySecp256k1Signature(publicKeyJwk, message, highS, { allowHighS: true })).toBe(true);
+    }
+  });
+
+  test("returns false for malformed signatures", async () => {
+    const { publicKeyJwk } = await generateSecp256k1KeyPair();
+    expect(await verifySecp256k1Signature(publicKeyJwk, message, "not base64!")).toBe(false);
+    expect(await verifySecp256k1Signature(publicKeyJwk, message, "AAAA")).toBe(false);
+  });
+});
+
+describe("P-256", () => {
+  const webCrypto = globalThis.crypto;
+
+  afterEach(() => {
+    Object.defineProperty(globalThis, "crypto", { value: webCrypto, configurable: true });
+  });
+
+  /** Run without crypto.subtle so the noble fallback is used */
+  function withoutSubtle(): void {
+    Object.defineProperty(globalThis, "crypto", {
+      value: { getRandomValues: webCrypto.getRandomValues.bind(webCrypto) },
+      configurable: true,
+    });
+  }
+
+  for (const [name, setup] of [["WebCrypto", () => {}], ["noble fallback", withoutSubtle]] as const) {
+    describe(name, () => {
+      test("signs low-S and verifies", async () => {
+        setup();
+        const { publicKeyJwk, privateKeyJwk } = await generateP256KeyPair();
+        for (let i = 0; i < 8; i++) {
+          const signature = await signP256(privateKeyJwk, message);
+          expect(p256.Signature.fromBytes(signature, "compact").hasHighS()).toBe(false);
+          expect(await verifyP256Signature(publicKeyJwk, message, base64urlEncode(signature))).toBe(true);
+        }
+      });
+
+      test("rejects high-S signatures unless allowed", async () => {
+        setup();
+        const { publicKeyJwk, privateKeyJwk } = await generateP256KeyPair();
+        const signature = base64urlEncode(await signP256(privateKeyJwk, message));
+        const highS = flipS(p256, signature);
+        expect(highS).not.toBe(signature);
+        expect(await verifyP256Signature(publicKeyJwk, message, highS)).toBe(false);
+        expect(await verifyP256Signature(publicKeyJwk, message, highS, { allowHighS: true })).toBe(true);
+      });
+
+      test("returns false for tampered or malformed signatures", async () => {
+        setup();
+        const { publicKeyJwk, privateKeyJwk } = await generateP256KeyPair();
+        const signature = base64urlEncode(await signP256(privateKeyJwk, message));
+        expect(await verifyP256Signature(publicKeyJwk, new TextEncoder().encode("other"), signature)).toBe(false);
+        expect(await verifyP256Signature(publicKeyJwk, message, "AAAA")).toBe(false);
+      });
+    });
+  }
+});
@@ -0,0 +1,248 @@
+import { describe, expect, test } from "bun:test";
+import { generateEd25519KeyPair, generateX25519KeyPair } from "@/core/crypto.js";
+import {
+  createDidWba,
+  createDidWbaDocument,
+  dereferenceDidUrlInDocument,
+  DidDocumentSchema,
+  didToURL,
+  findVerificationMethod,
+  getRelationshipMethods,
+  getVerificationMethodJwk,
+  hasVerificationRelationship,
+  parseDidUrl,
+  type DidDocument,
+} from "@/core/did.js";
+import { DidResolutionError, DidUrlNotFoundError, InvalidDidUrlError } from "@/core/errors.js";
+import { computeJwkThumbprint } from "@/core/jwk.js";
+import { jwkToMultibasePublicKey } from "@/core/multicodec.js";
+import { dereferenceDidUrl, type DidResolver } from "@/core/resolver.js";
+
+describe("createDidWba", () => {
+  test("encodes the port and path", () => {
+    expect(createDidWba("example.com")).toBe("did:wba:example.com");
+    expect(createDidWba("example.com", 8800)).toBe("did:wba:example.com%3A8800");
+    expect(createDidWba("example.com", 8800, "user/alice")).toBe("did:wba:example.com%3A8800:user:alice");
+    expect(createDidWba("example.com", undefined, "/a b//c/")).toBe("did:wba:example.com:a%20b:c");
+  });
+
+  test("rejects hostnames with a scheme, port or path", () => {
+    for (const hostname of ["", "https://example.com", "example.com:8800", "example.com/user", "a b"]) {
+      expect(() => createDidWba(hostname)).toThrow("Invalid hostname");
+    }
+  });
+});
+
+describe("didToURL", () => {
+  test("maps did:wba and did:web to the document URL", () => {
+    expect(didToURL("did:wba:example.com")).toBe("https://example.com/.well-known/did.json");
+    expect(didToURL("did:web:example.com%3A8800:user:alice")).toBe("https://example.com:8800/user/alice/did.json");
+  });
+
+  test("rejects other methods", () => {
+    expect(() => didToURL("did:key:z6Mk")).toThrow("invalid DID");
+  });
+});
+
+describe("createDidWbaDocument", () => {
+  test("defaults to a secp256k1 authentication key and an X25519 agreement key", async () => {
+    const { did, didDocument, privateKeys, documentUrl } = await createDidWbaDocument({
+      hostname: "example.com",
+      port: 8800,
+      path: "user/alice",
+    });
+    expect(did).toBe("did:wba:example.com%3A8800:user:alice");
+    expect(documentUrl).toBe("https://example.com:8800/user/alice/did.json");
+
+    expect(didDocument["@context"]).toEqual([
+      "https://www.w3.org/ns/did/v1",
+      "https://w3id.org/security/suites/secp256k1-2019/v1",
+      "https://w3id.org/security/suites/x25519-2019/v1",
+    ]);
+    expect(didDocument.verificationMethod).toMatchObject([
+      { id: `${did}#key-1`, type: "EcdsaSecp256k1VerificationKey2019", controller: did, publicKeyJwk: { crv: "secp256k1" } },
+      { id: `${did}#key-2`, type: "X25519KeyAgreementKey2019", controller: did, publicKeyJwk: { crv: "X25519" } },
+    ]);
+    expect(didDocument.authentication).toEqual([`${did}#key-1`]);
+    expect(didDocument.assertionMethod).toEqual([`${did}#key-1`]);
+    expect(didDocument.keyAgreement).toEqual([`${did}#key-2`]);
+
+    expect(Object.keys(privateKeys)).toEqual(["key-1", "key-2"]);
+    expect(privateKeys["key-1"]!.d).toBeDefined();
+    for (const method of didDocument.verificationMethod ?? []) {
+      expect(method.publicKeyJwk?.d).toBeUndefined();
+    }
+  });
+
+  test("uses given private keys and resolves relative service ids", async () => {
+    const { privateKeyJwk, publicKeyJwk } = await generateEd25519KeyPair();
+    const { did, didDocument, privateKeys } = await createDidWbaDocument({
+      hostname: "example.com",
+      keys: [{ type: "Ed25519", privateKey: privateKeyJwk }, "P-256"],
+      services: [
+        { id: "#agent", type: "AgentDescription", serviceEndpoint: "https://example.com/ad.json" },
+        { id: "https://example.com/other", type: "Other", serviceEndpoint: "https://example.com/other" },
+      ],
+    });
+
+    expect(privateKeys["key-1"]).toBe(privateKeyJwk);
+    expect(didDocument.verificationMethod?.[0]).toMatchObject({ type: "Ed25519VerificationKey2020", publicKeyJwk });
+    expect(didDocument.verificationMethod?.[1]).toMatchObject({ type: "JsonWebKey2020", publicKeyJwk: { crv: "P-256" } });
+    expect(didDocument.authentication).toEqual([`${did}#key-1`, `${did}#key-2`]);
+    expect(didDocument.keyAgreement).toBeUndefined();
+    expect(didDocument.service?.map((service) => service.id)).toEqual([`${did}#agent`, "https://example.com/other"]);
+  });
+
+  test("requires at least one key", async () => {
+    await expect(createDidWbaDocument({ hostname: "example.com", keys: [] })).rejects.toThrow("At least one key is required");
+  });
+});
+
+describe("parseDidUrl", () => {
+  test("splits path, query and fragment", () => {
+    expect(parseDidUrl("did:wba:example.com%3A8800:user:alice/docs/a?service=agent&relativeRef=%2Frpc#key-1")).toEqual({
+      did: "did:wba:example.com%3A8800:user:alice",
+      method: "wba",
+      id: "example.com%3A8800:user:alice",
+      path: "/docs/a",
+      query: "service=agent&relativeRef=%2Frpc",
+      params: { service: "agent", relativeRef: "/rpc" },
+      fragment: "key-1",
+      didUrl: "did:wba:example.com%3A8800:user:alice/docs/a?service=agent&relativeRef=%2Frpc#key-1",
+    });
+    expect(parseDidUrl("did:key:z6Mk")).toEqual({
+      did: "did:key:z6Mk",
+      method: "key",
+      id: "z6Mk",
+      params: {},
+      didUrl: "did:key:z6Mk",
+    });
+  });
+
+  test("rejects malformed DID URLs", () => {
+    const malformed = ["did:wba", "did:WBA:example.com", "did:wba:#key-1", "https://example.com", "did:wba:example.com#%E0%A4%A"];
+    for (const didUrl of malformed) {
+      expect(() => parseDidUrl(didUrl)).toThrow(InvalidDidUrlError);
+    }
+  });
+});
+
+describe("dereferenceDidUrlInDocument", () => {
+  const did = "did:wba:example.com";
+  const document: DidDocument = {
+    id: did,
+    verificationMethod: [{ id: `${did}#key-1`, type: "JsonWebKey2020", controller: did, publicKeyJwk: { kty: "OKP" } }],
+    authentication: ["#key-1", { id: "#key-2", type: "JsonWebKey2020", controller: did, publicKeyJwk: { kty: "OKP" } }],
+    assertionMethod: [`${did}#key-1`],
+    service: [
+      { id: "#agent", type: "AgentDescription", serviceEndpoint: "https://example.com/agents/alice/" },
+      { id: `${did}#hub`, type: "Hub", serviceEndpoint: { origins: ["https://hub.example"] } },
+    ],
+  };
+
+  test("returns the document for a bare DID", () => {
+    expect(dereferenceDidUrlInDocument(document, did)).toEqual({ kind: "didDocument", didDocument: document });
+  });
+
+  test("selects verification methods by fragment, with their relationships", () => {
+    expect(dereferenceDidUrlInDocument(document, `${did}#key-1`)).toEqual({
+      kind: "verificationMethod",
+      verificationMethod: document.verificationMethod[0]!,
+      relationships: ["authentication", "assertionMethod"],
+    });
+    expect(dereferenceDidUrlInDocument(document, `${did}#key-2`)).toMatchObject({
+      kind: "verificationMethod",
+      verificationMethod: { id: "#key-2" },
+      relationships: ["authentication"],
+    });
+  });
+
+  test("selects services by fragment or service parameter", () => {
+    expect(dereferenceDidUrlInDocument(document, `${did}#agent`)).toMatchObject({
+      kind: "service",
+      serviceEndpoint: "https://example.com/agents/alice/",
+    });
+    expect(dereferenceDidUrlInDocument(document, `${did}?service=agent&relativeRef=rpc`)).toMatchObject({
+      kind: "service",
+      service: { id: "#agent" },
+      serviceEndpoint: "https://example.com/agents/alice/rpc",
+    });
+  });
+
+  test("fails for other DIDs and missing targets", () => {
+    expect(() => dereferenceDidUrlInDocument(document, "did:wba:other.example#key-1")).toThrow(InvalidDidUrlError);
+    for (const didUrl of [`${did}#key-9`, `${did}?service=missing`, `${did}#hub`]) {
+      expect(() => dereferenceDidUrlInDocument(document, didUrl)).toThrow(DidUrlNotFoundError);
+    }
+  });
+
+  test("resolves the DID first through a resolver", async () => {
+    const resolver: DidResolver = {
+      async resolve(requested) {
+        const didDocument = requested === did ? document : null;
+        return { didResolutionMetadata: didDocument ? {} : { error: "notFound" }, didDocument, didDocumentMetadata: {} };
+      },
+    };
+    expect(await dereferenceDidUrl(resolver, `${did}#key-1`)).toMatchObject({ kind: "verificationMethod" });
+    await expect(dereferenceDidUrl(resolver, "did:wba:other.example#key-1")).rejects.toBeInstanceOf(DidResolutionError);
+  });
+});
+
+describe("verification relationships", () => {
+  const did = "did:wba:example.com";
+
+  async function documentWithKeys(): Promise<DidDocument> {
+    const signing = await generateEd25519KeyPair();
+    const agreement = await generateX25519KeyPair();
+    return DidDocumentSchema.parse({
+      id: did,
+      verificationMethod: [
+        { id: `${did}#key-1`, type: "JsonWebKey2020", controller: did, publicKeyJwk: signing.publicKeyJwk },
+        { id: "#key-2", type: "Multikey", controller: did, publicKeyMultibase: jwkToMultibasePublicKey(agreement.publicKeyJwk) },
+        { id: "#dangling-target", type: "JsonWebKey2020", controller: did },
+      ],
+      authentication: ["#key-1", "#missing"],
+      keyAgreement: [`${did}#key-2`],
+      capabilityInvocation: [{ id: "#key-3", type: "JsonWebKey2020", controller: did, publicKeyJwk: signing.publicKeyJwk }],
+    }) as DidDocument;
+  }
+
+  test("schema defaults verificationMethod and authentication", () => {
+    expect(DidDocumentSchema.parse({ id: did })).toEqual({ id: did, verificationMethod: [], authentication: [] });
+    expect(DidDocumentSchema.safeParse({ id: did, authentication: [42] }).success).toBe(false);
+  });
+
+  test("resolve references and embedded methods, skipping dangling ones", async () => {
+    const document = await documentWithKeys();
+    expect(getRelationshipMethods(document, "authentication").map((vm) => vm.id)).toEqual([`${did}#key-1`]);
+    expect(getRelationshipMethods(document, "keyAgreement").map((vm) => vm.id)).toEqual(["#key-2"]);
+    expect(getRelationshipMethods(document, "capabilityInvocation").map((vm) => vm.id)).toEqual(["#key-3"]);
+    expect(getRelationshipMethods(document, "assertionMethod")).toEqual([]);
+  });
+
+  test("compare relative and absolute method ids", async () => {
+    const document = await documentWithKeys();
+    expect(hasVerificationRelationship(document, `${did}#key-1`, "authentication")).toBe(true);
+    expect(hasVerificationRelationship(document, "#key-2", "keyAgreement")).toBe(true);
+    expect(hasVerificationRelationship(document, document.verificationMethod[1]!, "authentication")).toBe(false);
+  });
+
+  test("restrict findVerificationMethod to a relationship", async () => {
+    const document = await documentWithKeys();
+    expect(findVerificationMethod(document, "key-2")?.id).toBe("#key-2");
+    expect(findVerificationMethod(document, "#key-2", "authentication")).toBeUndefined();
+    expect(findVerificationMethod(document, `${did}#key-3`)?.id).toBe("#key-3");
+    expect(findVerificationMethod(document, "key-3", "authentication")).toBeUndefined();
+
+    // By thumbprint, only within the relationship
+    const thumbprint = computeJwkThumbprint(document.verificationMethod[0]!.publicKeyJwk!);
+    expect(findVerificationMethod(document, thumbprint, "authentication")?.id).toBe(`${did}#key-1`);
+    expect(findVerificationMethod(document, thumbprint, "keyAgreement")).toBeUndefined();
+  });
+
+  test("decode multibase keys and require key material", async () => {
+    const document = await documentWithKeys();
+    expect(getVerificationMethodJwk(document.verificationMethod[1]!)).toMatchObject({ kty: "OKP", crv: "X25519" });
+    expect(() => getVerificationMethodJwk(document.verificationMethod[2]!)).toThrow("has no publicKeyJwk or publicKeyMultibase");
+  });
+});
@@ -1,35 +1,125 @@
 import { base64urlEncode } from "@/core/utils.js";
 import { defaultHttpClient, type HttpClient } from "@/core/http.js";
+import { jwkMatchesKid } from "@/core/jwk.js";
+import { multibasePublicKeyToJwk } from "@/core/multicodec.js";
+import { DidUrlNotFoundError, InvalidDidUrlError } from "@/core/errors.js";
+import {
+  generateEd25519KeyPair,
+  generateP256KeyPair,
+  generateSecp256k1KeyPair,
+  generateX25519KeyPair,
+} from "@/core/crypto.js";
 import { z } from "zod";
 
+/**
+ * A service endpoint: a URL, a map of endpoint properties, or a set of either.
+ */
+export type DidServiceEndpoint = string | Record<string, unknown> | Array<string | Record<string, unknown>>;
+
+export interface DidService {
+  id: string;
+  type: string | string[];
+  serviceEndpoint: DidServiceEndpoint;
+  [property: string]: unknown;
+}
+
+/**
+ * A verification method. The key is given as `publicKeyJwk` or `publicKeyMultibase`;
+ * other properties are kept as published.
+ */
+export interface DidVerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyJwk?: JsonWebKey;
+  publicKeyMultibase?: string;
+  [property: string]: unknown;
+}
+
+/**
+ * A verification relationship entry: a reference to a method in `verificationMethod`
+ * (absolute or relative DID URL) or an embedded method.
+ */
+export type DidVerificationRelationship = string | DidVerificationMethod;
+
+/**
+ * A W3C DID document. `verificationMethod` and `authentication` are always present
+ * (empty when the published document omits them) so callers need not guard them.
+ */
 export interface DidDocument {
+  "@context"?: string | Array<string | Record<string, unknown>>;
   id: string;
-  verificationMethod: Array<{
-    id: string;
-    type: string;
-    controller: string;
-    publicKeyJwk: JsonWebKey;
-  }>;
-  authentication: string[];
+  controller?: string | string[];
+  alsoKnownAs?: string[];
+  verificationMethod: DidVerificationMethod[];
+  authentication: DidVerificationRelationship[];
+  assertionMethod?: DidVerificationRelationship[];
+  keyAgreement?: DidVerificationRelationship[];
+  capabilityInvocation?: DidVerificationRelationship[];
+  capabilityDelegation?: DidVerificationRelationship[];
+  service?: DidService[];
+  [property: string]: unknown;
 }
 
+/**
+ * Verification relationships a DID document can declare.
+ */
+export const DID_RELATIONSHIPS = [
+  "authentication",
+  "assertionMethod",
+  "keyAgreement",
+  "capabilityInvocation",
+  "capabilityDelegation",
+] as const;
+export type DidRelationship = (typeof DID_RELATIONSHIPS)[number];
+
 export const DidVerificationMethodSchema = z
   .object({
     id: z.string(),
     type: z.string(),
     controller: z.string(),
-    publicKeyJwk: z.custom<JsonWebKey>().transform((v) => v as JsonWebKey),
+    publicKeyJwk: z
+      .custom<JsonWebKey>((v) => typeof v === "object" && v !== null && !Array.isArray(v), "publicKeyJwk must be an object")
+      .optional(),
+    publicKeyMultibase: z.string().optional(),
   })
-  .strict();
+  .catchall(z.unknown());
+
+const DidServiceEndpointSchema = z.union([
+  z.string(),
+  z.record(z.string(), z.unknown()),
+  z.array(z.union([z.string(), z.record(z.string(), z.unknown())])),
+]);
+
+export const DidServiceSchema = z
+  .object({
+    id: z.string(),
+    type: z.union([z.string(), z.array(z.string())]),
+    serviceEndpoint: DidServiceEndpointSchema,
+  })
+  .catchall(z.unknown());
+
+const DidRelationshipSchema = z.array(z.union([z.string(), DidVerificationMethodSchema]));
 
 export const DidDocumentSchema = z
   .object({
+    "@context": z.union([z.string(), z.array(z.union([z.string(), z.record(z.string(), z.unknown())]))]).optional(),
     id: z.string(),
-    verificationMethod: z.array(DidVerificationMethodSchema),
-    authentication: z.array(z.string()),
+    controller: z.union([z.string(), z.array(z.string())]).optional(),
+    alsoKnownAs: z.array(z.string()).optional(),
+    verificationMethod: z.array(DidVerificationMethodSchema).default([]),
+    authentication: DidRelationshipSchema.default([]),
+    assertionMethod: DidRelationshipSchema.optional(),
+    keyAgreement: DidRelationshipSchema.optional(),
+    capabilityInvocation: DidRelationshipSchema.optional(),
+    capabilityDelegation: DidRelationshipSchema.optional(),
+    service: z.array(DidServiceSchema).optional(),
   })
   .catchall(z.unknown());
 
+/**
+ * @deprecated Produces a placeholder, not a resolvable did:wba. Use createDidWbaDocument.
+ */
 export function createDidFromPublicJwk(jwk: JsonWebKey): string {
   // did:wba:<fingerprint> (simple placeholder: hash the JWK JSON and encode)
   const json = JSON.stringify({ kty: jwk.kty, crv: (jwk as any).crv, x: jwk.x, y: jwk.y });
@@ -41,6 +131,9 @@ export function createDidFromPublicJwk(jwk: JsonWebKey): string {
   return `did:wba:${fp}`;
 }
 
+/**
+ * @deprecated Built on the placeholder DID from createDidFromPublicJwk. Use createDidWbaDocument.
+ */
 export function createDidDocument(publicKeyJwk: JsonWebKey): DidDocument {
   const did = createDidFromPublicJwk(publicKeyJwk);
   const vmId = `${did}#keys-1`;
@@ -49,17 +142,238 @@ export function createDidDocument(publicKeyJwk: JsonWebKey): DidDocument {
     verificationMethod: [
       {
         id: vmId,
-        type: "EcdsaSecp256k1VerificationKey2019",
+        type: publicKeyJwk.kty === "OKP" ? "Ed25519VerificationKey2020" : "EcdsaSecp256k1VerificationKey2019",
         controller: did,
         publicKeyJwk,
       },
     ],
     authentication: [vmId],
+    assertionMethod: [vmId],
   };
 }
 
+/**
+ * Find the verification method a key identifier refers to, including methods
+ * embedded in verification relationships.
+ *
+ * The identifier may be the full method id (`did:wba:example.com#key-1`), its
+ * fragment (`#key-1` or `key-1`), the JWK `kid`, or the key's RFC 7638 thumbprint.
+ * With `relationship`, only methods listed under that relationship are considered.
+ */
+export function findVerificationMethod(
+  document: DidDocument,
+  kid: string,
+  relationship?: DidRelationship
+): DidVerificationMethod | undefined {
+  const fragment = kid.startsWith("did:") ? kid : kid.startsWith("#") ? kid : `#${kid}`;
+  const methods = relationship ? getRelationshipMethods(document, relationship) : allVerificationMethods(document);
+  return (
+    methods.find((vm) => sameDidUrl(document.id, vm.id, fragment)) ??
+    methods.find((vm) => {
+      const jwk = tryVerificationMethodJwk(vm);
+      return jwk !== undefined && jwkMatchesKid(jwk, kid);
+    })
+  );
+}
+
+/**
+ * Check whether a verification method is listed (by reference or embedded) under a relationship.
+ */
+export function hasVerificationRelationship(
+  document: DidDocument,
+  method: DidVerificationMethod | string,
+  relationship: DidRelationship
+): boolean {
+  const id = typeof method === "string" ? method : method.id;
+  return (document[relationship] ?? []).some((entry) =>
+    sameDidUrl(document.id, typeof entry === "string" ? entry : entry.id, id)
+  );
+}
+
+/**
+ * Public key of a verification method as a JWK, decoding `publicKeyMultibase` when
+ * no `publicKeyJwk` is given.
+ *
+ * Fail Fast: throws if the method carries no supported key material.
+ */
+export function getVerificationMethodJwk(method: DidVerificationMethod): JsonWebKey {
+  if (method.publicKeyJwk) return method.publicKeyJwk;
+  if (method.publicKeyMultibase) return multibasePublicKeyToJwk(method.publicKeyMultibase);
+  throw new Error(`Verification method ${method.id} has no publicKeyJwk or publicKeyMultibase`);
+}
+
+function tryVerificationMethodJwk(method: DidVerificationMethod): JsonWebKey | undefined {
+  try {
+    return getVerificationMethodJwk(method);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a service has the given type (`type` may be a string or a set).
+ */
+export function serviceHasType(service: DidService, type: string): boolean {
+  return Array.isArray(service.type) ? service.type.includes(type) : service.type === type;
+}
+
+/**
+ * First URL among a service's endpoints; map-form endpoints are skipped.
+ */
+export function getServiceEndpointUrl(service: DidService): string | undefined {
+  const endpoints = Array.isArray(service.serviceEndpoint) ? service.serviceEndpoint : [service.serviceEndpoint];
+  return endpoints.find((endpoint): endpoint is string => typeof endpoint === "string");
+}
+
+/**
+ * Verification methods a document declares for a relationship, with references
+ * resolved against `verificationMethod`. Dangling references are skipped.
+ */
+export function getRelationshipMethods(document: DidDocument, relationship: DidRelationship): DidVerificationMethod[] {
+  return (document[relationship] ?? []).flatMap((entry) => {
+    if (typeof entry !== "string") return [entry];
+    const method = document.verificationMethod.find((vm) => sameDidUrl(document.id, vm.id, entry));
+    return method ? [method] : [];
+  });
+}
+
+/**
+ * Top-level and embedded verification methods, top-level first.
+ */
+function allVerificationMethods(document: DidDocument): DidVerificationMethod[] {
+  const embedded = DID_RELATIONSHIPS.flatMap((relationship) =>
+    (document[relationship] ?? []).filter((entry): entry is DidVerificationMethod => typeof entry !== "string")
+  );
+  return [...document.verificationMethod, ...embedded];
+}
+
+/**
+ * Compare two DID URLs that may each be absolute or relative (`#key-1`) to `did`.
+ */
+function sameDidUrl(did: string, a: string, b: string): boolean {
+  const absolute = (value: string) => (value.startsWith("#") || value.startsWith("?") ? `${did}${value}` : value);
+  return absolute(a) === absolute(b);
+}
+
+// ============================================
+// DID URL parsing and dereferencing
+// ============================================
+
+export interface ParsedDidUrl {
+  /** The DID without path, query or fragment */
+  did: string;
+  method: string;
+  /** Method-specific identifier */
+  id: string;
+  path?: string;
+  query?: string;
+  /** Decoded query parameters, e.g. `{ service: "agent" }` */
+  params: Record<string, string>;
+  fragment?: string;
+  /** The input DID URL */
+  didUrl: string;
+}
+
+const DID_URL_PATTERN =
+  /^did:([a-z0-9]+):((?:(?:[a-zA-Z0-9._-]|%[0-9a-fA-F]{2})*:)*(?:[a-zA-Z0-9._-]|%[0-9a-fA-F]{2})+)(\/[^?#]*)?(?:\?([^#]*))?(?:#(.*))?$/;
+
+/**
+ * Parse a DID URL such as `did:wba:example.com:user:alice#key-1` or
+ * `did:wba:example.com?service=agent&relativeRef=/rpc`.
+ *
+ * Fail Fast: throws InvalidDidUrlError on malformed input.
+ */
+export function parseDidUrl(didUrl: string): ParsedDidUrl {
+  const match = DID_URL_PATTERN.exec(didUrl);
+  if (!match) throw new InvalidDidUrlError(didUrl);
+
+  const [, method, id, path, query, fragment] = match as unknown as [string, string, string, string?, string?, string?];
+  const params: Record<string, string> = {};
+  try {
+    for (const [key, value] of new URLSearchParams(query ?? "")) params[key] = value;
+    if (fragment !== undefined) decodeURIComponent(fragment);
+  } catch {
+    throw new InvalidDidUrlError(didUrl, `Invalid DID URL encoding: ${didUrl}`);
+  }
+
+  const parsed: ParsedDidUrl = { did: `did:${method}:${id}`, method, id, params, didUrl };
+  if (path) parsed.path = path;
+  if (query !== undefined) parsed.query = query;
+  if (fragment !== undefined) parsed.fragment = fragment;
+  return parsed;
+}
+
+export type DereferencedResource =
+  | { kind: "didDocument"; didDocument: DidDocument }
+  | {
+      kind: "verificationMethod";
+      verificationMethod: DidVerificationMethod;
+      /** Relationships that reference or embed the method */
+      relationships: DidRelationship[];
+    }
+  | { kind: "service"; service: DidService; serviceEndpoint: string };
+
+/**
+ * Dereference a DID URL against an already resolved DID document.
+ *
+ * - `#fragment` selects a verification method (top-level or embedded in a
+ *   relationship) or a service
+ * - `?service=<id>` selects a service; `relativeRef` is appended to its endpoint
+ * - a bare DID returns the document itself
+ *
+ * Fail Fast: throws InvalidDidUrlError when the URL is malformed or names another DID,
+ * and DidUrlNotFoundError when nothing matches.
+ */
+export function dereferenceDidUrlInDocument(document: DidDocument, didUrl: string | ParsedDidUrl): DereferencedResource {
+  const parsed = typeof didUrl === "string" ? parseDidUrl(didUrl) : didUrl;
+  if (parsed.did !== document.id) {
+    throw new InvalidDidUrlError(parsed.didUrl, `DID URL ${parsed.didUrl} does not belong to ${document.id}`);
+  }
+
+  const serviceId = parsed.params["service"];
+  if (serviceId !== undefined) {
+    const service = document.service?.find((entry) => sameDidUrl(document.id, entry.id, `#${serviceId}`));
+    if (!service) throw new DidUrlNotFoundError(parsed.didUrl, `Service ${serviceId} not found in ${document.id}`);
+    const endpoint = requireServiceEndpointUrl(service, parsed.didUrl);
+    const relativeRef = parsed.params["relativeRef"];
+    const serviceEndpoint = relativeRef ? new URL(relativeRef, endpoint).toString() : endpoint;
+    return { kind: "service", service, serviceEndpoint };
+  }
+
+  if (parsed.fragment === undefined) {
+    return { kind: "didDocument", didDocument: document };
+  }
+
+  const target = `#${parsed.fragment}`;
+  const verificationMethod = allVerificationMethods(document).find((vm) => sameDidUrl(document.id, vm.id, target));
+  if (verificationMethod) {
+    const relationships = DID_RELATIONSHIPS.filter((relationship) =>
+      (document[relationship] ?? []).some((entry) =>
+        sameDidUrl(document.id, typeof entry === "string" ? entry : entry.id, target)
+      )
+    );
+    return { kind: "verificationMethod", verificationMethod, relationships };
+  }
+
+  const service = document.service?.find((entry) => sameDidUrl(document.id, entry.id, target));
+  if (service) {
+    return { kind: "service", service, serviceEndpoint: requireServiceEndpointUrl(service, parsed.didUrl) };
+  }
+
+  throw new DidUrlNotFoundError(parsed.didUrl, `Fragment #${parsed.fragment} not found in ${document.id}`);
+}
+
+function requireServiceEndpointUrl(service: DidService, didUrl: string): string {
+  const endpoint = getServiceEndpointUrl(service);
+  if (!endpoint) throw new DidUrlNotFoundError(didUrl, `Service ${service.id} has no URL endpoint`);
+  return endpoint;
+}
+
+/**
+ * Map a did:wba (or did:web, which uses the same rules) to the HTTPS URL of its document.
+ */
 export function didToURL(did: string): string {
-  if (!did.startsWith("did:wba:")) throw new Error("invalid DID");
+  if (!did.startsWith("did:wba:") && !did.startsWith("did:web:")) throw new Error("invalid DID");
   const parts = did.split(":");
   // did:wba:domain(:path:more)?
   const domain = decodeURIComponent(parts[2] || "");
@@ -74,3 +388,136 @@ export async function resolveDidDocument(did: string, httpClient: HttpClient = d
   return DidDocumentSchema.parse(res.data) as DidDocument;
 }
 
+// ============================================
+// did:wba generation
+// ============================================
+
+export type DidKeyType = "secp256k1" | "P-256" | "Ed25519" | "X25519";
+
+export interface DidWbaKeySpec {
+  type: DidKeyType;
+  /** Existing private JWK; a new key is generated when omitted */
+  privateKey?: JsonWebKey;
+}
+
+export interface CreateDidWbaDocumentOptions {
+  /** Host serving the DID document, without scheme or port (e.g. "example.com") */
+  hostname: string;
+  port?: number;
+  /** Optional path, e.g. "user/alice" gives did:wba:example.com:user:alice */
+  path?: string;
+  /** Keys to include; X25519 keys go to keyAgreement, all others to authentication and assertionMethod */
+  keys?: Array<DidKeyType | DidWbaKeySpec>;
+  /** Service entries; ids starting with "#" are made relative to the DID */
+  services?: DidService[];
+}
+
+export interface DidWbaDocumentResult {
+  did: string;
+  didDocument: DidDocument;
+  /** Private JWKs keyed by verification method fragment ("key-1", "key-2", ...) */
+  privateKeys: Record<string, JsonWebKey>;
+  /** HTTPS URL the document must be served from (see didToURL) */
+  documentUrl: string;
+}
+
+const DID_CONTEXT = "https://www.w3.org/ns/did/v1";
+
+const KEY_TYPES: Record<DidKeyType, { type: string; context: string; generate: () => Promise<{ privateKeyJwk: JsonWebKey }> }> = {
+  secp256k1: {
+    type: "EcdsaSecp256k1VerificationKey2019",
+    context: "https://w3id.org/security/suites/secp256k1-2019/v1",
+    generate: generateSecp256k1KeyPair,
+  },
+  "P-256": {
+    type: "JsonWebKey2020",
+    context: "https://w3id.org/security/suites/jws-2020/v1",
+    generate: generateP256KeyPair,
+  },
+  Ed25519: {
+    type: "Ed25519VerificationKey2020",
+    context: "https://w3id.org/security/suites/ed25519-2020/v1",
+    generate: generateEd25519KeyPair,
+  },
+  X25519: {
+    type: "X25519KeyAgreementKey2019",
+    context: "https://w3id.org/security/suites/x25519-2019/v1",
+    generate: generateX25519KeyPair,
+  },
+};
+
+/**
+ * Build a did:wba DID from its hosting location.
+ *
+ * The port is percent-encoded into the host segment and the path becomes
+ * colon-separated segments, e.g. `did:wba:example.com%3A8800:user:alice`.
+ *
+ * Fail Fast: throws on a hostname containing a scheme, port or path.
+ */
+export function createDidWba(hostname: string, port?: number, path?: string): string {
+  if (!hostname || /[/:@?#\s]/.test(hostname)) throw new Error(`Invalid hostname: ${hostname}`);
+  const host = port === undefined ? hostname : `${hostname}%3A${port}`;
+  const segments = (path ?? "")
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => encodeURIComponent(segment));
+  return ["did:wba", host, ...segments].join(":");
+}
+
+/**
+ * Generate a did:wba DID, its DID document and the private keys behind it.
+ *
+ * Defaults to one secp256k1 authentication key and one X25519 key agreement key.
+ *
+ * @example
+ * ```typescript
+ * const { did, didDocument, privateKeys, documentUrl } = await createDidWbaDocument({
+ *   hostname: "example.com",
+ *   port: 8800,
+ *   path: "user/alice",
+ * });
+ * // did         = "did:wba:example.com%3A8800:user:alice"
+ * // documentUrl = "https://example.com:8800/user/alice/did.json"
+ * ```
+ */
+export async function createDidWbaDocument(options: CreateDidWbaDocumentOptions): Promise<DidWbaDocumentResult> {
+  const did = createDidWba(options.hostname, options.port, options.path);
+  const specs = (options.keys ?? ["secp256k1", "X25519"]).map((key) => (typeof key === "string" ? { type: key } : key));
+  if (specs.length === 0) throw new Error("At least one key is required");
+
+  const contexts = new Set([DID_CONTEXT]);
+  const verificationMethod: DidDocument["verificationMethod"] = [];
+  const authentication: string[] = [];
+  const keyAgreement: string[] = [];
+  const privateKeys: Record<string, JsonWebKey> = {};
+
+  for (const [index, spec] of specs.entries()) {
+    const keyType = KEY_TYPES[spec.type];
+    const privateKeyJwk = spec.privateKey ?? (await keyType.generate()).privateKeyJwk;
+    const { d: _d, key_ops: _ops, ext: _ext, ...publicKeyJwk } = privateKeyJwk;
+    const fragment = `key-${index + 1}`;
+    const id = `${did}#${fragment}`;
+
+    contexts.add(keyType.context);
+    verificationMethod.push({ id, type: keyType.type, controller: did, publicKeyJwk });
+    (spec.type === "X25519" ? keyAgreement : authentication).push(id);
+    privateKeys[fragment] = privateKeyJwk;
+  }
+
+  const didDocument: DidDocument = {
+    "@context": Array.from(contexts),
+    id: did,
+    verificationMethod,
+    authentication,
+  };
+  if (authentication.length > 0) didDocument.assertionMethod = [...authentication];
+  if (keyAgreement.length > 0) didDocument.keyAgreement = keyAgreement;
+  if (options.services?.length) {
+    didDocument.service = options.services.map((service) => ({
+      ...service,
+      id: service.id.startsWith("#") ? `${did}${service.id}` : service.id,
+    }));
+  }
+
+  return { did, didDocument, privateKeys, documentUrl: didToURL(did) };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import {
+  computeContentDigest,
+  computeContentDigestFromStream,
+  parseContentDigest,
+  verifyContentDigest,
+} from "@/core/digest.js";
+
+// RFC 9530 appendix B.1
+const BODY = '{"hello": "world"}\n';
+const SHA256 = "sha-256=:RK/0qy18MlBSVnWgjwz6lZEWjP/lF5HF9bvEF8FabDg=:";
+const SHA512 = "sha-512=:YMAam51Jz/jOATT6/zvHrLVgOYTGFy1d6GJiOHTohq4yP+pgk4vf2aCsyRZOtw8MjkM7iw7yZ/WkppmM44T3qg==:";
+
+describe("computeContentDigest", () => {
+  test("matches the RFC 9530 examples", () => {
+    expect(computeContentDigest(BODY)).toBe(SHA256);
+    expect(computeContentDigest(BODY, "sha-512")).toBe(SHA512);
+  });
+
+  test("digests strings, bytes and buffers alike", () => {
+    const bytes = new TextEncoder().encode(BODY);
+    expect(computeContentDigest(bytes)).toBe(SHA256);
+    expect(computeContentDigest(bytes.buffer)).toBe(SHA256);
+  });
+
+  test("digests streams without buffering", async () => {
+    const bytes = new TextEncoder().encode(BODY);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 5));
+        controller.enqueue(bytes.slice(5));
+        controller.close();
+      },
+    });
+    expect(await computeContentDigestFromStream(stream)).toBe(SHA256);
+  });
+});
+
+describe("verifyContentDigest", () => {
+  test("accepts matching digests", () => {
+    expect(verifyContentDigest(SHA256, BODY)).toBe(true);
+    expect(verifyContentDigest(`${SHA512}, ${SHA256}`, BODY)).toBe(true);
+    // Unknown algorithms are skipped
+    expect(verifyContentDigest(`md5=:AAAA:, ${SHA256}`, BODY)).toBe(true);
+  });
+
+  test("rejects a different body", () => {
+    expect(verifyContentDigest(SHA256, '{"hello": "mallory"}\n')).toBe(false);
+    expect(verifyContentDigest(SHA256, "")).toBe(false);
+  });
+
+  test("rejects when any supported digest differs", () => {
+    const other = computeContentDigest("other", "sha-512");
+    expect(verifyContentDigest(`${SHA256}, ${other}`, BODY)).toBe(false);
+  });
+
+  test("rejects malformed or unsupported headers", () => {
+    expect(verifyContentDigest("md5=:AAAA:", BODY)).toBe(false);
+    expect(verifyContentDigest("sha-256=RK/0qy18", BODY)).toBe(false);
+    expect(() => parseContentDigest("sha-256")).toThrow("Malformed Content-Digest member");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Content-Digest (RFC 9530)
+ *
+ * Digests of the raw request or response body, e.g.
+ * `Content-Digest: sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:`.
+ * Signing the digest binds any body (JSON, text, binary, multipart) to a signature
+ * without canonicalizing it.
+ *
+ * @packageDocumentation
+ */
+
+import { sha256, sha512 } from "@/core/hash.js";
+import { base64Decode, base64Encode } from "@/core/utils.js";
+
+export type ContentDigestAlgorithm = "sha-256" | "sha-512";
+
+/**
+ * Raw body bytes; strings are UTF-8 encoded.
+ */
+export type DigestBody = string | Uint8Array | ArrayBuffer;
+
+const HASHES = { "sha-256": sha256, "sha-512": sha512 } as const;
+
+function toBytes(body: DigestBody): Uint8Array {
+  if (typeof body === "string") return new TextEncoder().encode(body);
+  return body instanceof Uint8Array ? body : new Uint8Array(body);
+}
+
+function isSupported(algorithm: string): algorithm is ContentDigestAlgorithm {
+  return algorithm in HASHES;
+}
+
+/**
+ * Compute a Content-Digest header value over the raw body.
+ */
+export function computeContentDigest(body: DigestBody, algorithm: ContentDigestAlgorithm = "sha-256"): string {
+  return formatContentDigest(algorithm, HASHES[algorithm](toBytes(body)));
+}
+
+/**
+ * Compute a Content-Digest over a body stream without buffering it.
+ */
+export async function computeContentDigestFromStream(
+  stream: ReadableStream<Uint8Array>,
+  algorithm: ContentDigestAlgorithm = "sha-256"
+): Promise<string> {
+  const hasher = HASHES[algorithm].create();
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hasher.update(value);
+  }
+  return formatContentDigest(algorithm, hasher.digest());
+}
+
+function formatContentDigest(algorithm: ContentDigestAlgorithm, digest: Uint8Array): string {
+  return `${algorithm}=:${base64Encode(digest)}:`;
+}
+
+/**
+ * Parse a Content-Digest header into algorithm → digest bytes.
+ *
+ * Unknown algorithms are kept so callers can tell them apart from malformed values.
+ *
+ * Fail Fast: throws on malformed dictionary members.
+ */
+export function parseContentDigest(header: string): Map<string, Uint8Array> {
+  const digests = new Map<string, Uint8Array>();
+  for (const member of header.split(",")) {
+    const match = member.trim().match(/^([a-z0-9_\-.*]+)=:([A-Za-z0-9+/]*={0,2}):$/);
+    if (!match) throw new Error(`Malformed Content-Digest member: ${member.trim()}`);
+    digests.set(match[1]!, base64Decode(match[2]!));
+  }
+  return digests;
+}
+
+/**
+ * Check a Content-Digest header against the raw body.
+ *
+ * Every supported algorithm present must match, and at least one must be supported.
+ */
+export function verifyContentDigest(header: string, body: DigestBody): boolean {
+  let digests: Map<string, Uint8Array>;
+  try {
+    digests = parseContentDigest(header);
+  } catch {
+    return false;
+  }
+
+  const bytes = toBytes(body);
+  let checked = 0;
+  for (const [algorithm, expected] of digests) {
+    if (!isSupported(algorithm)) continue;
+    if (!equalBytes(HASHES[algorithm](bytes), expected)) return false;
+    checked++;
+  }
+  return checked > 0;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i]! ^ b[i]!;
+  return diff === 0;
+}
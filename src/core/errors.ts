@@ -0,0 +1,57 @@
+/**
+ * Core Error Classes
+ * @packageDocumentation
+ */
+
+/**
+ * Base error for DID parsing, resolution and dereferencing
+ */
+export class DidError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "DidError";
+  }
+}
+
+/**
+ * DID resolution failed; `code` is the W3C resolution error (notFound, invalidDid, ...)
+ */
+export class DidResolutionError extends DidError {
+  constructor(
+    public readonly did: string,
+    code: string,
+    message?: string
+  ) {
+    super(code, message ?? `Failed to resolve ${did}: ${code}`);
+    this.name = "DidResolutionError";
+  }
+}
+
+/**
+ * Malformed DID URL
+ */
+export class InvalidDidUrlError extends DidError {
+  constructor(
+    public readonly didUrl: string,
+    message?: string
+  ) {
+    super("invalidDidUrl", message ?? `Invalid DID URL: ${didUrl}`);
+    this.name = "InvalidDidUrlError";
+  }
+}
+
+/**
+ * DID URL fragment or service parameter does not match anything in the DID document
+ */
+export class DidUrlNotFoundError extends DidError {
+  constructor(
+    public readonly didUrl: string,
+    message?: string
+  ) {
+    super("notFound", message ?? `Nothing in the DID document matches ${didUrl}`);
+    this.name = "DidUrlNotFoundError";
+  }
+}
@@ -1,4 +1,4 @@
-import { sha256 as nobleSha256 } from "@noble/hashes/sha2.js";
+import { sha256 as nobleSha256, sha512 as nobleSha512 } from "@noble/hashes/sha2.js";
 
 /**
  * Thin wrapper around the noble SHA-256 implementation to keep a single import site.
@@ -7,4 +7,7 @@ export const sha256 = nobleSha256;
 
 export type Sha256 = typeof sha256;
 
-
+/**
+ * SHA-512, used for `sha-512` Content-Digest values.
+ */
+export const sha512 = nobleSha512;
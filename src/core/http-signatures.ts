@@ -0,0 +1,481 @@
+/**
+ * HTTP Message Signatures (RFC 9421)
+ *
+ * Signs and verifies requests through the standard `Signature-Input` / `Signature`
+ * headers over selected components (`@method`, `@target-uri`, `content-digest`,
+ * `authorization`, ...). The `keyid` parameter carries the signer's verification
+ * method DID URL, so verifiers resolve keys from DID documents.
+ *
+ * @packageDocumentation
+ */
+
+import { verifyWithJwk } from "@/core/algorithms.js";
+import { toSigner, type Signer } from "@/core/signer.js";
+import { base64Decode, base64Encode, base64urlEncode } from "@/core/utils.js";
+
+/**
+ * The parts of an HTTP request a signature can cover.
+ */
+export interface HttpSignatureMessage {
+  method: string;
+  /** Absolute request URL */
+  url: string;
+  headers: Record<string, string> | Headers;
+}
+
+export interface SignatureParameters {
+  /** Creation time, in seconds since the epoch */
+  created?: number;
+  /** Expiry time, in seconds since the epoch */
+  expires?: number;
+  nonce?: string;
+  /** Signing algorithm name from the RFC 9421 registry */
+  alg?: string;
+  keyid?: string;
+  tag?: string;
+}
+
+/**
+ * One entry of `Signature-Input`: the covered components and signature parameters.
+ */
+export interface SignatureInput {
+  components: string[];
+  params: SignatureParameters;
+  /**
+   * The member as received in `Signature-Input` (inner list and parameters). Signature
+   * bases use it verbatim as `@signature-params`, so parameters not modelled in `params`
+   * stay covered.
+   */
+  serialized?: string;
+}
+
+export interface SignHttpMessageOptions extends Omit<SignatureParameters, "alg"> {
+  /** Signature label (default: "sig1") */
+  label?: string;
+  /** Covered components (default: `@method`, `@target-uri`, plus `content-digest` and `authorization` if present) */
+  components?: string[];
+  keyid: string;
+}
+
+export interface SignedHttpMessageHeaders {
+  "Signature-Input": string;
+  Signature: string;
+}
+
+/**
+ * Derived components supported in signature bases.
+ */
+export const DERIVED_COMPONENTS = [
+  "@method",
+  "@target-uri",
+  "@authority",
+  "@scheme",
+  "@request-target",
+  "@path",
+  "@query",
+] as const;
+
+// ============================================
+// Signing
+// ============================================
+
+/**
+ * Sign a request. Returns the `Signature-Input` and `Signature` headers to add.
+ *
+ * `alg` is set from the key type where RFC 9421 registers one (ecdsa-p256-sha256,
+ * ed25519, rsa-v1_5-sha256); secp256k1 signatures omit it and are identified by keyid.
+ * `privateKey` may be a Signer for keys held outside the process.
+ *
+ * Fail Fast: throws if a covered header is missing.
+ */
+export async function signHttpMessage(
+  message: HttpSignatureMessage,
+  privateKey: JsonWebKey | Signer,
+  options: SignHttpMessageOptions
+): Promise<SignedHttpMessageHeaders> {
+  const signer = toSigner(privateKey);
+  const label = options.label ?? "sig1";
+  const components =
+    options.components ??
+    ["@method", "@target-uri", "content-digest", "authorization"].filter(
+      (component) => component.startsWith("@") || getHeader(message.headers, component) !== undefined
+    );
+
+  const params: SignatureParameters = { created: options.created ?? Math.floor(Date.now() / 1000) };
+  if (options.expires !== undefined) params.expires = options.expires;
+  if (options.nonce !== undefined) params.nonce = options.nonce;
+  const alg = httpSignatureAlgorithmForJwk(signer.publicJwk);
+  if (alg) params.alg = alg;
+  params.keyid = options.keyid;
+  if (options.tag !== undefined) params.tag = options.tag;
+
+  const input: SignatureInput = { components, params };
+  const base = createSignatureBase(message, input);
+  const signature = await signer.sign(new TextEncoder().encode(base));
+
+  return {
+    "Signature-Input": `${label}=${serializeSignatureInput(input)}`,
+    Signature: `${label}=:${base64Encode(signature)}:`,
+  };
+}
+
+// ============================================
+// Verification
+// ============================================
+
+export interface VerifyHttpMessageOptions {
+  /** Signature label to verify (default: the first one in `Signature-Input`) */
+  label?: string;
+  /** Components that must be covered (default: `@method` and `@target-uri`) */
+  requiredComponents?: string[];
+  /** Reject signatures created longer ago than this, in seconds */
+  maxAge?: number;
+  /** Tolerated clock skew for `created` / `expires`, in seconds (default: 60) */
+  clockSkew?: number;
+  /** Accept high-S ECDSA signatures (default: false, see SignatureVerifyOptions) */
+  allowHighS?: boolean;
+}
+
+export interface VerifiedHttpMessage {
+  label: string;
+  input: SignatureInput;
+  keyid: string;
+}
+
+export type HttpSignatureErrorCode =
+  | "invalidHeader"
+  | "missingComponent"
+  | "expired"
+  | "futureTimestamp"
+  | "keyNotFound"
+  | "invalidSignature";
+
+/**
+ * Error raised for malformed or failing HTTP message signatures.
+ *
+ * `code` tells invalid input apart from expired or forged signatures.
+ */
+export class HttpSignatureError extends Error {
+  constructor(
+    public readonly code: HttpSignatureErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpSignatureError";
+  }
+}
+
+/**
+ * Verify a request's RFC 9421 signature. `resolveKey` maps the `keyid` (and `alg`, if
+ * present) to a public JWK, e.g. by dereferencing the DID URL; it may throw
+ * HttpSignatureError("keyNotFound", ...) for unknown keys.
+ *
+ * Fail Fast: throws HttpSignatureError when the signature is malformed, stale or invalid.
+ */
+export async function verifyHttpMessage(
+  message: HttpSignatureMessage,
+  resolveKey: (keyid: string, alg: string | undefined) => Promise<JsonWebKey>,
+  options: VerifyHttpMessageOptions = {}
+): Promise<VerifiedHttpMessage> {
+  const inputHeader = getHeader(message.headers, "signature-input");
+  const signatureHeader = getHeader(message.headers, "signature");
+  if (!inputHeader || !signatureHeader) {
+    throw new HttpSignatureError("invalidHeader", "Missing Signature-Input or Signature header");
+  }
+
+  let inputs: Map<string, SignatureInput>;
+  let signatures: Map<string, Uint8Array>;
+  try {
+    inputs = parseSignatureInput(inputHeader);
+    signatures = parseSignature(signatureHeader);
+  } catch (error) {
+    throw new HttpSignatureError("invalidHeader", error instanceof Error ? error.message : String(error));
+  }
+
+  const label = options.label ?? inputs.keys().next().value;
+  const input = label === undefined ? undefined : inputs.get(label);
+  const signature = label === undefined ? undefined : signatures.get(label);
+  if (label === undefined || !input || !signature) {
+    throw new HttpSignatureError("invalidHeader", `No signature labelled ${options.label ?? "in request"}`);
+  }
+  if (!input.params.keyid) {
+    throw new HttpSignatureError("invalidHeader", "Signature has no keyid");
+  }
+
+  for (const component of options.requiredComponents ?? ["@method", "@target-uri"]) {
+    if (!input.components.includes(component)) {
+      throw new HttpSignatureError("missingComponent", `Signature does not cover ${component}`);
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const skew = options.clockSkew ?? 60;
+  const { created, expires } = input.params;
+  if (created !== undefined && created > now + skew) {
+    throw new HttpSignatureError("futureTimestamp", "Signature created in the future");
+  }
+  if (expires !== undefined && expires < now - skew) {
+    throw new HttpSignatureError("expired", "Signature has expired");
+  }
+  if (options.maxAge !== undefined && (created === undefined || created < now - options.maxAge - skew)) {
+    throw new HttpSignatureError("expired", "Signature is too old");
+  }
+
+  let base: string;
+  try {
+    base = createSignatureBase(message, input);
+  } catch (error) {
+    throw new HttpSignatureError("missingComponent", error instanceof Error ? error.message : String(error));
+  }
+
+  const publicKey = await resolveKey(input.params.keyid, input.params.alg);
+  const expectedAlg = httpSignatureAlgorithmForJwk(publicKey);
+  if (input.params.alg !== undefined && input.params.alg !== expectedAlg) {
+    throw new HttpSignatureError("invalidSignature", `Algorithm ${input.params.alg} does not match the key`);
+  }
+  const valid = await verifyWithJwk(publicKey, new TextEncoder().encode(base), base64urlEncode(signature), {
+    allowHighS: options.allowHighS ?? false,
+  });
+  if (!valid) {
+    throw new HttpSignatureError("invalidSignature", "HTTP message signature verification failed");
+  }
+
+  return { label, input, keyid: input.params.keyid };
+}
+
+// ============================================
+// Signature base (RFC 9421 §2.5)
+// ============================================
+
+/**
+ * Build the signature base: one line per covered component, then `@signature-params`.
+ *
+ * Fail Fast: throws on unsupported derived components or missing headers.
+ */
+export function createSignatureBase(message: HttpSignatureMessage, input: SignatureInput): string {
+  const lines = input.components.map((component) => {
+    const value = component.startsWith("@")
+      ? derivedComponentValue(message, component)
+      : getHeader(message.headers, component);
+    if (value === undefined) throw new Error(`Covered header ${component} is missing`);
+    return `"${component}": ${value}`;
+  });
+  lines.push(`"@signature-params": ${input.serialized ?? serializeSignatureInput(input)}`);
+  return lines.join("\n");
+}
+
+function derivedComponentValue(message: HttpSignatureMessage, component: string): string {
+  const url = new URL(message.url);
+  switch (component) {
+    case "@method":
+      return message.method.toUpperCase();
+    case "@target-uri":
+      return url.href;
+    case "@authority":
+      return url.host.toLowerCase();
+    case "@scheme":
+      return url.protocol.slice(0, -1).toLowerCase();
+    case "@request-target":
+      return `${url.pathname}${url.search}`;
+    case "@path":
+      return url.pathname;
+    case "@query":
+      return url.search || "?";
+    default:
+      throw new Error(`Unsupported derived component: ${component}`);
+  }
+}
+
+function getHeader(headers: Record<string, string> | Headers, name: string): string | undefined {
+  if (headers instanceof Headers) return headers.get(name)?.trim() ?? undefined;
+  const key = Object.keys(headers).find((candidate) => candidate.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key]?.trim();
+}
+
+/**
+ * RFC 9421 algorithm name for a key, if one is registered for its type.
+ */
+export function httpSignatureAlgorithmForJwk(jwk: JsonWebKey): string | undefined {
+  if (jwk.kty === "EC" && jwk.crv === "P-256") return "ecdsa-p256-sha256";
+  if (jwk.kty === "OKP" && jwk.crv === "Ed25519") return "ed25519";
+  if (jwk.kty === "RSA") return "rsa-v1_5-sha256";
+  return undefined;
+}
+
+// ============================================
+// Structured fields (RFC 8941 subset)
+// ============================================
+
+export function serializeSignatureInput(input: SignatureInput): string {
+  const components = input.components.map(serializeString).join(" ");
+  const params = Object.entries(input.params)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => (typeof value === "number" ? `;${name}=${value}` : `;${name}=${serializeString(value)}`))
+    .join("");
+  return `(${components})${params}`;
+}
+
+/**
+ * Serialize an sf-string (RFC 8941 §4.1.6).
+ *
+ * Fail Fast: throws on characters outside printable ASCII.
+ */
+function serializeString(value: string): string {
+  if (!/^[\x20-\x7e]*$/.test(value)) throw new Error(`Cannot serialize ${JSON.stringify(value)} as a string`);
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Parse a `Signature-Input` dictionary.
+ *
+ * Fail Fast: throws on malformed input or parameterized components.
+ */
+export function parseSignatureInput(header: string): Map<string, SignatureInput> {
+  const result = new Map<string, SignatureInput>();
+  const parser = new FieldParser(header);
+  for (const label of parser.dictionaryKeys()) {
+    const start = parser.position;
+    parser.expect("(");
+    const components: string[] = [];
+    for (;;) {
+      parser.skipSpaces();
+      if (parser.consume(")")) break;
+      components.push(parser.string());
+      if (parser.peek() === ";") throw new Error("Parameterized components are not supported");
+    }
+    const params: SignatureParameters = {};
+    for (const [name, value] of parser.parameters()) {
+      if (name === "created" || name === "expires") {
+        if (typeof value !== "number") throw new Error(`Signature parameter ${name} must be an integer`);
+        params[name] = value;
+      } else if (name === "nonce" || name === "alg" || name === "keyid" || name === "tag") {
+        if (typeof value !== "string") throw new Error(`Signature parameter ${name} must be a string`);
+        params[name] = value;
+      }
+    }
+    result.set(label, { components, params, serialized: header.slice(start, parser.position) });
+  }
+  return result;
+}
+
+/**
+ * Parse a `Signature` dictionary of byte sequences.
+ *
+ * Fail Fast: throws on malformed input.
+ */
+export function parseSignature(header: string): Map<string, Uint8Array> {
+  const result = new Map<string, Uint8Array>();
+  const parser = new FieldParser(header);
+  for (const label of parser.dictionaryKeys()) {
+    result.set(label, parser.byteSequence());
+    parser.parameters();
+  }
+  return result;
+}
+
+/**
+ * Minimal RFC 8941 parser for the dictionary shapes used by RFC 9421.
+ */
+class FieldParser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  get position(): number {
+    return this.pos;
+  }
+
+  /**
+   * Iterate dictionary member keys; the caller parses each member's value.
+   */
+  *dictionaryKeys(): Generator<string> {
+    this.skipSpaces();
+    while (this.pos < this.input.length) {
+      const key = this.key();
+      this.expect("=");
+      yield key;
+      this.skipSpaces();
+      if (this.pos >= this.input.length) return;
+      this.expect(",");
+      this.skipSpaces();
+    }
+  }
+
+  parameters(): Array<[string, string | number | boolean]> {
+    const params: Array<[string, string | number | boolean]> = [];
+    while (this.consume(";")) {
+      this.skipSpaces();
+      const name = this.key();
+      params.push([name, this.consume("=") ? this.bareItem() : true]);
+    }
+    return params;
+  }
+
+  string(): string {
+    this.expect('"');
+    let out = "";
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos++]!;
+      if (char === "\\") {
+        const next = this.input[this.pos++];
+        if (next !== '"' && next !== "\\") throw new Error("Invalid escape in string");
+        out += next;
+      } else if (char === '"') {
+        return out;
+      } else {
+        out += char;
+      }
+    }
+    throw new Error("Unterminated string");
+  }
+
+  byteSequence(): Uint8Array {
+    this.expect(":");
+    const end = this.input.indexOf(":", this.pos);
+    if (end < 0) throw new Error("Unterminated byte sequence");
+    const value = this.input.slice(this.pos, end);
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value)) throw new Error("Invalid byte sequence");
+    this.pos = end + 1;
+    return base64Decode(value);
+  }
+
+  peek(): string | undefined {
+    return this.input[this.pos];
+  }
+
+  consume(char: string): boolean {
+    if (this.input[this.pos] !== char) return false;
+    this.pos++;
+    return true;
+  }
+
+  expect(char: string): void {
+    if (!this.consume(char)) throw new Error(`Expected '${char}' at position ${this.pos}`);
+  }
+
+  skipSpaces(): void {
+    while (this.input[this.pos] === " " || this.input[this.pos] === "\t") this.pos++;
+  }
+
+  private key(): string {
+    const match = /^[a-z*][a-z0-9_\-.*]*/.exec(this.input.slice(this.pos));
+    if (!match) throw new Error(`Expected key at position ${this.pos}`);
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private bareItem(): string | number | boolean {
+    const char = this.peek();
+    if (char === '"') return this.string();
+    if (char === "?") {
+      this.pos++;
+      const value = this.input[this.pos++];
+      if (value !== "0" && value !== "1") throw new Error("Invalid boolean");
+      return value === "1";
+    }
+    const match = /^(-?\d+|[A-Za-z*][A-Za-z0-9:/!#$%&'*+\-.^_`|~]*)/.exec(this.input.slice(this.pos));
+    if (!match) throw new Error(`Invalid parameter value at position ${this.pos}`);
+    this.pos += match[0].length;
+    return /^-?\d+$/.test(match[0]) ? Number(match[0]) : match[0];
+  }
+}
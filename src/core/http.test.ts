@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createAuthenticatedFetch,
+  createAuthenticatedHttpClient,
+  createHttpClient,
+  type FetchLike,
+  type RequestAuthenticator,
+} from "@/core/http.js";
+
+/** Signs with a counter and keeps one token per origin, like the Authenticator */
+function stubAuthenticator() {
+  const tokens = new Map<string, string>();
+  const calls: Array<{ method: string; url: string; body: unknown; forceNew: boolean }> = [];
+  let signatures = 0;
+  const authenticator: RequestAuthenticator = {
+    async getRequestHeaders(method, url, body, options = {}) {
+      calls.push({ method, url, body, forceNew: options.forceNew ?? false });
+      const token = tokens.get(new URL(url).origin);
+      if (token && !options.forceNew) return { Authorization: `Bearer ${token}` };
+      return { Authorization: `DIDWba signature="${++signatures}"` };
+    },
+    updateToken(url, headers) {
+      const value = new Headers(headers).get("authorization");
+      if (value?.startsWith("Bearer ")) tokens.set(new URL(url).origin, value.slice(7));
+    },
+    clearToken(url) {
+      tokens.delete(new URL(url).origin);
+    },
+  };
+  return { authenticator, calls, tokens };
+}
+
+/** Issues token "t1" to signed requests and accepts only the tokens in `valid` */
+function stubServer(valid = new Set(["t1"])) {
+  const seen: Array<{ url: string; authorization: string | null; body: string }> = [];
+  const fetchImpl: FetchLike = async (url, init = {}) => {
+    const request = new Request(url, init);
+    const authorization = request.headers.get("authorization");
+    seen.push({ url: request.url, authorization, body: await request.text() });
+    if (authorization?.startsWith("Bearer ")) {
+      return new Response("{}", { status: valid.has(authorization.slice(7)) ? 200 : 401 });
+    }
+    return new Response("{}", { headers: authorization ? { Authorization: "Bearer t1" } : {} });
+  };
+  return { fetchImpl, seen, valid };
+}
+
+describe("createAuthenticatedFetch", () => {
+  test("only authenticates the configured domains", async () => {
+    const { authenticator } = stubAuthenticator();
+    const server = stubServer();
+    const authFetch = createAuthenticatedFetch(authenticator, {
+      domains: ["agent.example.com", "*.agents.example"],
+      fetchImpl: server.fetchImpl,
+    });
+    await authFetch("https://agent.example.com/rpc");
+    await authFetch("https://eu.agents.example/rpc");
+    await authFetch("https://agents.example/rpc");
+    await authFetch("https://other.example.com/rpc");
+    expect(server.seen.map(({ authorization }) => authorization !== null)).toEqual([true, true, false, false]);
+  });
+
+  test("authenticates nothing with no domains", async () => {
+    const { authenticator, calls } = stubAuthenticator();
+    const server = stubServer();
+    const authFetch = createAuthenticatedFetch(authenticator, { domains: [], fetchImpl: server.fetchImpl });
+    await authFetch("https://agent.example.com/rpc", { method: "POST", body: "{}" });
+    expect(calls).toHaveLength(0);
+    expect(server.seen[0]?.authorization).toBeNull();
+  });
+
+  test("captures the issued token and reuses it", async () => {
+    const { authenticator, tokens } = stubAuthenticator();
+    const server = stubServer();
+    const authFetch = createAuthenticatedFetch(authenticator, { domains: ["agent.example.com"], fetchImpl: server.fetchImpl });
+
+    await authFetch("https://agent.example.com/rpc", { method: "POST", body: '{"a":1}' });
+    expect(tokens.get("https://agent.example.com")).toBe("t1");
+    const response = await authFetch("https://agent.example.com/rpc", { method: "POST", body: '{"a":2}' });
+    expect(response.status).toBe(200);
+    expect(server.seen.map(({ authorization }) => authorization)).toEqual(['DIDWba signature="1"', "Bearer t1"]);
+    expect(server.seen[1]?.body).toBe('{"a":2}');
+  });
+
+  test("signs again once when a token is rejected", async () => {
+    const { authenticator, calls, tokens } = stubAuthenticator();
+    const server = stubServer(new Set());
+    tokens.set("https://agent.example.com", "revoked");
+    const authFetch = createAuthenticatedFetch(authenticator, { domains: ["agent.example.com"], fetchImpl: server.fetchImpl });
+
+    const response = await authFetch("https://agent.example.com/rpc", { method: "POST", body: "{}" });
+    expect(response.status).toBe(200);
+    expect(calls.map(({ forceNew }) => forceNew)).toEqual([false, true]);
+    expect(server.seen.map(({ authorization, body }) => [authorization, body])).toEqual([
+      ["Bearer revoked", "{}"],
+      ['DIDWba signature="1"', "{}"],
+    ]);
+    // The replacement token from the signed retry is kept
+    expect(tokens.get("https://agent.example.com")).toBe("t1");
+  });
+
+  test("does not retry a rejected signature", async () => {
+    const { authenticator, calls } = stubAuthenticator();
+    const fetchImpl: FetchLike = async () => new Response("", { status: 401 });
+    const authFetch = createAuthenticatedFetch(authenticator, { domains: ["agent.example.com"], fetchImpl });
+    expect((await authFetch("https://agent.example.com/rpc")).status).toBe(401);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("createAuthenticatedHttpClient", () => {
+  test("signs the full URL and JSON body it sends", async () => {
+    const { authenticator, calls } = stubAuthenticator();
+    const server = stubServer();
+    const httpClient = createAuthenticatedHttpClient(createHttpClient({ fetchImpl: server.fetchImpl }), authenticator, {
+      domains: ["agent.example.com"],
+    });
+
+    await httpClient.request("https://agent.example.com/rpc", "POST", { query: { id: 7 }, body: { a: 1 } });
+    expect(calls).toEqual([{ method: "POST", url: "https://agent.example.com/rpc?id=7", body: '{"a":1}', forceNew: false }]);
+    expect(server.seen[0]).toEqual({
+      url: "https://agent.example.com/rpc?id=7",
+      authorization: 'DIDWba signature="1"',
+      body: '{"a":1}',
+    });
+  });
+
+  test("passes other domains through unchanged", async () => {
+    const { authenticator, calls } = stubAuthenticator();
+    const server = stubServer();
+    const httpClient = createAuthenticatedHttpClient(createHttpClient({ fetchImpl: server.fetchImpl }), authenticator, {
+      domains: ["agent.example.com"],
+    });
+    await httpClient.request("https://other.example.com/ad.json", "GET");
+    expect(calls).toHaveLength(0);
+    expect(server.seen[0]?.authorization).toBeNull();
+  });
+});
@@ -7,8 +7,16 @@ export interface HttpRequestOptions {
   timeoutMs?: number;
 }
 
+export interface HttpResponse<T = unknown> {
+  status: number;
+  headers: Record<string, string>;
+  data: T;
+  /** Final URL of the response, after redirects (when the client knows it) */
+  url?: string;
+}
+
 export interface HttpClient {
-  request<T = unknown>(url: string, method: HttpMethod, options?: HttpRequestOptions): Promise<{ status: number; headers: Record<string, string>; data: T }>;
+  request<T = unknown>(url: string, method: HttpMethod, options?: HttpRequestOptions): Promise<HttpResponse<T>>;
 }
 
 /**
@@ -109,7 +117,7 @@ async function parseResponseBody<T>(response: Response, method: HttpMethod): Pro
 class FetchHttpClient implements HttpClient {
   constructor(private readonly config: FetchHttpClientConfig = {}) { }
 
-  async request<T = unknown>(url: string, method: HttpMethod, options: HttpRequestOptions = {}): Promise<{ status: number; headers: Record<string, string>; data: T }> {
+  async request<T = unknown>(url: string, method: HttpMethod, options: HttpRequestOptions = {}): Promise<HttpResponse<T>> {
     // Try user-provided fetch, then globalThis.fetch
     const fetchImpl = this.config.fetchImpl ?? (typeof globalThis.fetch === 'function' ? globalThis.fetch.bind(globalThis) : undefined);
 
@@ -152,7 +160,9 @@ class FetchHttpClient implements HttpClient {
       });
 
       const data = (await parseResponseBody<T>(response, method)) as T;
-      return { status: response.status, headers: headersRecord, data };
+      const result: HttpResponse<T> = { status: response.status, headers: headersRecord, data };
+      if (response.url) result.url = response.url;
+      return result;
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") {
         throw new Error("Request timed out");
@@ -172,3 +182,218 @@ export function createHttpClient(config: FetchHttpClientConfig = {}): HttpClient
   return new FetchHttpClient(config);
 }
 
+
+// ============================================
+// Authenticated requests
+// ============================================
+
+/**
+ * Signs outgoing requests and keeps access tokens per origin. The client
+ * `Authenticator` implements this interface.
+ */
+export interface RequestAuthenticator {
+  /**
+   * Authentication headers: a cached `Bearer` token or a fresh signature. With
+   * `handshake`, the response is always reported through updateToken or clearToken.
+   */
+  getRequestHeaders(
+    method: string,
+    url: string,
+    body?: unknown,
+    options?: { forceNew?: boolean; handshake?: boolean }
+  ): Promise<Record<string, string>>;
+  /** Capture an access token from response headers */
+  updateToken(url: string, headers: Record<string, string> | Headers): void;
+  /** Forget the origin's access token */
+  clearToken(url: string): void;
+}
+
+export interface AuthenticatedHttpClientConfig {
+  /**
+   * Hosts whose requests are authenticated, e.g. `agent.example.com` or `*.example.com`
+   * for subdomains. Required, so signatures and tokens only reach intended servers;
+   * other requests are sent unchanged.
+   */
+  domains: string[];
+}
+
+export interface AuthenticatedFetchConfig extends AuthenticatedHttpClientConfig {
+  /** Fetch implementation to wrap (default: globalThis.fetch) */
+  fetchImpl?: FetchLike;
+}
+
+/**
+ * Wrap an HttpClient so requests to the configured domains are authenticated.
+ *
+ * Cached access tokens are reused; a `401` on a token is retried once with a fresh
+ * signature. URLs must be absolute, since signatures are bound to them.
+ *
+ * @example
+ * ```typescript
+ * const httpClient = createAuthenticatedHttpClient(createHttpClient(), authenticator, {
+ *   domains: ["*.agents.example"],
+ * });
+ * const crawler = createCrawler({ httpClient });
+ * ```
+ */
+export function createAuthenticatedHttpClient(
+  httpClient: HttpClient,
+  authenticator: RequestAuthenticator,
+  config: AuthenticatedHttpClientConfig
+): HttpClient {
+  return {
+    async request<T = unknown>(url: string, method: HttpMethod, options: HttpRequestOptions = {}): Promise<HttpResponse<T>> {
+      // Query parameters must be part of the signed URL
+      const targetUrl = buildUrl(undefined, url, options.query);
+      if (!matchesDomains(targetUrl, config.domains)) {
+        return httpClient.request<T>(url, method, options);
+      }
+
+      const headers = new Headers(options.headers);
+      const body = await materializeBody(options.body, headers);
+      const { query: _query, ...rest } = options;
+
+      return sendAuthenticated(
+        authenticator,
+        method,
+        targetUrl,
+        body,
+        (authHeaders) => {
+          const requestHeaders: Record<string, string> = {};
+          headers.forEach((value, key) => {
+            requestHeaders[key] = value;
+          });
+          const request: HttpRequestOptions = { ...rest, headers: { ...requestHeaders, ...authHeaders } };
+          if (body !== undefined) request.body = body;
+          return httpClient.request<T>(targetUrl, method, request);
+        },
+        (response) => response.headers
+      );
+    },
+  };
+}
+
+/**
+ * Wrap fetch so requests to the configured domains are authenticated (see
+ * createAuthenticatedHttpClient). Bodies are buffered so they can be signed and resent.
+ *
+ * @example
+ * ```typescript
+ * const authFetch = createAuthenticatedFetch(authenticator, { domains: ["agent.example.com"] });
+ * const response = await authFetch("https://agent.example.com/rpc", { method: "POST", body });
+ * ```
+ */
+export function createAuthenticatedFetch(
+  authenticator: RequestAuthenticator,
+  config: AuthenticatedFetchConfig
+): FetchLike {
+  return async (input, init = {}) => {
+    const fetchImpl =
+      config.fetchImpl ?? (typeof globalThis.fetch === "function" ? globalThis.fetch.bind(globalThis) : undefined);
+    if (typeof fetchImpl !== "function") {
+      throw new Error("Fetch API is not available in this environment. Please provide fetchImpl.");
+    }
+
+    const url = input.toString();
+    if (!matchesDomains(url, config.domains)) {
+      return fetchImpl(input, init);
+    }
+
+    const method = (init.method ?? "GET").toUpperCase();
+    const headers = new Headers(init.headers);
+    const body = await materializeBody(init.body ?? undefined, headers);
+
+    return sendAuthenticated(
+      authenticator,
+      method,
+      url,
+      body,
+      (authHeaders) => {
+        const requestHeaders = new Headers(headers);
+        for (const [name, value] of Object.entries(authHeaders)) {
+          requestHeaders.set(name, value);
+        }
+        const request: RequestInit = { ...init, method, headers: requestHeaders };
+        if (body !== undefined) request.body = body as BodyInit;
+        return fetchImpl(url, request);
+      },
+      (response) => response.headers
+    );
+  };
+}
+
+/**
+ * Send with authentication headers, record the origin's token from the response, and
+ * retry once with a fresh signature when a token is rejected.
+ */
+async function sendAuthenticated<R extends { status: number }>(
+  authenticator: RequestAuthenticator,
+  method: string,
+  url: string,
+  body: string | Uint8Array | undefined,
+  send: (authHeaders: Record<string, string>) => Promise<R>,
+  responseHeaders: (response: R) => Record<string, string> | Headers
+): Promise<R> {
+  const attempt = async (forceNew: boolean) => {
+    const authHeaders = await authenticator.getRequestHeaders(method, url, body, { forceNew, handshake: true });
+    const bearer = /^Bearer\s/i.test(authHeaders["Authorization"] ?? "");
+    let response: R;
+    try {
+      response = await send(authHeaders);
+    } catch (error) {
+      // Release requests waiting on this handshake
+      authenticator.updateToken(url, {});
+      throw error;
+    }
+
+    if (response.status === 401 && bearer) {
+      authenticator.clearToken(url);
+    } else {
+      authenticator.updateToken(url, responseHeaders(response));
+    }
+    return { response, bearer };
+  };
+
+  const first = await attempt(false);
+  // A rejected access token (expired or revoked server-side): sign again once
+  return first.response.status === 401 && first.bearer ? (await attempt(true)).response : first.response;
+}
+
+/**
+ * The bytes a body is sent as, so they can be signed and resent; sets the content type
+ * implied by the body, as fetch would.
+ */
+async function materializeBody(body: unknown, headers: Headers): Promise<string | Uint8Array | undefined> {
+  if (body === undefined || body === null) return undefined;
+
+  if (typeof body === "string") return body;
+  if (body instanceof Uint8Array) return body;
+  if (body instanceof ArrayBuffer) return new Uint8Array(body);
+  if (ArrayBuffer.isView(body)) return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  if (
+    body instanceof URLSearchParams ||
+    (typeof FormData !== "undefined" && body instanceof FormData) ||
+    (typeof Blob !== "undefined" && body instanceof Blob) ||
+    (typeof ReadableStream !== "undefined" && body instanceof ReadableStream)
+  ) {
+    const response = new Response(body as BodyInit);
+    const contentType = response.headers.get("content-type");
+    if (contentType && !headers.has("content-type")) {
+      headers.set("content-type", contentType);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  if (!headers.has("content-type")) {
+    headers.set("content-type", "application/json");
+  }
+  return JSON.stringify(body);
+}
+
+function matchesDomains(url: string, domains: string[]): boolean {
+  const host = new URL(url).hostname.toLowerCase();
+  return domains.some((domain) => {
+    const pattern = domain.toLowerCase();
+    return pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern;
+  });
+}
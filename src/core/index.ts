@@ -7,14 +7,106 @@
  */
 
 export * as crypto from "./crypto.js";
+export * as algorithms from "./algorithms.js";
 export * as did from "./did.js";
 export * as jwt from "./jwt.js";
 export * as http from "./http.js";
 export * as utils from "./utils.js";
 export * as hash from "./hash.js";
+export * as pem from "./pem.js";
+export * as jwk from "./jwk.js";
+export * as multicodec from "./multicodec.js";
+export * as resolver from "./resolver.js";
+export * as errors from "./errors.js";
+export * as digest from "./digest.js";
+export * as httpSignatures from "./http-signatures.js";
+export * as signer from "./signer.js";
+export * as keystore from "./keystore.js";
+export * as jwe from "./jwe.js";
+export * as secureChannel from "./secure-channel.js";
 
 export { LogManager, ConsoleLogger, NullLogger } from "./logging.js";
 export type { Logger, LogLevel } from "./logging.js";
 
-export { createHttpClient } from "./http.js";
-export type { HttpClient, FetchLike, FetchHttpClientConfig } from "./http.js";
+export { createHttpClient, createAuthenticatedHttpClient, createAuthenticatedFetch } from "./http.js";
+
+export { registerKeyAlgorithm, getKeyAlgorithm, getKeyAlgorithmForJwk } from "./algorithms.js";
+export type { KeyAlgorithm, KeyAlgorithmName } from "./algorithms.js";
+export { computeJwkThumbprint } from "./jwk.js";
+export {
+  InMemorySigner,
+  RemoteSigner,
+  createInMemorySigner,
+  createInMemorySignerFromPem,
+  createRemoteSigner,
+  createSigningServiceHandler,
+  isSigner,
+  toSigner,
+} from "./signer.js";
+export type { Signer, SignerOptions, RemoteSignerConfig, RemoteKeyDescription } from "./signer.js";
+export {
+  InMemoryKeystore,
+  FileKeystore,
+  KeystoreError,
+  createInMemoryKeystore,
+  createFileKeystore,
+  encryptPrivateKey,
+  decryptPrivateKey,
+  encryptKeystore,
+  decryptKeystore,
+} from "./keystore.js";
+export type { Keystore, KeystoreFile, DidKeys, KeyEncryptionOptions, FileKeystoreConfig } from "./keystore.js";
+export {
+  encryptJwe,
+  decryptJwe,
+  encryptJson,
+  decryptJson,
+  encryptForDid,
+  decodeJweProtectedHeader,
+  deriveSharedSecret,
+  findKeyAgreementKey,
+} from "./jwe.js";
+export type { JweHeader, JweEncryptOptions, JweDecryptResult, EncryptForDidOptions, KeyAgreementCurve } from "./jwe.js";
+export {
+  SecureChannel,
+  SecureChannelStore,
+  SecureChannelError,
+  SECURE_CHANNEL_CONTENT_TYPE,
+  SECURE_CHANNEL_RPC_ERRORS,
+  initiateSecureChannel,
+  acceptSecureChannel,
+  createSecureChannelStore,
+  isSealedFrame,
+} from "./secure-channel.js";
+export type {
+  SecureChannelInit,
+  SecureChannelAccept,
+  SealedFrame,
+  SecureChannelErrorCode,
+  AcceptSecureChannelOptions,
+  SecureChannelStoreConfig,
+} from "./secure-channel.js";
+export { computeContentDigest, verifyContentDigest } from "./digest.js";
+export { signHttpMessage, verifyHttpMessage, HttpSignatureError } from "./http-signatures.js";
+export type { HttpSignatureMessage, SignatureInput } from "./http-signatures.js";
+export { parseDidUrl, dereferenceDidUrlInDocument } from "./did.js";
+export type { DidVerificationMethod, DereferencedResource, ParsedDidUrl } from "./did.js";
+export {
+  createDidResolver,
+  createCachingDidResolver,
+  requireDidDocument,
+  requireDidResolution,
+  dereferenceDidUrl,
+  DidResolutionError,
+} from "./resolver.js";
+export { DidError, InvalidDidUrlError, DidUrlNotFoundError } from "./errors.js";
+export type { DidResolver, DidMethodDriver, DidResolutionResult } from "./resolver.js";
+export type {
+  HttpClient,
+  HttpResponse,
+  FetchLike,
+  FetchHttpClientConfig,
+  RequestAuthenticator,
+  AuthenticatedHttpClientConfig,
+  AuthenticatedFetchConfig,
+} from "./http.js";
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import { CompactEncrypt, compactDecrypt, errors, importJWK } from "jose";
+import { createDidWbaDocument } from "@/core/did.js";
+import {
+  decodeJweProtectedHeader,
+  decryptJson,
+  decryptJwe,
+  deriveSharedSecret,
+  encryptForDid,
+  encryptJson,
+  encryptJwe,
+  findKeyAgreementKey,
+  generateKeyAgreementKeyPair,
+  type KeyAgreementCurve,
+} from "@/core/jwe.js";
+import { base64urlDecode, base64urlEncode } from "@/core/utils.js";
+
+const CURVES: KeyAgreementCurve[] = ["X25519", "secp256k1", "P-256"];
+
+/** Replace one part of a compact JWE, flipping a bit of its first byte */
+function tamper(jwe: string, index: number): string {
+  const parts = jwe.split(".");
+  const bytes = base64urlDecode(parts[index]!);
+  bytes[0] = bytes[0]! ^ 1;
+  parts[index] = base64urlEncode(bytes);
+  return parts.join(".");
+}
+
+async function decryptionError(promise: Promise<unknown>): Promise<unknown> {
+  return promise.catch((e: unknown) => e);
+}
+
+describe("ECDH", () => {
+  test("both parties derive the same secret", () => {
+    for (const curve of CURVES) {
+      const alice = generateKeyAgreementKeyPair(curve);
+      const bob = generateKeyAgreementKeyPair(curve);
+      expect(deriveSharedSecret(alice.privateKey, bob.publicKey)).toEqual(
+        deriveSharedSecret(bob.privateKey, alice.publicKey)
+      );
+    }
+  });
+
+  test("rejects keys on different curves", () => {
+    const alice = generateKeyAgreementKeyPair("X25519");
+    const bob = generateKeyAgreementKeyPair("P-256");
+    expect(() => deriveSharedSecret(alice.privateKey, bob.publicKey)).toThrow(errors.JWEInvalid);
+  });
+});
+
+describe("compact JWE", () => {
+  test("round-trips on every curve", async () => {
+    for (const curve of CURVES) {
+      const { privateKey, publicKey } = generateKeyAgreementKeyPair(curve);
+      const jwe = await encryptJwe("attack at dawn", publicKey, { kid: "key-2", apu: new TextEncoder().encode("alice") });
+      expect(decodeJweProtectedHeader(jwe)).toMatchObject({
+        alg: "ECDH-ES+A256KW",
+        enc: "A256GCM",
+        kid: "key-2",
+        apu: base64urlEncode(new TextEncoder().encode("alice")),
+        epk: { crv: curve },
+      });
+      const { plaintext } = await decryptJwe(jwe, privateKey);
+      expect(new TextDecoder().decode(plaintext)).toBe("attack at dawn");
+    }
+  });
+
+  test("interoperates with jose", async () => {
+    for (const curve of ["X25519", "P-256"] as const) {
+      const { privateKey, publicKey } = generateKeyAgreementKeyPair(curve);
+      const ours = await encryptJwe("to jose", publicKey);
+      const decrypted = await compactDecrypt(ours, await importJWK(privateKey, "ECDH-ES+A256KW"));
+      expect(new TextDecoder().decode(decrypted.plaintext)).toBe("to jose");
+
+      const theirs = await new CompactEncrypt(new TextEncoder().encode("from jose"))
+        .setProtectedHeader({ alg: "ECDH-ES+A256KW", enc: "A256GCM" })
+        .encrypt(await importJWK(publicKey, "ECDH-ES+A256KW"));
+      expect(new TextDecoder().decode((await decryptJwe(theirs, privateKey)).plaintext)).toBe("from jose");
+    }
+  });
+
+  test("rejects tampered tags, ciphertexts, keys and headers", async () => {
+    const { privateKey, publicKey } = generateKeyAgreementKeyPair("X25519");
+    const jwe = await encryptJwe("attack at dawn", publicKey);
+    for (const index of [4, 3, 1]) {
+      expect(await decryptionError(decryptJwe(tamper(jwe, index), privateKey))).toBeInstanceOf(errors.JWEDecryptionFailed);
+    }
+    // The protected header is the AEAD additional data
+    const [, ...rest] = jwe.split(".");
+    const header = { ...decodeJweProtectedHeader(jwe), kid: "other" };
+    const rewritten = [base64urlEncode(new TextEncoder().encode(JSON.stringify(header))), ...rest].join(".");
+    expect(await decryptionError(decryptJwe(rewritten, privateKey))).toBeInstanceOf(errors.JWEDecryptionFailed);
+  });
+
+  test("rejects the wrong recipient key and malformed input", async () => {
+    const { publicKey } = generateKeyAgreementKeyPair("P-256");
+    const other = generateKeyAgreementKeyPair("P-256");
+    const jwe = await encryptJwe("secret", publicKey);
+    expect(await decryptionError(decryptJwe(jwe, other.privateKey))).toBeInstanceOf(errors.JWEDecryptionFailed);
+    expect(await decryptionError(decryptJwe("a.b.c", other.privateKey))).toBeInstanceOf(errors.JWEInvalid);
+
+    const parts = jwe.split(".");
+    parts[4] = base64urlEncode(new Uint8Array(8));
+    expect(await decryptionError(decryptJwe(parts.join("."), other.privateKey))).toBeInstanceOf(errors.JWEInvalid);
+  });
+});
+
+describe("JSON payloads for DIDs", () => {
+  test("encrypt to the keyAgreement key of a DID document", async () => {
+    const recipient = await createDidWbaDocument({ hostname: "merchant.example.com" });
+    const { method } = findKeyAgreementKey(recipient.didDocument);
+    expect(method.id).toBe(`${recipient.did}#key-2`);
+
+    const jwe = await encryptForDid({ shipping_address: "1 Main St" }, recipient.did, {
+      didDocument: recipient.didDocument,
+    });
+    const { kid, cty } = decodeJweProtectedHeader(jwe);
+    expect({ kid, cty }).toEqual({ kid: method.id, cty: "json" });
+    expect(await decryptJson<{ shipping_address: string }>(jwe, recipient.privateKeys[kid!.split("#")[1]!]!)).toEqual({ shipping_address: "1 Main St" });
+  });
+
+  test("find named key agreement methods only", async () => {
+    const recipient = await createDidWbaDocument({ hostname: "merchant.example.com" });
+    expect(findKeyAgreementKey(recipient.didDocument, "#key-2").method.id).toBe(`${recipient.did}#key-2`);
+    // key-1 signs; it is not a keyAgreement method
+    expect(() => findKeyAgreementKey(recipient.didDocument, "key-1")).toThrow(errors.JWKSNoMatchingKey);
+  });
+
+  test("reject non-JSON plaintexts", async () => {
+    const { privateKey, publicKey } = generateKeyAgreementKeyPair("X25519");
+    expect(await decryptJson<number[]>(await encryptJson([1, 2], publicKey), privateKey)).toEqual([1, 2]);
+    const jwe = await encryptJwe("not json", publicKey);
+    expect(await decryptionError(decryptJson(jwe, privateKey))).toBeInstanceOf(errors.JWEInvalid);
+  });
+});
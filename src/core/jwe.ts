@@ -0,0 +1,374 @@
+/**
+ * ECDH Key Agreement and JWE
+ *
+ * Encrypts payloads to an agent's `keyAgreement` key as compact JWE (RFC 7516) with
+ * `ECDH-ES+A256KW` key management and `A256GCM` content encryption (RFC 7518):
+ * an ephemeral key pair per message, Concat KDF over the ECDH secret, AES key wrap
+ * of a random content key.
+ *
+ * Key agreement curves: X25519 (RFC 8037), secp256k1 and P-256. jose does not
+ * implement secp256k1 ECDH, so key agreement uses @noble/curves and the AES parts
+ * WebCrypto. Errors are jose's error classes, as for JWS in jwt.ts.
+ *
+ * @packageDocumentation
+ */
+
+import { errors } from "jose";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { x25519 } from "@noble/curves/ed25519.js";
+import { p256 } from "@noble/curves/nist.js";
+import {
+  getRelationshipMethods,
+  getVerificationMethodJwk,
+  type DidDocument,
+  type DidVerificationMethod,
+} from "@/core/did.js";
+import { sha256 } from "@/core/hash.js";
+import type { HttpClient } from "@/core/http.js";
+import { createDidResolver, requireDidDocument, type DidResolver } from "@/core/resolver.js";
+import { base64urlDecode, base64urlEncode } from "@/core/utils.js";
+
+/**
+ * Curves usable for key agreement.
+ */
+export type KeyAgreementCurve = "X25519" | "secp256k1" | "P-256";
+
+const KEY_MANAGEMENT_ALG = "ECDH-ES+A256KW";
+const CONTENT_ENC = "A256GCM";
+
+/**
+ * Protected header of a JWE produced by encryptJwe.
+ */
+export interface JweHeader {
+  alg: string;
+  enc: string;
+  /** Ephemeral public key of the sender */
+  epk: JsonWebKey;
+  /** Recipient key, e.g. the DID URL of a keyAgreement verification method */
+  kid?: string;
+  apu?: string;
+  apv?: string;
+  typ?: string;
+  cty?: string;
+  [name: string]: unknown;
+}
+
+export interface JweEncryptOptions {
+  /** Recipient key identifier put in the header (encryptForDid sets the method id) */
+  kid?: string;
+  /** Agreement PartyUInfo, e.g. the sender's DID */
+  apu?: Uint8Array;
+  /** Agreement PartyVInfo, e.g. the recipient's DID */
+  apv?: Uint8Array;
+  /** Additional protected header members (`typ`, `cty`, ...) */
+  header?: Record<string, unknown>;
+}
+
+export interface JweDecryptResult {
+  plaintext: Uint8Array;
+  protectedHeader: JweHeader;
+}
+
+// ============================================
+// ECDH
+// ============================================
+
+/**
+ * Curve of a key agreement JWK.
+ *
+ * Fail Fast: throws JOSENotSupported for other key types.
+ */
+export function getKeyAgreementCurve(jwk: JsonWebKey): KeyAgreementCurve {
+  if (jwk.kty === "OKP" && jwk.crv === "X25519") return "X25519";
+  if (jwk.kty === "EC" && (jwk.crv === "secp256k1" || jwk.crv === "P-256")) return jwk.crv;
+  throw new errors.JOSENotSupported(`Key agreement is not supported for ${jwk.kty} ${jwk.crv ?? ""}`.trim());
+}
+
+/**
+ * ECDH shared secret Z between a private and a public JWK of the same curve (for EC
+ * curves the x-coordinate of the shared point).
+ *
+ * Fail Fast: throws if the curves differ or the public key is invalid.
+ */
+export function deriveSharedSecret(privateKey: JsonWebKey, publicKey: JsonWebKey): Uint8Array {
+  const curve = getKeyAgreementCurve(publicKey);
+  if (getKeyAgreementCurve(privateKey) !== curve) {
+    throw new errors.JWEInvalid("Key agreement keys are on different curves");
+  }
+  if (!privateKey.d) throw new TypeError("Private JWK missing 'd'");
+  const priv = base64urlDecode(privateKey.d);
+
+  if (curve === "X25519") {
+    const secret = x25519.getSharedSecret(priv, base64urlDecode(publicKey.x!));
+    if (secret.every((byte) => byte === 0)) throw new errors.JWEInvalid("Invalid X25519 public key");
+    return secret;
+  }
+  const point = new Uint8Array(65);
+  point[0] = 0x04;
+  point.set(base64urlDecode(publicKey.x!), 1);
+  point.set(base64urlDecode(publicKey.y!), 33);
+  const ec = curve === "secp256k1" ? secp256k1 : p256;
+  return ec.getSharedSecret(priv, point, true).slice(1);
+}
+
+/**
+ * Fresh key pair for key agreement, e.g. an ephemeral key for one message or session
+ */
+export function generateKeyAgreementKeyPair(curve: KeyAgreementCurve): { privateKey: JsonWebKey; publicKey: JsonWebKey } {
+  if (curve === "X25519") {
+    const priv = x25519.utils.randomSecretKey();
+    const publicKey = { kty: "OKP", crv: "X25519", x: base64urlEncode(x25519.getPublicKey(priv)) };
+    return { privateKey: { ...publicKey, d: base64urlEncode(priv) }, publicKey };
+  }
+  const ec = curve === "secp256k1" ? secp256k1 : p256;
+  const priv = ec.utils.randomSecretKey();
+  const pub = ec.getPublicKey(priv, false);
+  const publicKey = { kty: "EC", crv: curve, x: base64urlEncode(pub.slice(1, 33)), y: base64urlEncode(pub.slice(33)) };
+  return { privateKey: { ...publicKey, d: base64urlEncode(priv) }, publicKey };
+}
+
+/**
+ * Concat KDF (NIST SP 800-56A, RFC 7518 section 4.6.2) for a 256-bit key.
+ */
+function concatKdf(secret: Uint8Array, alg: string, apu: Uint8Array, apv: Uint8Array): Uint8Array {
+  const algId = new TextEncoder().encode(alg);
+  const parts = [uint32(1), secret, uint32(algId.length), algId, uint32(apu.length), apu, uint32(apv.length), apv, uint32(256)];
+  const input = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    input.set(part, offset);
+    offset += part.length;
+  }
+  return sha256(input);
+}
+
+function uint32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value);
+  return out;
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) throw new errors.JOSENotSupported("JWE requires WebCrypto (crypto.subtle)");
+  return subtle;
+}
+
+// ============================================
+// Compact JWE
+// ============================================
+
+/**
+ * Encrypt to a recipient's public key agreement JWK as compact JWE
+ * (`ECDH-ES+A256KW` / `A256GCM`).
+ */
+export async function encryptJwe(
+  plaintext: Uint8Array | string,
+  recipientPublicKey: JsonWebKey,
+  options: JweEncryptOptions = {}
+): Promise<string> {
+  const subtle = getSubtle();
+  const ephemeral = generateKeyAgreementKeyPair(getKeyAgreementCurve(recipientPublicKey));
+  const apu = options.apu ?? new Uint8Array();
+  const apv = options.apv ?? new Uint8Array();
+
+  const header: JweHeader = {
+    ...options.header,
+    alg: KEY_MANAGEMENT_ALG,
+    enc: CONTENT_ENC,
+    epk: ephemeral.publicKey,
+    ...(options.kid !== undefined ? { kid: options.kid } : {}),
+    ...(options.apu ? { apu: base64urlEncode(options.apu) } : {}),
+    ...(options.apv ? { apv: base64urlEncode(options.apv) } : {}),
+  };
+  const headerB64 = base64urlEncode(new TextEncoder().encode(JSON.stringify(header)));
+
+  const kekBytes = concatKdf(deriveSharedSecret(ephemeral.privateKey, recipientPublicKey), KEY_MANAGEMENT_ALG, apu, apv);
+  const kek = await subtle.importKey("raw", new Uint8Array(kekBytes), "AES-KW", false, ["wrapKey"]);
+  const cek = await subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"]);
+  const encryptedKey = new Uint8Array(await subtle.wrapKey("raw", cek, kek, "AES-KW"));
+
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const data = typeof plaintext === "string" ? new TextEncoder().encode(plaintext) : new Uint8Array(plaintext);
+  const sealed = new Uint8Array(
+    await subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(headerB64), tagLength: 128 },
+      cek,
+      data
+    )
+  );
+
+  return [
+    headerB64,
+    base64urlEncode(encryptedKey),
+    base64urlEncode(iv),
+    base64urlEncode(sealed.slice(0, -16)),
+    base64urlEncode(sealed.slice(-16)),
+  ].join(".");
+}
+
+/**
+ * Decrypt a compact JWE with the recipient's private key agreement JWK.
+ *
+ * Fail Fast: throws JWEInvalid for malformed input, JOSENotSupported for other
+ * algorithms and JWEDecryptionFailed for wrong keys or tampered messages.
+ */
+export async function decryptJwe(jwe: string, privateKey: JsonWebKey): Promise<JweDecryptResult> {
+  const subtle = getSubtle();
+  const parts = jwe.split(".");
+  if (parts.length !== 5) throw new errors.JWEInvalid("Invalid compact JWE");
+  const [headerB64, encryptedKeyB64, ivB64, ciphertextB64, tagB64] = parts as [string, string, string, string, string];
+
+  const header = decodeJweProtectedHeader(jwe);
+  if (header.alg !== KEY_MANAGEMENT_ALG || header.enc !== CONTENT_ENC) {
+    throw new errors.JOSENotSupported(`Unsupported JWE algorithms ${header.alg} / ${header.enc}`);
+  }
+  if (!header.epk || typeof header.epk !== "object") throw new errors.JWEInvalid("JWE header is missing epk");
+
+  let encryptedKey: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array, tag: Uint8Array, apu: Uint8Array, apv: Uint8Array;
+  try {
+    encryptedKey = base64urlDecode(encryptedKeyB64);
+    iv = base64urlDecode(ivB64);
+    ciphertext = base64urlDecode(ciphertextB64);
+    tag = base64urlDecode(tagB64);
+    apu = typeof header.apu === "string" ? base64urlDecode(header.apu) : new Uint8Array();
+    apv = typeof header.apv === "string" ? base64urlDecode(header.apv) : new Uint8Array();
+  } catch {
+    throw new errors.JWEInvalid("Invalid JWE encoding");
+  }
+  if (iv.length !== 12 || tag.length !== 16) throw new errors.JWEInvalid("Invalid JWE iv or tag length");
+
+  let secret: Uint8Array;
+  try {
+    secret = deriveSharedSecret(privateKey, header.epk);
+  } catch (error) {
+    if (error instanceof errors.JOSEError) throw error;
+    throw new errors.JWEInvalid("Invalid JWE epk");
+  }
+  const kekBytes = concatKdf(secret, KEY_MANAGEMENT_ALG, apu, apv);
+
+  try {
+    const kek = await subtle.importKey("raw", new Uint8Array(kekBytes), "AES-KW", false, ["unwrapKey"]);
+    const cek = await subtle.unwrapKey("raw", new Uint8Array(encryptedKey), kek, "AES-KW", "AES-GCM", false, ["decrypt"]);
+    const sealed = new Uint8Array(ciphertext.length + tag.length);
+    sealed.set(ciphertext);
+    sealed.set(tag, ciphertext.length);
+    const plaintext = await subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(iv), additionalData: new TextEncoder().encode(headerB64), tagLength: 128 },
+      cek,
+      sealed
+    );
+    return { plaintext: new Uint8Array(plaintext), protectedHeader: header };
+  } catch {
+    throw new errors.JWEDecryptionFailed();
+  }
+}
+
+/**
+ * Protected header of a compact JWE, without decrypting (e.g. to pick a key by `kid`)
+ */
+export function decodeJweProtectedHeader(jwe: string): JweHeader {
+  const headerB64 = jwe.split(".")[0];
+  if (!headerB64) throw new errors.JWEInvalid("Invalid compact JWE");
+  let header: unknown;
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64urlDecode(headerB64)));
+  } catch {
+    throw new errors.JWEInvalid("JWE Protected Header is invalid");
+  }
+  if (!header || typeof header !== "object" || Array.isArray(header)) {
+    throw new errors.JWEInvalid("JWE Protected Header is invalid");
+  }
+  return header as JweHeader;
+}
+
+/**
+ * Encrypt a JSON value as compact JWE (`cty: "json"`)
+ */
+export async function encryptJson(
+  value: unknown,
+  recipientPublicKey: JsonWebKey,
+  options: JweEncryptOptions = {}
+): Promise<string> {
+  return encryptJwe(JSON.stringify(value), recipientPublicKey, {
+    ...options,
+    header: { cty: "json", ...options.header },
+  });
+}
+
+/**
+ * Decrypt a compact JWE holding a JSON value
+ */
+export async function decryptJson<T = unknown>(jwe: string, privateKey: JsonWebKey): Promise<T> {
+  const { plaintext } = await decryptJwe(jwe, privateKey);
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  } catch {
+    throw new errors.JWEInvalid("JWE plaintext is not JSON");
+  }
+}
+
+// ============================================
+// DID key agreement
+// ============================================
+
+/**
+ * Key agreement method of a DID document: the one named by `kid` (fragment or DID URL),
+ * otherwise the first `keyAgreement` method on a supported curve.
+ *
+ * Fail Fast: throws JWKSNoMatchingKey if there is none.
+ */
+export function findKeyAgreementKey(
+  didDocument: DidDocument,
+  kid?: string
+): { method: DidVerificationMethod; publicKey: JsonWebKey } {
+  const wanted = kid === undefined ? undefined : kid.startsWith("did:") ? kid : `${didDocument.id}#${kid.replace(/^#/, "")}`;
+  for (const method of getRelationshipMethods(didDocument, "keyAgreement")) {
+    const id = method.id.startsWith("#") ? `${didDocument.id}${method.id}` : method.id;
+    if (wanted !== undefined && id !== wanted) continue;
+    try {
+      const publicKey = getVerificationMethodJwk(method);
+      getKeyAgreementCurve(publicKey);
+      return { method: { ...method, id }, publicKey };
+    } catch {
+      if (wanted !== undefined) break;
+    }
+  }
+  throw new errors.JWKSNoMatchingKey(
+    `No ${wanted ? `key agreement method ${wanted}` : "supported key agreement method"} in ${didDocument.id}`
+  );
+}
+
+export interface EncryptForDidOptions extends Omit<JweEncryptOptions, "kid"> {
+  /** DID document of the recipient; resolved when omitted */
+  didDocument?: DidDocument;
+  resolver?: DidResolver;
+  /** HTTP client for the default resolver */
+  httpClient?: HttpClient;
+}
+
+/**
+ * Encrypt a JSON value to a DID's key agreement key. Pass a DID URL
+ * (`did:wba:agent.example.com#key-2`) to pick the method; `kid` is set to its id so
+ * the recipient can find the matching private key.
+ *
+ * @example
+ * ```typescript
+ * const jwe = await encryptForDid({ shipping_address: address }, "did:wba:merchant.example.com");
+ * // merchant side
+ * const { kid } = decodeJweProtectedHeader(jwe);
+ * const params = await decryptJson(jwe, privateKeys[kid!.split("#")[1]!]);
+ * ```
+ */
+export async function encryptForDid(
+  value: unknown,
+  didOrDidUrl: string,
+  options: EncryptForDidOptions = {}
+): Promise<string> {
+  const { didDocument, resolver, httpClient, ...jweOptions } = options;
+  const [did, fragment] = didOrDidUrl.split("#", 2) as [string, string | undefined];
+  const document =
+    didDocument ?? (await requireDidDocument(resolver ?? createDidResolver(httpClient ? { httpClient } : {}), did));
+  const { method, publicKey } = findKeyAgreementKey(document, fragment);
+  return encryptJson(value, publicKey, { ...jweOptions, kid: method.id });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { calculateJwkThumbprint, type JWK } from "jose";
+import { generateEd25519KeyPair, generateP256KeyPair, generateSecp256k1KeyPair } from "@/core/crypto.js";
+import { computeJwkThumbprint, computeJwkThumbprintUri, getJwkKid, jwkMatchesKid } from "@/core/jwk.js";
+
+// RFC 7638 section 3.1
+const RFC7638_KEY: JsonWebKey = {
+  kty: "RSA",
+  n:
+    "0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4cbbfAAtVT86zwu1RK7aPFFxuhDR1L6tSoc_BJECPebWKRXjBZCiFV4n3oknjhMs" +
+    "tn64tZ_2W-5JsGY4Hc5n9yBXArwl93lqt7_RN5w6Cf0h4QyQ5v-65YGjQR0_FDW2QvzqY368QQMicAtaSqzs8KJZgnYb9c7d0zgdAZHzu6qMQvRL5hajrn1n91" +
+    "CbOpbISD08qNLyrdkt-bFTWhAI4vMQFh6WeZu0fM4lFd2NcRwr3XPksINHaQ-G_xBniIqbw0Ls1jF44-csFCur-kEgU8awapJzKnqDKgw",
+  e: "AQAB",
+  alg: "RS256",
+};
+const RFC7638_THUMBPRINT = "NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs";
+
+describe("computeJwkThumbprint", () => {
+  test("matches the RFC 7638 example", () => {
+    expect(computeJwkThumbprint(RFC7638_KEY)).toBe(RFC7638_THUMBPRINT);
+    expect(computeJwkThumbprintUri(RFC7638_KEY)).toBe(`urn:ietf:params:oauth:jwk-thumbprint:sha-256:${RFC7638_THUMBPRINT}`);
+  });
+
+  for (const [name, generate] of [
+    ["secp256k1", generateSecp256k1KeyPair],
+    ["P-256", generateP256KeyPair],
+    ["Ed25519", generateEd25519KeyPair],
+  ] as const) {
+    test(`matches jose for ${name} keys`, async () => {
+      const { publicKeyJwk, privateKeyJwk } = await generate();
+      const expected = await calculateJwkThumbprint(publicKeyJwk as JWK);
+      expect(computeJwkThumbprint(publicKeyJwk)).toBe(expected);
+      // Private members and extras do not change the thumbprint
+      expect(computeJwkThumbprint({ ...privateKeyJwk, use: "sig", key_ops: ["sign"] })).toBe(expected);
+    });
+  }
+
+  test("requires the members of the key type", () => {
+    expect(() => computeJwkThumbprint({ kty: "EC", crv: "P-256", x: "AA" })).toThrow("EC JWK missing crv/x/y");
+    expect(() => computeJwkThumbprint({ kty: "OKP", crv: "Ed25519" })).toThrow("OKP JWK missing crv/x");
+  });
+});
+
+describe("kid", () => {
+  test("defaults to the thumbprint", async () => {
+    const { publicKeyJwk } = await generateEd25519KeyPair();
+    expect(getJwkKid(publicKeyJwk)).toBe(computeJwkThumbprint(publicKeyJwk));
+    expect(getJwkKid({ ...publicKeyJwk, kid: "key-1" })).toBe("key-1");
+  });
+
+  test("matches an explicit kid, the thumbprint or its URI", async () => {
+    const { publicKeyJwk } = await generateP256KeyPair();
+    const thumbprint = computeJwkThumbprint(publicKeyJwk);
+    const key = { ...publicKeyJwk, kid: "key-1" };
+    expect(jwkMatchesKid(key, "key-1")).toBe(true);
+    expect(jwkMatchesKid(key, thumbprint)).toBe(true);
+    expect(jwkMatchesKid(key, computeJwkThumbprintUri(publicKeyJwk))).toBe(true);
+    expect(jwkMatchesKid(key, "key-2")).toBe(false);
+    // Keys without a registered algorithm only match their explicit kid
+    expect(jwkMatchesKid({ kty: "OKP", crv: "X25519", x: "AA", kid: "ka" }, "ka")).toBe(true);
+    expect(jwkMatchesKid({ kty: "OKP", crv: "X25519", x: "AA" }, thumbprint)).toBe(false);
+  });
+});
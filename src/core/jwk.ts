@@ -0,0 +1,57 @@
+/**
+ * JWK Thumbprints
+ *
+ * RFC 7638 thumbprints give every public key a stable identifier, used as the
+ * default JWS `kid` and to match keys against DID document verification methods.
+ *
+ * @packageDocumentation
+ */
+
+import { getKeyAlgorithmForJwk } from "@/core/algorithms.js";
+import { sha256 } from "@/core/hash.js";
+import { base64urlEncode } from "@/core/utils.js";
+
+/**
+ * Compute the RFC 7638 SHA-256 thumbprint of a JWK (base64url encoded).
+ *
+ * Only the required public members take part, so a private JWK and its public
+ * half share the same thumbprint.
+ *
+ * Fail Fast: throws if the key type is not handled by the key algorithm registry.
+ */
+export function computeJwkThumbprint(jwk: JsonWebKey): string {
+  const members = getKeyAlgorithmForJwk(jwk).thumbprintMembers(jwk);
+  // Members are plain strings, so sorting the keys is all JCS needs here
+  const sorted = Object.keys(members)
+    .sort()
+    .map((name) => `${JSON.stringify(name)}:${JSON.stringify(members[name])}`);
+  return base64urlEncode(sha256(new TextEncoder().encode(`{${sorted.join(",")}}`)));
+}
+
+/**
+ * RFC 9278 thumbprint URI, e.g. `urn:ietf:params:oauth:jwk-thumbprint:sha-256:NzbL...`.
+ */
+export function computeJwkThumbprintUri(jwk: JsonWebKey): string {
+  return `urn:ietf:params:oauth:jwk-thumbprint:sha-256:${computeJwkThumbprint(jwk)}`;
+}
+
+/**
+ * Return the key's `kid`, deriving it from the thumbprint when absent.
+ */
+export function getJwkKid(jwk: JsonWebKey & { kid?: string }): string {
+  return jwk.kid ?? computeJwkThumbprint(jwk);
+}
+
+/**
+ * Check whether a key identifier refers to a JWK, either through its explicit
+ * `kid` or its thumbprint (plain or as an RFC 9278 URI).
+ */
+export function jwkMatchesKid(jwk: JsonWebKey & { kid?: string }, kid: string): boolean {
+  if (jwk.kid === kid) return true;
+  try {
+    return kid === computeJwkThumbprint(jwk) || kid === computeJwkThumbprintUri(jwk);
+  } catch {
+    // Keys the registry cannot handle have no thumbprint
+    return false;
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { errors } from "jose";
+import { getKeyAlgorithm } from "@/core/algorithms.js";
+import { createDidWbaDocument, type DidDocument } from "@/core/did.js";
+import { issueJwt, signJwtWithAlgorithm, verifyJwt, verifyJwtWithAlgorithm } from "@/core/jwt.js";
+import type { DidResolver } from "@/core/resolver.js";
+import { base64urlDecode, base64urlEncode } from "@/core/utils.js";
+
+function staticResolver(...documents: DidDocument[]): DidResolver {
+  return {
+    async resolve(did) {
+      const didDocument = documents.find((document) => document.id === did) ?? null;
+      return {
+        didResolutionMetadata: didDocument ? {} : { error: "notFound" },
+        didDocument,
+        didDocumentMetadata: {},
+      };
+    },
+  };
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("registry algorithms", () => {
+  for (const [alg, keyType] of [["ES256K", "secp256k1"], ["ES256", "P-256"], ["EdDSA", "Ed25519"]] as const) {
+    describe(alg, () => {
+      test("verifies with a PEM, a JWK and a DID URL", async () => {
+        const { did, didDocument, privateKeys } = await createDidWbaDocument({ hostname: "issuer.example", keys: [keyType] });
+        const algorithm = getKeyAlgorithm(alg);
+        const privatePem = await algorithm.exportPrivateKeyPem(privateKeys["key-1"]!);
+        const { d: _d, ...publicJwk } = privateKeys["key-1"]!;
+
+        const token = await signJwtWithAlgorithm({ sub: "alice", exp: now() + 60 }, privatePem, alg, { kid: `${did}#key-1` });
+        const publicPem = await algorithm.exportPublicKeyPem(publicJwk);
+        const resolver = staticResolver(didDocument);
+
+        for (const key of [publicPem, publicJwk, `${did}#key-1`, did]) {
+          expect(await verifyJwtWithAlgorithm(token, key, alg, { resolver })).toMatchObject({ sub: "alice" });
+        }
+      });
+
+      test("rejects tampered payloads and other algorithms", async () => {
+        const { privateKeys } = await createDidWbaDocument({ hostname: "issuer.example", keys: [keyType] });
+        const privatePem = await getKeyAlgorithm(alg).exportPrivateKeyPem(privateKeys["key-1"]!);
+        const token = await signJwtWithAlgorithm({ sub: "alice" }, privatePem, alg);
+        const [header, , signature] = token.split(".");
+        const forged = `${header}.${base64urlEncode(new TextEncoder().encode('{"sub":"mallory"}'))}.${signature}`;
+
+        await expect(verifyJwtWithAlgorithm(forged, privateKeys["key-1"]!, alg)).rejects.toBeInstanceOf(
+          errors.JWSSignatureVerificationFailed
+        );
+        const other = alg === "EdDSA" ? "ES256" : "EdDSA";
+        await expect(verifyJwtWithAlgorithm(token, privateKeys["key-1"]!, other)).rejects.toThrow();
+      });
+    });
+  }
+
+  test("defaults kid to the key thumbprint", async () => {
+    const { privateKeys } = await createDidWbaDocument({ hostname: "issuer.example", keys: ["Ed25519"] });
+    const token = await signJwtWithAlgorithm({}, await getKeyAlgorithm("EdDSA").exportPrivateKeyPem(privateKeys["key-1"]!), "EdDSA");
+    const header = JSON.parse(new TextDecoder().decode(base64urlDecode(token.split(".")[0]!)));
+    expect(header).toMatchObject({ alg: "EdDSA", typ: "JWT" });
+    expect(header.kid).toHaveLength(43);
+  });
+});
+
+describe("claim validation", () => {
+  async function sign(payload: Record<string, unknown>) {
+    const { privateKeys } = await createDidWbaDocument({ hostname: "issuer.example", keys: ["secp256k1"] });
+    const pem = await getKeyAlgorithm("ES256K").exportPrivateKeyPem(privateKeys["key-1"]!);
+    return { token: await signJwtWithAlgorithm(payload, pem, "ES256K"), key: privateKeys["key-1"]! };
+  }
+
+  test("rejects expired and not yet valid tokens", async () => {
+    const expired = await sign({ exp: now() - 120 });
+    await expect(verifyJwtWithAlgorithm(expired.token, expired.key, "ES256K")).rejects.toBeInstanceOf(errors.JWTExpired);
+    // Within the clock tolerance, as seconds or a jose time span
+    await expect(verifyJwtWithAlgorithm(expired.token, expired.key, "ES256K", { clockTolerance: "5 minutes" })).resolves.toBeDefined();
+
+    const early = await sign({ nbf: now() + 120 });
+    await expect(verifyJwtWithAlgorithm(early.token, early.key, "ES256K")).rejects.toBeInstanceOf(errors.JWTClaimValidationFailed);
+    await expect(verifyJwtWithAlgorithm(early.token, early.key, "ES256K", { clockTolerance: 300 })).resolves.toBeDefined();
+  });
+
+  test("checks issuer, audience and subject", async () => {
+    const { token, key } = await sign({ iss: "did:wba:issuer.example", aud: ["a", "b"], sub: "alice" });
+    await expect(
+      verifyJwtWithAlgorithm(token, key, "ES256K", { issuer: "did:wba:issuer.example", audience: "b", subject: "alice" })
+    ).resolves.toMatchObject({ sub: "alice" });
+
+    for (const options of [{ issuer: "did:wba:other.example" }, { audience: "c" }, { subject: "bob" }]) {
+      const error = await verifyJwtWithAlgorithm(token, key, "ES256K", options).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(errors.JWTClaimValidationFailed);
+    }
+  });
+
+  test("checks required claims and token age", async () => {
+    const { token, key } = await sign({ iat: now() - 600 });
+    const missing = await verifyJwtWithAlgorithm(token, key, "ES256K", { requiredClaims: ["jti"] }).catch((e: unknown) => e);
+    expect(missing).toMatchObject({ claim: "jti", reason: "missing" });
+    await expect(verifyJwtWithAlgorithm(token, key, "ES256K", { maxTokenAge: "5m" })).rejects.toBeInstanceOf(errors.JWTExpired);
+    await expect(verifyJwtWithAlgorithm(token, key, "ES256K", { maxTokenAge: "1h" })).resolves.toBeDefined();
+  });
+
+  test("checks the typ header", async () => {
+    const { token, key } = await sign({});
+    await expect(verifyJwtWithAlgorithm(token, key, "ES256K", { typ: "JWT" })).resolves.toBeDefined();
+    await expect(verifyJwtWithAlgorithm(token, key, "ES256K", { typ: "at+jwt" })).rejects.toBeInstanceOf(
+      errors.JWTClaimValidationFailed
+    );
+  });
+});
+
+describe("DID URL keys", () => {
+  test("only accept methods under the requested relationship", async () => {
+    const { did, didDocument, privateKeys } = await createDidWbaDocument({ hostname: "issuer.example", keys: ["Ed25519"] });
+    const pem = await getKeyAlgorithm("EdDSA").exportPrivateKeyPem(privateKeys["key-1"]!);
+    const token = await signJwtWithAlgorithm({}, pem, "EdDSA");
+    const withoutAssertion: DidDocument = { ...didDocument, assertionMethod: [] };
+
+    const resolver = staticResolver(withoutAssertion);
+    await expect(verifyJwtWithAlgorithm(token, `${did}#key-1`, "EdDSA", { resolver })).resolves.toBeDefined();
+    await expect(
+      verifyJwtWithAlgorithm(token, `${did}#key-1`, "EdDSA", { resolver, verificationRelationship: "assertionMethod" })
+    ).rejects.toBeInstanceOf(errors.JWKSNoMatchingKey);
+  });
+
+  test("fail for unknown DIDs and fragments", async () => {
+    const { did, didDocument, privateKeys } = await createDidWbaDocument({ hostname: "issuer.example", keys: ["Ed25519"] });
+    const token = await signJwtWithAlgorithm({}, await getKeyAlgorithm("EdDSA").exportPrivateKeyPem(privateKeys["key-1"]!), "EdDSA");
+    const resolver = staticResolver(didDocument);
+    await expect(verifyJwtWithAlgorithm(token, `${did}#key-9`, "EdDSA", { resolver })).rejects.toThrow();
+    await expect(verifyJwtWithAlgorithm(token, "did:wba:unknown.example", "EdDSA", { resolver })).rejects.toThrow();
+  });
+});
+
+describe("HS256 tokens", () => {
+  test("verify with the issuing secret only", async () => {
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+    const token = await issueJwt({ scope: "rpc" }, secret, { subject: "did:wba:client.example", expiresIn: "5m" });
+    expect((await verifyJwt(token, secret))?.payload).toMatchObject({ scope: "rpc", sub: "did:wba:client.example" });
+    expect(await verifyJwt(token, crypto.getRandomValues(new Uint8Array(32)))).toBeNull();
+  });
+});
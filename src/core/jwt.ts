@@ -1,6 +1,17 @@
-import { SignJWT, jwtVerify, importPKCS8, importSPKI, type JWTHeaderParameters } from "jose";
-import type { JWTPayload, JWTVerifyOptions } from "jose";
-import { signSecp256k1, verifySecp256k1Signature, importSecp256k1PrivateKeyFromPem } from "@/core/crypto.js";
+import { SignJWT, UnsecuredJWT, jwtVerify, importJWK, importSPKI, errors, type JWTHeaderParameters } from "jose";
+import type { JWK, JWTPayload, JWTVerifyOptions } from "jose";
+import { getKeyAlgorithm, type KeyAlgorithm, type KeyAlgorithmName } from "@/core/algorithms.js";
+import {
+  findVerificationMethod,
+  getRelationshipMethods,
+  getVerificationMethodJwk,
+  type DidRelationship,
+  type DidVerificationMethod,
+} from "@/core/did.js";
+import { computeJwkThumbprint } from "@/core/jwk.js";
+import type { HttpClient } from "@/core/http.js";
+import { createDidResolver, requireDidDocument, type DidResolver } from "@/core/resolver.js";
+import type { Signer } from "@/core/signer.js";
 import { base64urlEncode, base64urlDecode } from "@/core/utils.js";
 
 export interface IssueOptions {
@@ -23,12 +34,18 @@ export async function issueJwt(
   return await jwt.sign(secret);
 }
 
+/**
+ * Verify an HS256 token from issueJwt. `options` adds claim checks (issuer, audience, ...).
+ *
+ * @returns The payload, or null if the token is invalid or expired
+ */
 export async function verifyJwt<T extends JWTPayload = JWTPayload>(
   token: string,
-  secret: Uint8Array
+  secret: Uint8Array,
+  options: JWTVerifyOptions = {}
 ): Promise<{ payload: T } | null> {
   try {
-    const { payload } = await jwtVerify(token, secret);
+    const { payload } = await jwtVerify(token, secret, { ...options, algorithms: ["HS256"] });
     return { payload: payload as T };
   } catch {
     return null;
@@ -36,115 +53,246 @@ export async function verifyJwt<T extends JWTPayload = JWTPayload>(
 }
 
 /**
- * Sign JWT with algorithm support for RS256 and ES256K.
+ * JWS algorithms supported by signJwtWithAlgorithm / verifyJwtWithAlgorithm:
+ * the built-ins plus anything added with registerKeyAlgorithm().
+ */
+export type JwtAlgorithm = KeyAlgorithmName | (string & {});
+
+/**
+ * Sign JWT with any algorithm from the key algorithm registry
+ * (RS256, ES256K, ES256, EdDSA by default).
  * Matches Python PyJWT implementation.
  *
  * @param payload - JWT payload claims
  * @param privateKeyPem - Private key in PEM format (PKCS#8)
- * @param algorithm - Signing algorithm: "RS256" or "ES256K"
- * @param extraHeaders - Additional JWT header parameters (e.g., kid)
+ * @param algorithm - Signing algorithm, e.g. "RS256", "ES256K", "ES256" or "EdDSA"
+ * @param extraHeaders - Additional JWT header parameters; `kid` defaults to the RFC 7638 thumbprint of the key
  * @returns Signed JWT string
  */
 export async function signJwtWithAlgorithm(
   payload: Record<string, unknown>,
   privateKeyPem: string,
-  algorithm: "RS256" | "ES256K",
+  algorithm: JwtAlgorithm,
   extraHeaders?: Omit<JWTHeaderParameters, "alg" | "typ">
 ): Promise<string> {
-  if (algorithm === "ES256K") {
-    // Use secp256k1 from @noble/curves (matches Python PyJWT ES256K support)
-    const privateJwk = importSecp256k1PrivateKeyFromPem(privateKeyPem);
-
-    // Build JWT manually for ES256K
-    const headerObj = { alg: "ES256K", typ: "JWT", ...extraHeaders };
-    const headerB64 = base64urlEncode(new TextEncoder().encode(JSON.stringify(headerObj)));
-    const payloadB64 = base64urlEncode(new TextEncoder().encode(JSON.stringify(payload)));
-    const signingInput = `${headerB64}.${payloadB64}`;
-
-    const signature = await signSecp256k1(privateJwk, new TextEncoder().encode(signingInput));
-    const signatureB64 = base64urlEncode(signature);
-
-    return `${signingInput}.${signatureB64}`;
-  } else {
-    // Use jose library for RS256
-    const key = await importPKCS8(privateKeyPem, algorithm);
-    const jwt = new SignJWT(payload as JWTPayload).setProtectedHeader({ alg: algorithm, typ: "JWT", ...extraHeaders });
-    return await jwt.sign(key);
-  }
+  const keyAlgorithm = getKeyAlgorithm(algorithm);
+  const privateJwk = await keyAlgorithm.importPrivateKeyPem(privateKeyPem);
+  const header = { alg: keyAlgorithm.alg, typ: "JWT", kid: computeJwkThumbprint(privateJwk), ...extraHeaders };
+  return signCompactJws(header, payload, (data) =>
+    keyAlgorithm.sign(privateJwk, data)
+  );
+}
+
+/**
+ * Sign JWT with a Signer, e.g. a key held in an HSM or KMS.
+ *
+ * @param payload - JWT payload claims
+ * @param signer - Signer holding the private key; its `alg` and `kid` go into the header
+ * @param extraHeaders - Additional JWT header parameters, overriding `kid`
+ * @returns Signed JWT string
+ */
+export async function signJwtWithSigner(
+  payload: Record<string, unknown>,
+  signer: Signer,
+  extraHeaders?: Omit<JWTHeaderParameters, "alg" | "typ">
+): Promise<string> {
+  const header = { alg: signer.alg, typ: "JWT", kid: signer.kid, ...extraHeaders };
+  return signCompactJws(header, payload, (data) => signer.sign(data));
 }
 
 /**
- * Verify JWT with algorithm support for RS256 and ES256K.
+ * Key material accepted by verifyJwtWithAlgorithm:
+ * - an SPKI PEM (`-----BEGIN PUBLIC KEY-----`)
+ * - a public JWK
+ * - a DID or DID URL (`did:wba:example.com#key-1`), resolved through a DidResolver
+ */
+export type JwtVerificationKey = string | JsonWebKey;
+
+/**
+ * Options for verifyJwtWithAlgorithm. Claim checks follow jose's jwtVerify
+ * (issuer, audience, subject, typ, clockTolerance, maxTokenAge, requiredClaims, currentDate).
+ */
+export interface JwtVerifyOptions extends JWTVerifyOptions {
+  /** Resolver used when the key is a DID URL (defaults to createDidResolver()) */
+  resolver?: DidResolver;
+  /** HTTP client for the default resolver */
+  httpClient?: HttpClient;
+  /**
+   * For DID URL keys, only accept methods listed under this verification relationship
+   * (e.g. "assertionMethod" for credentials). Defaults to any method in the document.
+   */
+  verificationRelationship?: DidRelationship;
+}
+
+/**
+ * Verify JWT with any algorithm from the key algorithm registry.
  * Matches Python PyJWT implementation.
  *
+ * Errors are jose's error classes (JWTExpired, JWTClaimValidationFailed,
+ * JWSSignatureVerificationFailed, ...) for every algorithm.
+ *
  * @param token - JWT token string
- * @param publicKeyPem - Public key in PEM format
- * @param algorithm - Expected algorithm: "RS256" or "ES256K"
- * @param options - Verification options (audience, etc.)
+ * @param publicKey - SPKI PEM, public JWK, or DID URL of the signing key
+ * @param algorithm - Expected algorithm, e.g. "RS256", "ES256K", "ES256" or "EdDSA"
+ * @param options - Claim validation options (issuer, audience, clockTolerance, etc.)
  * @returns Verified JWT payload
  */
 export async function verifyJwtWithAlgorithm(
   token: string,
-  publicKeyPem: string,
-  algorithm: "RS256" | "ES256K",
-  options?: JWTVerifyOptions
+  publicKey: JwtVerificationKey,
+  algorithm: JwtAlgorithm,
+  options: JwtVerifyOptions = {}
 ): Promise<JWTPayload> {
-  if (algorithm === "ES256K") {
-    // Use secp256k1 from @noble/curves (matches Python PyJWT ES256K support)
-    const parts = token.split(".");
-    if (parts.length !== 3) {
-      throw new Error("Invalid JWT format");
-    }
-
-    const headerB64 = parts[0]!;
-    const payloadB64 = parts[1]!;
-    const signatureB64 = parts[2]!;
-    const signingInput = `${headerB64}.${payloadB64}`;
-
-    // Parse and verify header
-    const header = JSON.parse(new TextDecoder().decode(base64urlDecode(headerB64)));
-    if (!header.alg || header.alg !== "ES256K") {
-      throw new Error(`Algorithm mismatch: expected ES256K, got ${header.alg ?? "none"}`);
-    }
-
-    // Verify signature
-    const publicJwk = importSecp256k1PrivateKeyFromPem(publicKeyPem); // Will parse public key from PEM
-    const isValid = await verifySecp256k1Signature(
-      publicJwk,
-      new TextEncoder().encode(signingInput),
-      signatureB64
-    );
-
-    if (!isValid) {
-      throw new Error("Invalid signature");
-    }
-
-    // Parse and validate payload
-    const payload = JSON.parse(new TextDecoder().decode(base64urlDecode(payloadB64))) as JWTPayload;
-
-    // Verify time claims (matches PyJWT behavior)
-    const now = Math.floor(Date.now() / 1000);
-    if (payload.exp && payload.exp < now) {
-      throw new Error("JWT expired");
-    }
-    if (payload.nbf && payload.nbf > now) {
-      throw new Error("JWT not yet valid");
-    }
-
-    // Verify audience if specified
-    if (options?.audience) {
-      const expectedAud = Array.isArray(options.audience) ? options.audience : [options.audience];
-      const actualAud = Array.isArray(payload.aud) ? payload.aud : payload.aud ? [payload.aud] : [];
-      if (!expectedAud.some(aud => actualAud.includes(aud))) {
-        throw new Error("Audience mismatch");
-      }
-    }
+  const { resolver, httpClient, verificationRelationship, ...claimOptions } = options;
+  const keyAlgorithm = getKeyAlgorithm(algorithm);
 
+  if (algorithm === "RS256" && typeof publicKey === "string" && isPem(publicKey)) {
+    // Use jose library for RS256 (it also performs the full claim set validation)
+    const key = await importSPKI(publicKey, algorithm);
+    const { payload } = await jwtVerify(token, key, { ...claimOptions, algorithms: [algorithm] });
     return payload;
-  } else {
-    // Use jose library for RS256
-    const key = await importSPKI(publicKeyPem, algorithm);
-    const { payload } = await jwtVerify(token, key, { algorithms: [algorithm], ...options });
+  }
+
+  const header = decodeProtectedHeader(token);
+  const publicJwk = await resolveVerificationKey(
+    publicKey,
+    keyAlgorithm,
+    header,
+    () => resolver ?? createDidResolver(httpClient ? { httpClient } : {}),
+    verificationRelationship
+  );
+
+  if (algorithm === "RS256") {
+    const key = await importJWK(toPublicJwk(publicJwk) as JWK, algorithm);
+    const { payload } = await jwtVerify(token, key, { ...claimOptions, algorithms: [algorithm] });
     return payload;
   }
+
+  return verifyCompactJws(token, keyAlgorithm, publicJwk, claimOptions);
+}
+
+function isPem(value: string): boolean {
+  return value.trimStart().startsWith("-----BEGIN");
+}
+
+/**
+ * Drop private members so a private JWK can be passed where a public one is expected.
+ */
+function toPublicJwk(jwk: JsonWebKey): JsonWebKey {
+  const { d: _d, p: _p, q: _q, dp: _dp, dq: _dq, qi: _qi, ...pub } = jwk;
+  return pub;
+}
+
+function decodeProtectedHeader(token: string): Record<string, unknown> {
+  const headerB64 = token.split(".")[0];
+  if (!headerB64) throw new errors.JWSInvalid("Invalid JWT format");
+  try {
+    return JSON.parse(new TextDecoder().decode(base64urlDecode(headerB64)));
+  } catch {
+    throw new errors.JWSInvalid("JWS Protected Header is invalid");
+  }
+}
+
+/**
+ * Turn the caller supplied key into a public JWK.
+ *
+ * For DID URLs the verification method is picked by the URL fragment, then by the
+ * JWT `kid` header, then as the first method whose key fits the algorithm. With a
+ * relationship, methods not listed under it are never selected.
+ */
+async function resolveVerificationKey(
+  publicKey: JwtVerificationKey,
+  keyAlgorithm: KeyAlgorithm,
+  header: Record<string, unknown>,
+  getResolver: () => DidResolver,
+  relationship?: DidRelationship
+): Promise<JsonWebKey> {
+  if (typeof publicKey !== "string") return toPublicJwk(publicKey);
+  if (isPem(publicKey)) return keyAlgorithm.importPublicKeyPem(publicKey);
+  if (!publicKey.startsWith("did:")) {
+    throw new TypeError("Verification key must be an SPKI PEM, a public JWK or a DID URL");
+  }
+
+  const [did, fragment] = publicKey.split("#", 2) as [string, string | undefined];
+  const document = await requireDidDocument(getResolver(), did);
+  const kid = typeof header.kid === "string" ? header.kid : undefined;
+  const wanted = fragment ? `#${fragment}` : kid;
+
+  const candidates = relationship ? getRelationshipMethods(document, relationship) : document.verificationMethod;
+  const method = wanted
+    ? findVerificationMethod(document, wanted, relationship)
+    : candidates.find((vm) => {
+        const jwk = methodJwk(vm);
+        return jwk?.kty === keyAlgorithm.kty && jwk.crv === keyAlgorithm.crv;
+      });
+  if (!method) {
+    const scope = relationship ? ` under ${relationship}` : "";
+    throw new errors.JWKSNoMatchingKey(`No verification method ${wanted ?? `for ${keyAlgorithm.alg}`}${scope} in ${did}`);
+  }
+  try {
+    return getVerificationMethodJwk(method);
+  } catch (error) {
+    throw new errors.JWKSNoMatchingKey(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function methodJwk(method: DidVerificationMethod): JsonWebKey | undefined {
+  try {
+    return getVerificationMethodJwk(method);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build a compact JWS using a registered key algorithm's signer.
+ */
+async function signCompactJws(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  sign: (data: Uint8Array) => Promise<Uint8Array>
+): Promise<string> {
+  const headerB64 = base64urlEncode(new TextEncoder().encode(JSON.stringify(header)));
+  const payloadB64 = base64urlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  const signingInput = `${headerB64}.${payloadB64}`;
+
+  const signature = await sign(new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64urlEncode(signature)}`;
+}
+
+/**
+ * Verify a compact JWS with a registered key algorithm and validate its claims like jwtVerify.
+ */
+async function verifyCompactJws(
+  token: string,
+  keyAlgorithm: KeyAlgorithm,
+  publicJwk: JsonWebKey,
+  options: JWTVerifyOptions
+): Promise<JWTPayload> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new errors.JWSInvalid("Invalid JWT format");
+  }
+
+  const headerB64 = parts[0]!;
+  const payloadB64 = parts[1]!;
+  const signatureB64 = parts[2]!;
+  const signingInput = `${headerB64}.${payloadB64}`;
+
+  // Parse and verify header
+  const header = decodeProtectedHeader(token);
+  if (!header.alg || header.alg !== keyAlgorithm.alg) {
+    throw new errors.JOSEAlgNotAllowed(`Algorithm mismatch: expected ${keyAlgorithm.alg}, got ${header.alg ?? "none"}`);
+  }
+
+  // Verify signature
+  const isValid = await keyAlgorithm.verify(publicJwk, new TextEncoder().encode(signingInput), signatureB64);
+  if (!isValid) {
+    throw new errors.JWSSignatureVerificationFailed();
+  }
+
+  // jose does not know every registered algorithm, so the signature is checked above and
+  // the claims by jose's own validation, through its unsecured JWT decoder
+  const unsecured = `${base64urlEncode(new TextEncoder().encode(JSON.stringify({ ...header, alg: "none" })))}.${payloadB64}.`;
+  return UnsecuredJWT.decode(unsecured, options).payload;
 }
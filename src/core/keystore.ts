@@ -0,0 +1,484 @@
+/**
+ * Keystores
+ *
+ * Persist agent keys encrypted with a password:
+ * - single keys as PKCS#8 `ENCRYPTED PRIVATE KEY` PEMs (PBES2 with scrypt and
+ *   AES-256-CBC, readable by `openssl pkcs8`)
+ * - keystore files: JSON holding a DID, its encrypted keys and optionally its DID document
+ *
+ * InMemoryKeystore keeps keystore files in a Map (tests); FileKeystore writes one file
+ * per DID to a directory (Node.js / Bun).
+ *
+ * Fail Fast: wrong passwords and damaged files throw KeystoreError.
+ *
+ * @packageDocumentation
+ */
+
+import { z } from "zod";
+import { scryptAsync } from "@noble/hashes/scrypt.js";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { x25519 } from "@noble/curves/ed25519.js";
+import {
+  ed25519PrivateKeyToJwk,
+  jwkToRawSecp256k1PublicKey,
+  p256PrivateKeyToJwk,
+  secp256k1PublicKeyToJwk,
+  x25519PublicKeyToJwk,
+} from "@/core/crypto.js";
+import { DidDocumentSchema, type DidDocument } from "@/core/did.js";
+import {
+  decodeEncryptedPkcs8PrivateKey,
+  decodePem,
+  decodePkcs8PrivateKey,
+  encodeEncryptedPkcs8PrivateKey,
+  encodePem,
+  encodePkcs8PrivateKey,
+  type DecodedPrivateKey,
+} from "@/core/pem.js";
+import { base64urlDecode, base64urlEncode } from "@/core/utils.js";
+
+/**
+ * scrypt cost settings for new encryptions. Decryption reads them from the key and
+ * rejects keys outside the limits below.
+ */
+export interface KeyEncryptionOptions {
+  /** scrypt N, a power of two up to 2^20 (default: 2^15) */
+  cost?: number;
+  /** scrypt r, up to 32 (default: 8) */
+  blockSize?: number;
+  /** scrypt p, up to 16 (default: 1) */
+  parallelization?: number;
+}
+
+/** Upper bounds for scrypt parameters, so a crafted key cannot exhaust memory or CPU */
+const MAX_SCRYPT_COST = 2 ** 20;
+const MAX_SCRYPT_BLOCK_SIZE = 32;
+const MAX_SCRYPT_PARALLELIZATION = 16;
+/** scrypt needs 128 * N * r bytes */
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+
+export type KeystoreErrorCode = "notFound" | "wrongPassword" | "invalidKeystore" | "unsupportedKey";
+
+export class KeystoreError extends Error {
+  constructor(
+    public readonly code: KeystoreErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "KeystoreError";
+  }
+}
+
+// ============================================
+// Encrypted PKCS#8
+// ============================================
+
+/**
+ * Encrypt a private JWK (secp256k1, P-256, Ed25519 or X25519) as a PKCS#8
+ * `ENCRYPTED PRIVATE KEY` PEM.
+ *
+ * @example
+ * ```typescript
+ * const pem = await encryptPrivateKey(privateKeys["key-1"], process.env.KEY_PASSWORD!);
+ * const privateKey = await decryptPrivateKey(pem, process.env.KEY_PASSWORD!);
+ * ```
+ */
+export async function encryptPrivateKey(
+  privateKey: JsonWebKey,
+  password: string | Uint8Array,
+  options: KeyEncryptionOptions = {}
+): Promise<string> {
+  const params = {
+    salt: globalThis.crypto.getRandomValues(new Uint8Array(16)),
+    cost: options.cost ?? 2 ** 15,
+    blockSize: options.blockSize ?? 8,
+    parallelization: options.parallelization ?? 1,
+    iv: globalThis.crypto.getRandomValues(new Uint8Array(16)),
+  };
+  const invalid = checkScryptParams(params);
+  if (invalid) throw new RangeError(invalid);
+  const key = await deriveKey(password, params, "encrypt");
+  const plaintext = new Uint8Array(encodePkcs8PrivateKey(toDecodedPrivateKey(privateKey)));
+  const encryptedData = new Uint8Array(
+    await getSubtle().encrypt({ name: "AES-CBC", iv: params.iv }, key, plaintext)
+  );
+  return encodePem(encodeEncryptedPkcs8PrivateKey({ params, encryptedData }), "ENCRYPTED PRIVATE KEY");
+}
+
+/**
+ * Decrypt a PKCS#8 `ENCRYPTED PRIVATE KEY` PEM (PBES2 with scrypt and AES-256-CBC).
+ *
+ * Fail Fast: throws KeystoreError "wrongPassword" if the key does not decrypt,
+ * "invalidKeystore" if the PEM is damaged or its scrypt parameters are out of range.
+ */
+export async function decryptPrivateKey(pem: string, password: string | Uint8Array): Promise<JsonWebKey> {
+  const { label, der } = damagedKeyAsKeystoreError(() => decodePem(pem));
+  if (label !== "ENCRYPTED PRIVATE KEY") {
+    throw new KeystoreError("invalidKeystore", `Expected an ENCRYPTED PRIVATE KEY PEM, got ${label}`);
+  }
+  const { params, encryptedData } = damagedKeyAsKeystoreError(() => decodeEncryptedPkcs8PrivateKey(der));
+  const invalid = checkScryptParams(params);
+  if (invalid) throw new KeystoreError("invalidKeystore", `Damaged key: ${invalid}`);
+  let key: CryptoKey;
+  try {
+    key = await deriveKey(password, params, "decrypt");
+  } catch (error) {
+    throw new KeystoreError("invalidKeystore", `Damaged key: ${(error as Error).message}`);
+  }
+
+  let decoded: DecodedPrivateKey;
+  try {
+    const plaintext = await getSubtle().decrypt(
+      { name: "AES-CBC", iv: new Uint8Array(params.iv) },
+      key,
+      new Uint8Array(encryptedData)
+    );
+    decoded = decodePkcs8PrivateKey(new Uint8Array(plaintext));
+  } catch {
+    // A wrong key almost always breaks the padding, otherwise the PKCS#8 structure
+    throw new KeystoreError("wrongPassword", "Wrong password or damaged key");
+  }
+  return fromDecodedPrivateKey(decoded);
+}
+
+function damagedKeyAsKeystoreError<T>(decode: () => T): T {
+  try {
+    return decode();
+  } catch (error) {
+    throw new KeystoreError("invalidKeystore", `Damaged key: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * @returns why the scrypt parameters are out of range, or undefined if they are acceptable
+ */
+function checkScryptParams(params: { cost: number; blockSize: number; parallelization: number }): string | undefined {
+  const { cost, blockSize, parallelization } = params;
+  if (!Number.isInteger(cost) || cost < 2 || cost > MAX_SCRYPT_COST || (cost & (cost - 1)) !== 0) {
+    return `scrypt N must be a power of two up to 2^20, got ${cost}`;
+  }
+  if (!Number.isInteger(blockSize) || blockSize < 1 || blockSize > MAX_SCRYPT_BLOCK_SIZE) {
+    return `scrypt r must be between 1 and ${MAX_SCRYPT_BLOCK_SIZE}, got ${blockSize}`;
+  }
+  if (!Number.isInteger(parallelization) || parallelization < 1 || parallelization > MAX_SCRYPT_PARALLELIZATION) {
+    return `scrypt p must be between 1 and ${MAX_SCRYPT_PARALLELIZATION}, got ${parallelization}`;
+  }
+  if (128 * cost * blockSize > MAX_SCRYPT_MEMORY) {
+    return `scrypt N and r need more than ${MAX_SCRYPT_MEMORY / 2 ** 20} MiB`;
+  }
+  return undefined;
+}
+
+async function deriveKey(
+  password: string | Uint8Array,
+  params: { salt: Uint8Array; cost: number; blockSize: number; parallelization: number },
+  usage: KeyUsage
+): Promise<CryptoKey> {
+  const raw = await scryptAsync(password, params.salt, {
+    N: params.cost,
+    r: params.blockSize,
+    p: params.parallelization,
+    dkLen: 32,
+  });
+  return getSubtle().importKey("raw", new Uint8Array(raw), "AES-CBC", false, [usage]);
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) throw new Error("Key encryption requires WebCrypto (crypto.subtle)");
+  return subtle;
+}
+
+function toDecodedPrivateKey(jwk: JsonWebKey): DecodedPrivateKey {
+  if (!jwk.d) throw new KeystoreError("unsupportedKey", "Private JWK missing 'd'");
+  const privateKey = base64urlDecode(jwk.d);
+  if (jwk.kty === "EC" && (jwk.crv === "secp256k1" || jwk.crv === "P-256")) {
+    return { curve: jwk.crv, privateKey, publicKey: jwkToRawSecp256k1PublicKey(jwk) };
+  }
+  if (jwk.kty === "OKP" && (jwk.crv === "Ed25519" || jwk.crv === "X25519")) {
+    return { curve: jwk.crv, privateKey };
+  }
+  throw new KeystoreError("unsupportedKey", `Cannot store ${jwk.kty} ${jwk.crv ?? ""} keys`.trim());
+}
+
+function fromDecodedPrivateKey(key: DecodedPrivateKey): JsonWebKey {
+  const d = base64urlEncode(key.privateKey);
+  switch (key.curve) {
+    case "secp256k1":
+      return { ...secp256k1PublicKeyToJwk(secp256k1.getPublicKey(key.privateKey, false)), d };
+    case "P-256":
+      return p256PrivateKeyToJwk(key.privateKey);
+    case "Ed25519":
+      return ed25519PrivateKeyToJwk(key.privateKey);
+    case "X25519":
+      return { ...x25519PublicKeyToJwk(x25519.getPublicKey(key.privateKey)), d };
+  }
+}
+
+/**
+ * Compare the public members of two JWKs. Thumbprints would need a key algorithm, which
+ * key agreement keys (X25519) do not have.
+ */
+function samePublicKey(a: JsonWebKey, b: JsonWebKey): boolean {
+  return a.kty === b.kty && a.crv === b.crv && a.x === b.x && a.y === b.y;
+}
+
+// ============================================
+// Keystore files
+// ============================================
+
+/**
+ * A DID and its private keys, by verification method fragment (as returned by
+ * createDidWbaDocument).
+ */
+export interface DidKeys {
+  did: string;
+  /** Private JWKs by verification method fragment, e.g. `{ "key-1": {...} }` */
+  privateKeys: Record<string, JsonWebKey>;
+  didDocument?: DidDocument;
+}
+
+/**
+ * JSON keystore file. Public keys are stored in the clear so a keystore can be
+ * inspected without its password.
+ */
+export interface KeystoreFile {
+  version: 1;
+  did: string;
+  keys: Array<{
+    /** Verification method fragment */
+    id: string;
+    publicJwk: JsonWebKey;
+    /** PKCS#8 ENCRYPTED PRIVATE KEY PEM */
+    encryptedKey: string;
+  }>;
+  didDocument?: DidDocument;
+}
+
+const KeystoreFileSchema = z.object({
+  version: z.literal(1),
+  did: z.string(),
+  keys: z.array(
+    z.object({
+      id: z.string(),
+      publicJwk: z.record(z.string(), z.unknown()),
+      encryptedKey: z.string(),
+    })
+  ),
+  didDocument: DidDocumentSchema.optional(),
+});
+
+/**
+ * Encrypt a DID's keys into a keystore file
+ */
+export async function encryptKeystore(
+  keys: DidKeys,
+  password: string | Uint8Array,
+  options?: KeyEncryptionOptions
+): Promise<KeystoreFile> {
+  const file: KeystoreFile = { version: 1, did: keys.did, keys: [] };
+  for (const [id, privateKey] of Object.entries(keys.privateKeys)) {
+    const { d: _d, ...publicJwk } = privateKey;
+    file.keys.push({ id, publicJwk, encryptedKey: await encryptPrivateKey(privateKey, password, options) });
+  }
+  if (keys.didDocument) file.didDocument = keys.didDocument;
+  return file;
+}
+
+/**
+ * Decrypt a keystore file, as parsed JSON or as text.
+ *
+ * Fail Fast: throws KeystoreError "invalidKeystore" for malformed files or keys that do
+ * not match their public halves, "wrongPassword" if a key does not decrypt.
+ */
+export async function decryptKeystore(file: KeystoreFile | string, password: string | Uint8Array): Promise<DidKeys> {
+  const parsed = parseKeystoreFile(file);
+  const privateKeys: Record<string, JsonWebKey> = {};
+  for (const entry of parsed.keys) {
+    const privateKey = await decryptPrivateKey(entry.encryptedKey, password);
+    if (!samePublicKey(privateKey, entry.publicJwk)) {
+      throw new KeystoreError("invalidKeystore", `Key ${entry.id} does not match its public key`);
+    }
+    privateKeys[entry.id] = privateKey;
+  }
+  return parsed.didDocument
+    ? { did: parsed.did, privateKeys, didDocument: parsed.didDocument }
+    : { did: parsed.did, privateKeys };
+}
+
+/**
+ * Validate a keystore file, as parsed JSON or as text
+ */
+export function parseKeystoreFile(file: KeystoreFile | string): KeystoreFile {
+  let json: unknown = file;
+  if (typeof file === "string") {
+    try {
+      json = JSON.parse(file);
+    } catch {
+      throw new KeystoreError("invalidKeystore", "Keystore file is not JSON");
+    }
+  }
+  const result = KeystoreFileSchema.safeParse(json);
+  if (!result.success) {
+    throw new KeystoreError("invalidKeystore", `Invalid keystore file: ${result.error.issues[0]?.message ?? "unknown"}`);
+  }
+  return result.data as KeystoreFile;
+}
+
+// ============================================
+// Keystores
+// ============================================
+
+/**
+ * Stores password-encrypted keys by DID.
+ */
+export interface Keystore {
+  /** Store (or replace) a DID's keys, encrypted with `password` */
+  save(keys: DidKeys, password: string | Uint8Array): Promise<void>;
+  /**
+   * Load and decrypt a DID's keys.
+   *
+   * Fail Fast: throws KeystoreError "notFound", "wrongPassword" or "invalidKeystore".
+   */
+  load(did: string, password: string | Uint8Array): Promise<DidKeys>;
+  /** DIDs with stored keys */
+  list(): Promise<string[]>;
+  /** @returns false if no keys were stored for the DID */
+  delete(did: string): Promise<boolean>;
+}
+
+export interface InMemoryKeystoreConfig {
+  /** scrypt cost settings; lower them to speed up tests */
+  encryption?: KeyEncryptionOptions;
+}
+
+/**
+ * Process-local keystore. Keys are held encrypted, exactly as FileKeystore writes them.
+ */
+export class InMemoryKeystore implements Keystore {
+  private readonly files = new Map<string, KeystoreFile>();
+
+  constructor(private readonly config: InMemoryKeystoreConfig = {}) {}
+
+  async save(keys: DidKeys, password: string | Uint8Array): Promise<void> {
+    this.files.set(keys.did, await encryptKeystore(keys, password, this.config.encryption));
+  }
+
+  async load(did: string, password: string | Uint8Array): Promise<DidKeys> {
+    const file = this.files.get(did);
+    if (!file) throw new KeystoreError("notFound", `No keys stored for ${did}`);
+    return decryptKeystore(file, password);
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.files.keys()];
+  }
+
+  async delete(did: string): Promise<boolean> {
+    return this.files.delete(did);
+  }
+}
+
+export interface FileKeystoreConfig {
+  /** Directory holding one `<url-encoded DID>.json` keystore file per DID */
+  directory: string;
+  encryption?: KeyEncryptionOptions;
+}
+
+/**
+ * Keystore writing JSON keystore files to a directory (Node.js / Bun). Files are created
+ * with mode 0600 and replaced atomically.
+ *
+ * @example
+ * ```typescript
+ * const keystore = createFileKeystore({ directory: ".anp/keys" });
+ * const { did, didDocument, privateKeys } = await createDidWbaDocument({ hostname: "agent.example.com" });
+ * await keystore.save({ did, didDocument, privateKeys }, password);
+ *
+ * const keys = await keystore.load(did, password);
+ * const auth = createAuthenticator({ did, privateKey: keys.privateKeys["key-1"] });
+ * ```
+ */
+export class FileKeystore implements Keystore {
+  constructor(private readonly config: FileKeystoreConfig) {}
+
+  async save(keys: DidKeys, password: string | Uint8Array): Promise<void> {
+    const fs = await loadFs();
+    const file = await encryptKeystore(keys, password, this.config.encryption);
+    await fs.mkdir(this.config.directory, { recursive: true, mode: 0o700 });
+    const path = this.pathFor(keys.did);
+    const temporary = `${path}.${base64urlEncode(globalThis.crypto.getRandomValues(new Uint8Array(6)))}.tmp`;
+    await fs.writeFile(temporary, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+    await fs.rename(temporary, path);
+  }
+
+  async load(did: string, password: string | Uint8Array): Promise<DidKeys> {
+    const fs = await loadFs();
+    let text: string;
+    try {
+      text = await fs.readFile(this.pathFor(did), "utf8");
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        throw new KeystoreError("notFound", `No keys stored for ${did}`);
+      }
+      throw error;
+    }
+    const file = parseKeystoreFile(text);
+    if (file.did !== did) {
+      throw new KeystoreError("invalidKeystore", `Keystore file for ${did} holds keys of ${file.did}`);
+    }
+    return decryptKeystore(file, password);
+  }
+
+  async list(): Promise<string[]> {
+    const fs = await loadFs();
+    let names: string[];
+    try {
+      names = await fs.readdir(this.config.directory);
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") return [];
+      throw error;
+    }
+    return names.filter((name) => name.endsWith(".json")).map((name) => decodeURIComponent(name.slice(0, -5)));
+  }
+
+  async delete(did: string): Promise<boolean> {
+    const fs = await loadFs();
+    try {
+      await fs.unlink(this.pathFor(did));
+      return true;
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  private pathFor(did: string): string {
+    return `${this.config.directory.replace(/[\\/]+$/, "")}/${encodeURIComponent(did)}.json`;
+  }
+}
+
+/**
+ * node:fs is imported on first use so the rest of the module stays platform-independent
+ */
+async function loadFs(): Promise<typeof import("node:fs/promises")> {
+  return import("node:fs/promises");
+}
+
+// ============================================
+// Factory Functions
+// ============================================
+
+/**
+ * Create a process-local keystore
+ */
+export function createInMemoryKeystore(config?: InMemoryKeystoreConfig): InMemoryKeystore {
+  return new InMemoryKeystore(config);
+}
+
+/**
+ * Create a keystore writing files to a directory
+ */
+export function createFileKeystore(config: FileKeystoreConfig): FileKeystore {
+  return new FileKeystore(config);
+}
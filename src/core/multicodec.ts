@@ -0,0 +1,138 @@
+/**
+ * Multicodec / Multibase Public Keys
+ *
+ * Encodes public keys as `z`-prefixed base58btc multibase strings with a multicodec
+ * key type prefix, the representation used by did:key and `publicKeyMultibase`.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  ed25519PublicKeyToJwk,
+  jwkToRawEd25519PublicKey,
+  jwkToRawP256PublicKey,
+  jwkToRawSecp256k1PublicKey,
+  jwkToRawX25519PublicKey,
+  p256PublicKeyToJwk,
+  secp256k1PublicKeyToJwk,
+  x25519PublicKeyToJwk,
+} from "@/core/crypto.js";
+import { compressPublicKey, type KeyCurve } from "@/core/pem.js";
+import { fromBase58, toBase58 } from "@/core/utils.js";
+
+/**
+ * Multicodec codes of the supported public key types.
+ */
+export const MULTICODEC_KEY_CODES: Record<KeyCurve, number> = {
+  secp256k1: 0xe7, // secp256k1-pub (compressed)
+  "P-256": 0x1200, // p256-pub (compressed)
+  Ed25519: 0xed, // ed25519-pub
+  X25519: 0xec, // x25519-pub
+};
+
+export interface MulticodecPublicKey {
+  curve: KeyCurve;
+  /** Raw public key; EC keys are SEC1 compressed points */
+  publicKey: Uint8Array;
+}
+
+function encodeVarint(value: number): Uint8Array {
+  const out: number[] = [];
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  out.push(value);
+  return Uint8Array.from(out);
+}
+
+function decodeVarint(bytes: Uint8Array): { value: number; length: number } {
+  let value = 0;
+  for (let i = 0; i < bytes.length && i < 4; i++) {
+    const byte = bytes[i]!;
+    value |= (byte & 0x7f) << (7 * i);
+    if ((byte & 0x80) === 0) return { value, length: i + 1 };
+  }
+  throw new Error("Invalid multicodec varint");
+}
+
+/**
+ * Prefix a raw public key with its multicodec code. EC keys are compressed first.
+ */
+export function encodeMulticodecPublicKey(key: MulticodecPublicKey): Uint8Array {
+  const raw = key.curve === "secp256k1" || key.curve === "P-256" ? compressPublicKey(key.curve, key.publicKey) : key.publicKey;
+  const prefix = encodeVarint(MULTICODEC_KEY_CODES[key.curve]);
+  const out = new Uint8Array(prefix.length + raw.length);
+  out.set(prefix);
+  out.set(raw, prefix.length);
+  return out;
+}
+
+/**
+ * Split a multicodec prefixed public key into curve and raw key bytes.
+ *
+ * Fail Fast: throws on unknown codecs or wrong key lengths.
+ */
+export function decodeMulticodecPublicKey(bytes: Uint8Array): MulticodecPublicKey {
+  const { value, length } = decodeVarint(bytes);
+  const entry = Object.entries(MULTICODEC_KEY_CODES).find(([, code]) => code === value);
+  if (!entry) throw new Error(`Unsupported multicodec key type: 0x${value.toString(16)}`);
+
+  const curve = entry[0] as KeyCurve;
+  const publicKey = bytes.slice(length);
+  const expected = curve === "secp256k1" || curve === "P-256" ? 33 : 32;
+  if (publicKey.length !== expected) throw new Error(`Invalid ${curve} public key length`);
+  return { curve, publicKey };
+}
+
+/**
+ * Encode a public key as a base58btc multibase string (`z6Mk...` for Ed25519).
+ */
+export function encodeMultibasePublicKey(key: MulticodecPublicKey): string {
+  return `z${toBase58(encodeMulticodecPublicKey(key))}`;
+}
+
+/**
+ * Decode a base58btc multibase public key string.
+ *
+ * Fail Fast: only the `z` (base58btc) multibase prefix is supported.
+ */
+export function decodeMultibasePublicKey(value: string): MulticodecPublicKey {
+  if (!value.startsWith("z")) throw new Error("Only base58btc ('z') multibase keys are supported");
+  return decodeMulticodecPublicKey(fromBase58(value.slice(1)));
+}
+
+/**
+ * Convert a public JWK to a base58btc multibase string.
+ */
+export function jwkToMultibasePublicKey(jwk: JsonWebKey): string {
+  switch (jwk.crv) {
+    case "secp256k1":
+      return encodeMultibasePublicKey({ curve: "secp256k1", publicKey: jwkToRawSecp256k1PublicKey(jwk) });
+    case "P-256":
+      return encodeMultibasePublicKey({ curve: "P-256", publicKey: jwkToRawP256PublicKey(jwk) });
+    case "Ed25519":
+      return encodeMultibasePublicKey({ curve: "Ed25519", publicKey: jwkToRawEd25519PublicKey(jwk) });
+    case "X25519":
+      return encodeMultibasePublicKey({ curve: "X25519", publicKey: jwkToRawX25519PublicKey(jwk) });
+    default:
+      throw new Error(`Unsupported key type: kty=${jwk.kty ?? "none"}, crv=${jwk.crv ?? "none"}`);
+  }
+}
+
+/**
+ * Convert a base58btc multibase public key string to a JWK.
+ */
+export function multibasePublicKeyToJwk(value: string): JsonWebKey {
+  const { curve, publicKey } = decodeMultibasePublicKey(value);
+  switch (curve) {
+    case "secp256k1":
+      return secp256k1PublicKeyToJwk(publicKey);
+    case "P-256":
+      return p256PublicKeyToJwk(publicKey);
+    case "Ed25519":
+      return ed25519PublicKeyToJwk(publicKey);
+    case "X25519":
+      return x25519PublicKeyToJwk(publicKey);
+  }
+}
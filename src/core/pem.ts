@@ -0,0 +1,486 @@
+/**
+ * PEM / DER Key Codec
+ *
+ * Encodes and decodes the key containers the SDK reads and writes:
+ * - SEC1 `EC PRIVATE KEY` (RFC 5915)
+ * - PKCS#8 `PRIVATE KEY` (RFC 5208 / RFC 5958, including RFC 8410 Ed25519/X25519)
+ * - PKCS#8 `ENCRYPTED PRIVATE KEY` with PBES2 / scrypt / AES-256-CBC (RFC 8018, RFC 7914)
+ * - SPKI `PUBLIC KEY` (RFC 5280 / RFC 5480)
+ * - SEC1 compressed and uncompressed EC points
+ *
+ * Only the minimal DER subset needed for these structures is implemented.
+ *
+ * @packageDocumentation
+ */
+
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { p256 } from "@noble/curves/nist.js";
+import { base64Encode } from "@/core/utils.js";
+
+/**
+ * Curves understood by the codec.
+ */
+export type KeyCurve = "secp256k1" | "P-256" | "Ed25519" | "X25519";
+
+export interface DecodedPrivateKey {
+  curve: KeyCurve;
+  /** Raw private scalar / seed */
+  privateKey: Uint8Array;
+  /** Raw public key when the container carries it (SEC1 point for EC curves) */
+  publicKey?: Uint8Array;
+}
+
+export interface DecodedPublicKey {
+  curve: KeyCurve;
+  /** Raw public key (SEC1 point for EC curves, 32 bytes for OKP curves) */
+  publicKey: Uint8Array;
+}
+
+export type PrivateKeyPemFormat = "pkcs8" | "sec1";
+
+/**
+ * PBES2 parameters of an encrypted PKCS#8 key, with scrypt as key derivation function
+ * and AES-256-CBC as encryption scheme (as written by `openssl pkcs8 -topk8 -scrypt`).
+ */
+export interface Pbes2ScryptParameters {
+  salt: Uint8Array;
+  /** scrypt N */
+  cost: number;
+  /** scrypt r */
+  blockSize: number;
+  /** scrypt p */
+  parallelization: number;
+  /** AES-CBC initialization vector */
+  iv: Uint8Array;
+}
+
+export interface EncryptedPrivateKeyInfo {
+  params: Pbes2ScryptParameters;
+  /** AES-256-CBC encrypted PKCS#8 PrivateKeyInfo */
+  encryptedData: Uint8Array;
+}
+
+// ============================================
+// DER primitives
+// ============================================
+
+const TAG_INTEGER = 0x02;
+const TAG_BIT_STRING = 0x03;
+const TAG_OCTET_STRING = 0x04;
+const TAG_OID = 0x06;
+const TAG_SEQUENCE = 0x30;
+const TAG_CONTEXT_0 = 0xa0;
+const TAG_CONTEXT_1 = 0xa1;
+
+interface Tlv {
+  tag: number;
+  value: Uint8Array;
+  next: number;
+}
+
+function readTlv(buf: Uint8Array, offset: number): Tlv {
+  let o = offset;
+  const tag = buf[o++];
+  let len = buf[o++];
+  if (tag === undefined || len === undefined) throw new Error("ASN.1 length out of range");
+  if (len & 0x80) {
+    const numBytes = len & 0x7f;
+    // DER has no indefinite lengths (0x80), and no key container needs more than 4 length bytes
+    if (numBytes === 0 || numBytes > 4) throw new Error("ASN.1 length not supported");
+    len = 0;
+    for (let i = 0; i < numBytes; i++) {
+      const b = buf[o++];
+      if (b === undefined) throw new Error("ASN.1 length overflow");
+      len = len * 256 + b;
+    }
+  }
+  if (o + len > buf.length) throw new Error("ASN.1 length out of range");
+  return { tag, value: buf.slice(o, o + len), next: o + len };
+}
+
+function readChildren(buf: Uint8Array): Tlv[] {
+  const children: Tlv[] = [];
+  let i = 0;
+  while (i < buf.length) {
+    const child = readTlv(buf, i);
+    children.push(child);
+    i = child.next;
+  }
+  return children;
+}
+
+function readSequence(der: Uint8Array, what: string): Tlv[] {
+  const outer = readTlv(der, 0);
+  if (outer.tag !== TAG_SEQUENCE) throw new Error(`Invalid ${what}: missing sequence`);
+  return readChildren(outer.value);
+}
+
+function writeLength(len: number): number[] {
+  if (len < 0x80) return [len];
+  const bytes: number[] = [];
+  let val = len;
+  while (val > 0) {
+    bytes.push(val & 0xff);
+    val >>= 8;
+  }
+  bytes.reverse();
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function tlv(tag: number, ...parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((sum, p) => sum + p.length, 0);
+  const header = [tag, ...writeLength(length)];
+  const out = new Uint8Array(header.length + length);
+  out.set(header, 0);
+  let offset = header.length;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+function integer(value: number): Uint8Array {
+  const bytes: number[] = [];
+  let val = value;
+  do {
+    bytes.unshift(val % 256);
+    val = Math.floor(val / 256);
+  } while (val > 0);
+  if (bytes[0]! & 0x80) bytes.unshift(0);
+  return tlv(TAG_INTEGER, Uint8Array.from(bytes));
+}
+
+function readInteger(field: Tlv | undefined, what: string): number {
+  if (!field || field.tag !== TAG_INTEGER) throw new Error(`Invalid ${what}: expected an integer`);
+  if (field.value.length > 6 || (field.value[0]! & 0x80)) throw new Error(`Invalid ${what}: integer out of range`);
+  return field.value.reduce((n, b) => n * 256 + b, 0);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+// ============================================
+// Object identifiers (DER content bytes, without tag/length)
+// ============================================
+
+// id-ecPublicKey 1.2.840.10045.2.1
+const OID_EC_PUBLIC_KEY = Uint8Array.of(0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01);
+
+const CURVE_OIDS: Record<KeyCurve, Uint8Array> = {
+  // 1.3.132.0.10
+  secp256k1: Uint8Array.of(0x2b, 0x81, 0x04, 0x00, 0x0a),
+  // prime256v1 1.2.840.10045.3.1.7
+  "P-256": Uint8Array.of(0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07),
+  // id-Ed25519 1.3.101.112
+  Ed25519: Uint8Array.of(0x2b, 0x65, 0x70),
+  // id-X25519 1.3.101.110
+  X25519: Uint8Array.of(0x2b, 0x65, 0x6e),
+};
+
+// PBES2 1.2.840.113549.1.5.13
+const OID_PBES2 = Uint8Array.of(0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x05, 0x0d);
+// id-scrypt 1.3.6.1.4.1.11591.4.11
+const OID_SCRYPT = Uint8Array.of(0x2b, 0x06, 0x01, 0x04, 0x01, 0xda, 0x47, 0x04, 0x0b);
+// aes256-CBC 2.16.840.1.101.3.4.1.42
+const OID_AES256_CBC = Uint8Array.of(0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x01, 0x2a);
+
+function isEcCurve(curve: KeyCurve): curve is "secp256k1" | "P-256" {
+  return curve === "secp256k1" || curve === "P-256";
+}
+
+function curveFromOid(oid: Uint8Array): KeyCurve {
+  for (const [curve, bytes] of Object.entries(CURVE_OIDS) as Array<[KeyCurve, Uint8Array]>) {
+    if (bytesEqual(bytes, oid)) return curve;
+  }
+  throw new Error("Unsupported key algorithm or curve OID");
+}
+
+/**
+ * Resolve the curve named by an AlgorithmIdentifier SEQUENCE.
+ */
+function curveFromAlgorithmIdentifier(alg: Tlv): KeyCurve {
+  const [algorithm, parameters] = readChildren(alg.value);
+  if (!algorithm || algorithm.tag !== TAG_OID) throw new Error("Invalid AlgorithmIdentifier");
+  if (bytesEqual(algorithm.value, OID_EC_PUBLIC_KEY)) {
+    if (!parameters || parameters.tag !== TAG_OID) throw new Error("EC key is missing named curve parameters");
+    const curve = curveFromOid(parameters.value);
+    if (!isEcCurve(curve)) throw new Error("Invalid EC named curve");
+    return curve;
+  }
+  const curve = curveFromOid(algorithm.value);
+  if (isEcCurve(curve)) throw new Error("Invalid AlgorithmIdentifier");
+  return curve;
+}
+
+function algorithmIdentifier(curve: KeyCurve): Uint8Array {
+  if (isEcCurve(curve)) {
+    return tlv(TAG_SEQUENCE, tlv(TAG_OID, OID_EC_PUBLIC_KEY), tlv(TAG_OID, CURVE_OIDS[curve]));
+  }
+  return tlv(TAG_SEQUENCE, tlv(TAG_OID, CURVE_OIDS[curve]));
+}
+
+// ============================================
+// EC points
+// ============================================
+
+function ecPoint(curve: KeyCurve) {
+  if (curve === "secp256k1") return secp256k1.Point;
+  if (curve === "P-256") return p256.Point;
+  throw new Error(`Point encoding is only defined for EC curves, not ${curve}`);
+}
+
+/**
+ * Convert an EC point to its 33-byte compressed SEC1 form.
+ */
+export function compressPublicKey(curve: KeyCurve, publicKey: Uint8Array): Uint8Array {
+  if (publicKey.length === 33) return publicKey;
+  return ecPoint(curve).fromBytes(publicKey).toBytes(true);
+}
+
+/**
+ * Convert an EC point to its 65-byte uncompressed SEC1 form (0x04 || X || Y).
+ */
+export function decompressPublicKey(curve: KeyCurve, publicKey: Uint8Array): Uint8Array {
+  if (publicKey.length === 65 && publicKey[0] === 0x04) return publicKey;
+  return ecPoint(curve).fromBytes(publicKey).toBytes(false);
+}
+
+// ============================================
+// SEC1 ECPrivateKey
+// ============================================
+
+/**
+ * Decode a SEC1 ECPrivateKey. When embedded in PKCS#8 the curve parameters are usually
+ * omitted, so the caller passes the curve from the outer AlgorithmIdentifier.
+ */
+export function decodeSec1PrivateKey(der: Uint8Array, curveHint?: KeyCurve): DecodedPrivateKey {
+  // ECPrivateKey ::= SEQUENCE { version INTEGER(1), privateKey OCTET STRING,
+  //                             [0] parameters OPTIONAL, [1] publicKey BIT STRING OPTIONAL }
+  const [version, privateKey, ...optional] = readSequence(der, "ECPrivateKey");
+  if (!version || version.tag !== TAG_INTEGER) throw new Error("Invalid ECPrivateKey: missing version");
+  if (!privateKey || privateKey.tag !== TAG_OCTET_STRING) {
+    throw new Error("Invalid ECPrivateKey: missing private key octet string");
+  }
+
+  let curve = curveHint;
+  let publicKey: Uint8Array | undefined;
+  for (const field of optional) {
+    if (field.tag === TAG_CONTEXT_0) {
+      const oid = readTlv(field.value, 0);
+      if (oid.tag !== TAG_OID) throw new Error("Invalid ECPrivateKey: parameters must be a named curve");
+      const named = curveFromOid(oid.value);
+      if (curveHint && curveHint !== named) throw new Error("Invalid ECPrivateKey: curve mismatch");
+      curve = named;
+    } else if (field.tag === TAG_CONTEXT_1) {
+      const bits = readTlv(field.value, 0);
+      if (bits.tag !== TAG_BIT_STRING) throw new Error("Invalid ECPrivateKey: public key must be a bit string");
+      publicKey = bits.value.slice(1);
+    }
+  }
+  if (!curve || !isEcCurve(curve)) throw new Error("Invalid ECPrivateKey: unknown curve");
+  if (privateKey.value.length !== 32) throw new Error("Invalid private key length");
+
+  return publicKey ? { curve, privateKey: privateKey.value, publicKey } : { curve, privateKey: privateKey.value };
+}
+
+export function encodeSec1PrivateKey(key: DecodedPrivateKey, includeParameters = true): Uint8Array {
+  if (!isEcCurve(key.curve)) throw new Error(`SEC1 is only defined for EC curves, not ${key.curve}`);
+  const parts = [
+    tlv(TAG_INTEGER, Uint8Array.of(0x01)),
+    tlv(TAG_OCTET_STRING, key.privateKey),
+  ];
+  if (includeParameters) parts.push(tlv(TAG_CONTEXT_0, tlv(TAG_OID, CURVE_OIDS[key.curve])));
+  if (key.publicKey) parts.push(tlv(TAG_CONTEXT_1, tlv(TAG_BIT_STRING, Uint8Array.of(0x00), key.publicKey)));
+  return tlv(TAG_SEQUENCE, ...parts);
+}
+
+// ============================================
+// PKCS#8 PrivateKeyInfo / OneAsymmetricKey
+// ============================================
+
+export function decodePkcs8PrivateKey(der: Uint8Array): DecodedPrivateKey {
+  // PrivateKeyInfo ::= SEQUENCE { version, AlgorithmIdentifier, privateKey OCTET STRING, ... }
+  const [version, alg, privateKey] = readSequence(der, "PKCS#8");
+  if (!version || version.tag !== TAG_INTEGER) throw new Error("Invalid PKCS#8: missing version");
+  if (!alg || alg.tag !== TAG_SEQUENCE) throw new Error("Invalid PKCS#8: missing AlgorithmIdentifier");
+  if (!privateKey || privateKey.tag !== TAG_OCTET_STRING) {
+    throw new Error("Invalid PKCS#8: missing privateKey octet string");
+  }
+
+  const curve = curveFromAlgorithmIdentifier(alg);
+  if (isEcCurve(curve)) {
+    return decodeSec1PrivateKey(privateKey.value, curve);
+  }
+
+  // CurvePrivateKey ::= OCTET STRING (RFC 8410)
+  const inner = readTlv(privateKey.value, 0);
+  if (inner.tag !== TAG_OCTET_STRING) throw new Error("Invalid PKCS#8: inner CurvePrivateKey missing octet string");
+  if (inner.value.length !== 32) throw new Error("Invalid private key length");
+  return { curve, privateKey: inner.value };
+}
+
+export function encodePkcs8PrivateKey(key: DecodedPrivateKey): Uint8Array {
+  const inner = isEcCurve(key.curve)
+    ? encodeSec1PrivateKey(key, false)
+    : tlv(TAG_OCTET_STRING, key.privateKey);
+  return tlv(
+    TAG_SEQUENCE,
+    tlv(TAG_INTEGER, Uint8Array.of(0x00)),
+    algorithmIdentifier(key.curve),
+    tlv(TAG_OCTET_STRING, inner)
+  );
+}
+
+// ============================================
+// PKCS#8 EncryptedPrivateKeyInfo (PBES2 / scrypt / AES-256-CBC)
+// ============================================
+
+/**
+ * Decode an EncryptedPrivateKeyInfo. Only PBES2 with scrypt and AES-256-CBC is
+ * understood; PBKDF2 or other ciphers fail with "Unsupported".
+ */
+export function decodeEncryptedPkcs8PrivateKey(der: Uint8Array): EncryptedPrivateKeyInfo {
+  // EncryptedPrivateKeyInfo ::= SEQUENCE { encryptionAlgorithm AlgorithmIdentifier, encryptedData OCTET STRING }
+  const [alg, encryptedData] = readSequence(der, "EncryptedPrivateKeyInfo");
+  if (!alg || alg.tag !== TAG_SEQUENCE) throw new Error("Invalid EncryptedPrivateKeyInfo: missing AlgorithmIdentifier");
+  if (!encryptedData || encryptedData.tag !== TAG_OCTET_STRING) {
+    throw new Error("Invalid EncryptedPrivateKeyInfo: missing encrypted data");
+  }
+
+  const [scheme, pbes2Params] = readChildren(alg.value);
+  if (!scheme || scheme.tag !== TAG_OID || !bytesEqual(scheme.value, OID_PBES2)) {
+    throw new Error("Unsupported key encryption scheme: only PBES2 is supported");
+  }
+  if (!pbes2Params || pbes2Params.tag !== TAG_SEQUENCE) throw new Error("Invalid PBES2 parameters");
+
+  // PBES2-params ::= SEQUENCE { keyDerivationFunc AlgorithmIdentifier, encryptionScheme AlgorithmIdentifier }
+  const [kdf, cipher] = readChildren(pbes2Params.value);
+  if (!kdf || kdf.tag !== TAG_SEQUENCE || !cipher || cipher.tag !== TAG_SEQUENCE) {
+    throw new Error("Invalid PBES2 parameters");
+  }
+  const [kdfOid, kdfParams] = readChildren(kdf.value);
+  if (!kdfOid || kdfOid.tag !== TAG_OID || !bytesEqual(kdfOid.value, OID_SCRYPT)) {
+    throw new Error("Unsupported key derivation function: only scrypt is supported");
+  }
+  if (!kdfParams || kdfParams.tag !== TAG_SEQUENCE) throw new Error("Invalid scrypt parameters");
+  // scrypt-params ::= SEQUENCE { salt OCTET STRING, costParameter, blockSize, parallelizationParameter, keyLength OPTIONAL }
+  const [salt, cost, blockSize, parallelization, keyLength] = readChildren(kdfParams.value);
+  if (!salt || salt.tag !== TAG_OCTET_STRING) throw new Error("Invalid scrypt parameters: missing salt");
+  if (keyLength && readInteger(keyLength, "scrypt keyLength") !== 32) {
+    throw new Error("Invalid scrypt parameters: key length must be 32 for AES-256");
+  }
+
+  const [cipherOid, iv] = readChildren(cipher.value);
+  if (!cipherOid || cipherOid.tag !== TAG_OID || !bytesEqual(cipherOid.value, OID_AES256_CBC)) {
+    throw new Error("Unsupported key encryption cipher: only AES-256-CBC is supported");
+  }
+  if (!iv || iv.tag !== TAG_OCTET_STRING || iv.value.length !== 16) throw new Error("Invalid AES-CBC IV");
+
+  return {
+    params: {
+      salt: salt.value,
+      cost: readInteger(cost, "scrypt cost"),
+      blockSize: readInteger(blockSize, "scrypt blockSize"),
+      parallelization: readInteger(parallelization, "scrypt parallelization"),
+      iv: iv.value,
+    },
+    encryptedData: encryptedData.value,
+  };
+}
+
+export function encodeEncryptedPkcs8PrivateKey(info: EncryptedPrivateKeyInfo): Uint8Array {
+  const { salt, cost, blockSize, parallelization, iv } = info.params;
+  const kdf = tlv(
+    TAG_SEQUENCE,
+    tlv(TAG_OID, OID_SCRYPT),
+    tlv(TAG_SEQUENCE, tlv(TAG_OCTET_STRING, salt), integer(cost), integer(blockSize), integer(parallelization), integer(32))
+  );
+  const cipher = tlv(TAG_SEQUENCE, tlv(TAG_OID, OID_AES256_CBC), tlv(TAG_OCTET_STRING, iv));
+  return tlv(
+    TAG_SEQUENCE,
+    tlv(TAG_SEQUENCE, tlv(TAG_OID, OID_PBES2), tlv(TAG_SEQUENCE, kdf, cipher)),
+    tlv(TAG_OCTET_STRING, info.encryptedData)
+  );
+}
+
+// ============================================
+// SPKI SubjectPublicKeyInfo
+// ============================================
+
+export function decodeSpkiPublicKey(der: Uint8Array): DecodedPublicKey {
+  // SubjectPublicKeyInfo ::= SEQUENCE { AlgorithmIdentifier, subjectPublicKey BIT STRING }
+  const [alg, bits] = readSequence(der, "SPKI");
+  if (!alg || alg.tag !== TAG_SEQUENCE) throw new Error("Invalid SPKI: missing AlgorithmIdentifier");
+  if (!bits || bits.tag !== TAG_BIT_STRING) throw new Error("Invalid SPKI: missing subjectPublicKey bit string");
+  // skip the "unused bits" byte
+  return { curve: curveFromAlgorithmIdentifier(alg), publicKey: bits.value.slice(1) };
+}
+
+export function encodeSpkiPublicKey(key: DecodedPublicKey): Uint8Array {
+  return tlv(
+    TAG_SEQUENCE,
+    algorithmIdentifier(key.curve),
+    tlv(TAG_BIT_STRING, Uint8Array.of(0x00), key.publicKey)
+  );
+}
+
+// ============================================
+// PEM armour
+// ============================================
+
+/**
+ * Strip the PEM armour and return the label and DER bytes.
+ */
+export function decodePem(pem: string): { label: string; der: Uint8Array<ArrayBuffer> } {
+  const match = pem.match(/-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/);
+  if (!match) throw new Error("Invalid PEM: missing BEGIN/END lines");
+  const base64 = match[2]!.replace(/\s+/g, "");
+  const binary = atob(base64);
+  const der = new Uint8Array(binary.length);
+  for (let k = 0; k < binary.length; k++) der[k] = binary.charCodeAt(k);
+  return { label: match[1]!, der };
+}
+
+export function encodePem(der: Uint8Array, label: string): string {
+  const b64 = base64Encode(der);
+  const lines = b64.match(/.{1,64}/g) ?? [b64];
+  return [
+    `-----BEGIN ${label}-----`,
+    ...lines,
+    `-----END ${label}-----`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Decode a `PRIVATE KEY` (PKCS#8) or `EC PRIVATE KEY` (SEC1) PEM.
+ */
+export function decodePrivateKeyPem(pem: string): DecodedPrivateKey {
+  const { label, der } = decodePem(pem);
+  if (label === "PRIVATE KEY") return decodePkcs8PrivateKey(der);
+  if (label === "EC PRIVATE KEY") return decodeSec1PrivateKey(der);
+  throw new Error(`Unsupported private key PEM: ${label}`);
+}
+
+export function encodePrivateKeyPem(key: DecodedPrivateKey, format: PrivateKeyPemFormat = "pkcs8"): string {
+  return format === "sec1"
+    ? encodePem(encodeSec1PrivateKey(key), "EC PRIVATE KEY")
+    : encodePem(encodePkcs8PrivateKey(key), "PRIVATE KEY");
+}
+
+/**
+ * Decode a `PUBLIC KEY` (SPKI) PEM.
+ */
+export function decodePublicKeyPem(pem: string): DecodedPublicKey {
+  const { label, der } = decodePem(pem);
+  if (label !== "PUBLIC KEY") throw new Error(`Unsupported public key PEM: ${label}`);
+  return decodeSpkiPublicKey(der);
+}
+
+export function encodePublicKeyPem(key: DecodedPublicKey): string {
+  return encodePem(encodeSpkiPublicKey(key), "PUBLIC KEY");
+}
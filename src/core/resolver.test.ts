@@ -0,0 +1,292 @@
+import { describe, expect, test } from "bun:test";
+import { generateEd25519KeyPair, generateP256KeyPair, generateX25519KeyPair } from "@/core/crypto.js";
+import { createDidWbaDocument } from "@/core/did.js";
+import { DidResolutionError } from "@/core/errors.js";
+import type { HttpClient, HttpResponse } from "@/core/http.js";
+import {
+  createCachingDidResolver,
+  createDidKey,
+  createDidResolver,
+  requireDidDocument,
+  type DidMethodDriver,
+  type DidResolutionErrorCode,
+  type DidResolutionMetadata,
+  type DidResolver,
+} from "@/core/resolver.js";
+
+/** HttpClient answering from a URL → response map, recording the requests it saw */
+function stubHttpClient(responses: Record<string, Partial<HttpResponse>>) {
+  const requests: Array<{ url: string; headers: Record<string, string> }> = [];
+  const httpClient: HttpClient = {
+    async request<T>(url: string, _method: string, options?: { headers?: Record<string, string> }) {
+      requests.push({ url, headers: options?.headers ?? {} });
+      const response = responses[url];
+      if (!response) throw new Error(`connect ECONNREFUSED ${url}`);
+      return { status: 200, headers: {}, data: undefined, ...response } as HttpResponse<T>;
+    },
+  };
+  return { httpClient, requests };
+}
+
+describe("did:wba and did:web", () => {
+  test("fetch the document from the mapped URL", async () => {
+    const { did, didDocument, documentUrl } = await createDidWbaDocument({ hostname: "example.com", path: "user/alice" });
+    const { httpClient, requests } = stubHttpClient({
+      [documentUrl]: { data: didDocument, headers: { etag: '"v1"', "cache-control": "max-age=60" } },
+    });
+
+    const result = await createDidResolver({ httpClient }).resolve(did);
+    expect(result.didDocument).toEqual(didDocument);
+    expect(result.didResolutionMetadata).toEqual({
+      contentType: "application/did+json",
+      documentUrl,
+      etag: '"v1"',
+      cacheControl: "max-age=60",
+    });
+    expect(requests[0]?.url).toBe("https://example.com/user/alice/did.json");
+  });
+
+  test("send If-None-Match and report 304", async () => {
+    const { did, documentUrl } = await createDidWbaDocument({ hostname: "example.com" });
+    const { httpClient, requests } = stubHttpClient({ [documentUrl]: { status: 304 } });
+
+    const result = await createDidResolver({ httpClient }).resolve(did, { ifNoneMatch: '"v1"' });
+    expect(result.didDocument).toBeNull();
+    expect(result.didResolutionMetadata.notModified).toBe(true);
+    expect(requests[0]?.headers["if-none-match"]).toBe('"v1"');
+  });
+
+  test("parse documents served as text", async () => {
+    const { did, didDocument, documentUrl } = await createDidWbaDocument({ hostname: "example.com" });
+    const { httpClient } = stubHttpClient({ [documentUrl]: { data: JSON.stringify(didDocument) } });
+    expect((await createDidResolver({ httpClient }).resolve(did)).didDocument).toEqual(didDocument);
+  });
+
+  test("report failures through the resolution metadata", async () => {
+    const { did, didDocument, documentUrl } = await createDidWbaDocument({ hostname: "example.com" });
+    const other = await createDidWbaDocument({ hostname: "other.example" });
+    const cases: Array<[Partial<HttpResponse> | undefined, DidResolutionErrorCode]> = [
+      [{ status: 404 }, "notFound"],
+      [{ status: 410 }, "notFound"],
+      [{ status: 500 }, "internalError"],
+      [undefined, "internalError"],
+      [{ data: "not json" }, "invalidDidDocument"],
+      [{ data: { ...didDocument, id: other.did } }, "invalidDidDocument"],
+    ];
+
+    for (const [response, error] of cases) {
+      const { httpClient } = stubHttpClient(response ? { [documentUrl]: response } : {});
+      const result = await createDidResolver({ httpClient }).resolve(did);
+      expect(result.didDocument).toBeNull();
+      expect(result.didResolutionMetadata.error).toBe(error);
+    }
+  });
+
+  test("reject malformed DIDs without a request", async () => {
+    const { httpClient, requests } = stubHttpClient({});
+    const resolver = createDidResolver({ httpClient });
+    for (const did of ["did:wba:", "did:wba:example.com/path", "did:wba:example.com#key-1"]) {
+      expect((await resolver.resolve(did)).didResolutionMetadata.error).toBe("invalidDid");
+    }
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("did:key", () => {
+  test("derives signing documents from the key", async () => {
+    const { publicKeyJwk } = await generateP256KeyPair();
+    const did = createDidKey(publicKeyJwk);
+    expect(did).toStartWith("did:key:zDn");
+
+    const { didDocument } = await createDidResolver().resolve(did);
+    const id = `${did}#${did.slice("did:key:".length)}`;
+    expect(didDocument?.verificationMethod).toMatchObject([{ id, controller: did, publicKeyJwk: { x: publicKeyJwk.x } }]);
+    expect(didDocument?.authentication).toEqual([id]);
+    expect(didDocument?.assertionMethod).toEqual([id]);
+    expect(didDocument?.keyAgreement).toBeUndefined();
+  });
+
+  test("adds the X25519 key agreement key for Ed25519", async () => {
+    const { publicKeyJwk } = await generateEd25519KeyPair();
+    const did = createDidKey(publicKeyJwk);
+    expect(did).toStartWith("did:key:z6Mk");
+
+    const { didDocument } = await createDidResolver().resolve(did);
+    const [, agreementKey] = didDocument?.verificationMethod ?? [];
+    expect(agreementKey?.publicKeyJwk).toMatchObject({ kty: "OKP", crv: "X25519" });
+    expect(didDocument?.keyAgreement).toEqual([agreementKey!.id]);
+  });
+
+  test("puts X25519 keys under keyAgreement only", async () => {
+    const { publicKeyJwk } = await generateX25519KeyPair();
+    const did = createDidKey(publicKeyJwk);
+    const { didDocument } = await createDidResolver().resolve(did);
+    expect(didDocument?.authentication).toEqual([]);
+    expect(didDocument?.keyAgreement).toEqual([didDocument!.verificationMethod[0]!.id]);
+  });
+
+  test("rejects undecodable keys", async () => {
+    expect((await createDidResolver().resolve("did:key:z123")).didResolutionMetadata.error).toBe("invalidDid");
+  });
+});
+
+describe("composite resolver", () => {
+  test("routes on the method and reports unknown methods", async () => {
+    const example: DidMethodDriver = {
+      method: "example",
+      resolve: async (did) => ({
+        didResolutionMetadata: {},
+        didDocument: { "@context": [], id: did, verificationMethod: [], authentication: [] },
+        didDocumentMetadata: {},
+      }),
+    };
+    const resolver = createDidResolver({ drivers: [example] });
+    expect(resolver.getMethods()).toEqual(["wba", "web", "key", "example"]);
+    expect((await resolver.resolve("did:example:123")).didDocument?.id).toBe("did:example:123");
+    expect((await resolver.resolve("did:other:123")).didResolutionMetadata.error).toBe("methodNotSupported");
+    expect((await resolver.resolve("https://example.com")).didResolutionMetadata.error).toBe("invalidDid");
+    expect((await resolver.resolve("did:example:123", { accept: "application/ld+json" })).didResolutionMetadata.error).toBe(
+      "representationNotSupported"
+    );
+  });
+
+  test("requireDidDocument throws the resolution error", async () => {
+    const error = await requireDidDocument(createDidResolver(), "did:other:123").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(DidResolutionError);
+    expect(error).toMatchObject({ did: "did:other:123", code: "methodNotSupported" });
+  });
+});
+
+describe("caching resolver", () => {
+  /** Inner resolver serving a new document version per call; `hold` parks calls until release() */
+  function countingResolver() {
+    let calls = 0;
+    let held: Array<() => void> = [];
+    const state = { hold: false, found: true, notModified: false, cacheControl: undefined as string | undefined };
+    const resolver: DidResolver = {
+      async resolve(requested, options) {
+        const version = ++calls;
+        if (state.hold) await new Promise<void>((release) => held.push(release));
+        if (!state.found) return { didResolutionMetadata: { error: "notFound" }, didDocument: null, didDocumentMetadata: {} };
+        if (options?.ifNoneMatch && state.notModified) {
+          return { didResolutionMetadata: { notModified: true, etag: options.ifNoneMatch }, didDocument: null, didDocumentMetadata: {} };
+        }
+        const didResolutionMetadata: DidResolutionMetadata = { etag: `"v${version}"` };
+        if (state.cacheControl) didResolutionMetadata.cacheControl = state.cacheControl;
+        return {
+          didResolutionMetadata,
+          didDocument: { "@context": [], id: requested, verificationMethod: [], authentication: [] },
+          didDocumentMetadata: { versionId: String(version) },
+        };
+      },
+    };
+    const release = () => {
+      held.forEach((resume) => resume());
+      held = [];
+    };
+    return { resolver, state, release, calls: () => calls };
+  }
+
+  const DID = "did:wba:example.com";
+
+  test("serves repeated resolutions from the cache", async () => {
+    const inner = countingResolver();
+    const resolver = createCachingDidResolver(inner.resolver);
+    await resolver.resolve(DID);
+    const second = await resolver.resolve(DID);
+    expect(second.didDocumentMetadata.versionId).toBe("1");
+    expect(inner.calls()).toBe(1);
+
+    resolver.invalidate(DID);
+    expect((await resolver.resolve(DID)).didDocumentMetadata.versionId).toBe("2");
+  });
+
+  test("follows Cache-Control", async () => {
+    const inner = countingResolver();
+    inner.state.cacheControl = "no-store";
+    const resolver = createCachingDidResolver(inner.resolver);
+    await resolver.resolve(DID);
+    await resolver.resolve(DID);
+    expect(inner.calls()).toBe(2);
+
+    inner.state.cacheControl = "max-age=0";
+    await resolver.resolve(DID);
+    await resolver.resolve(DID);
+    expect(inner.calls()).toBe(4);
+  });
+
+  test("revalidates expired documents with their ETag", async () => {
+    const inner = countingResolver();
+    const resolver = createCachingDidResolver(inner.resolver, { defaultTtlMs: 0 });
+    await resolver.resolve(DID);
+    inner.state.notModified = true;
+    const revalidated = await resolver.resolve(DID);
+    expect(revalidated.didDocumentMetadata.versionId).toBe("1");
+    expect(revalidated.didResolutionMetadata.notModified).toBeUndefined();
+  });
+
+  test("caches failures for the negative TTL", async () => {
+    const inner = countingResolver();
+    inner.state.found = false;
+    const resolver = createCachingDidResolver(inner.resolver);
+    await resolver.resolve(DID);
+    inner.state.found = true;
+    expect((await resolver.resolve(DID)).didDocument).toBeNull();
+    expect(inner.calls()).toBe(1);
+
+    const short = createCachingDidResolver(inner.resolver, { negativeTtlMs: 0 });
+    inner.state.found = false;
+    await short.resolve(DID);
+    inner.state.found = true;
+    expect((await short.resolve(DID)).didDocument).not.toBeNull();
+  });
+
+  test("shares concurrent resolutions with the same options only", async () => {
+    const inner = countingResolver();
+    inner.state.hold = true;
+    const resolver = createCachingDidResolver(inner.resolver);
+    const pending = [resolver.resolve(DID), resolver.resolve(DID), resolver.resolve(DID, { accept: "application/json" })];
+    await Promise.resolve();
+    inner.release();
+    await Promise.all(pending);
+    expect(inner.calls()).toBe(2);
+  });
+
+  test("does not cache a resolution that was in flight when invalidated", async () => {
+    const inner = countingResolver();
+    inner.state.hold = true;
+    const resolver = createCachingDidResolver(inner.resolver);
+
+    const before = resolver.resolve(DID);
+    resolver.invalidate(DID);
+    // A caller after invalidate() does not join the old request
+    const after = resolver.resolve(DID);
+    await Promise.resolve();
+    inner.release();
+
+    expect((await before).didDocumentMetadata.versionId).toBe("1");
+    expect((await after).didDocumentMetadata.versionId).toBe("2");
+    inner.state.hold = false;
+    expect((await resolver.resolve(DID)).didDocumentMetadata.versionId).toBe("2");
+    expect(inner.calls()).toBe(2);
+  });
+
+  test("bypasses the cache for resolutions with options", async () => {
+    const inner = countingResolver();
+    const resolver = createCachingDidResolver(inner.resolver);
+    await resolver.resolve(DID, { accept: "application/did+ld+json" });
+    expect((await resolver.resolve(DID)).didDocumentMetadata.versionId).toBe("2");
+    expect((await resolver.resolve(DID, { accept: "application/did+ld+json" })).didDocumentMetadata.versionId).toBe("3");
+    // The default representation stays cached
+    expect((await resolver.resolve(DID)).didDocumentMetadata.versionId).toBe("2");
+    expect(inner.calls()).toBe(3);
+  });
+
+  test("does not cache a 304 to the caller's own If-None-Match", async () => {
+    const inner = countingResolver();
+    inner.state.notModified = true;
+    const resolver = createCachingDidResolver(inner.resolver);
+    expect((await resolver.resolve(DID, { ifNoneMatch: '"v0"' })).didResolutionMetadata.notModified).toBe(true);
+    expect((await resolver.resolve(DID)).didDocument).not.toBeNull();
+  });
+});
@@ -0,0 +1,554 @@
+/**
+ * DID Resolution
+ *
+ * A DidResolver turns a DID into a DID document plus W3C DID Resolution metadata.
+ * Method-specific drivers (did:wba, did:web, did:key) are combined by a composite
+ * resolver that routes on the DID method; add more methods by passing extra drivers.
+ *
+ * Expected failures (unknown method, malformed DID, missing document) are reported
+ * through `didResolutionMetadata.error` rather than thrown, following the W3C
+ * resolve() contract. Use requireDidDocument when a document is mandatory.
+ *
+ * @packageDocumentation
+ */
+
+import { ed25519 } from "@noble/curves/ed25519.js";
+import { LRUCache } from "lru-cache";
+import {
+  DidDocumentSchema,
+  dereferenceDidUrlInDocument,
+  didToURL,
+  parseDidUrl,
+  type DereferencedResource,
+  type DidDocument,
+} from "@/core/did.js";
+import { DidResolutionError } from "@/core/errors.js";
+import { defaultHttpClient, type HttpClient, type HttpResponse } from "@/core/http.js";
+import {
+  decodeMultibasePublicKey,
+  encodeMultibasePublicKey,
+  jwkToMultibasePublicKey,
+  multibasePublicKeyToJwk,
+} from "@/core/multicodec.js";
+import type { LruCacheLike } from "@/core/utils.js";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Error codes from the W3C DID Core / DID Resolution specifications.
+ */
+export type DidResolutionErrorCode =
+  | "invalidDid"
+  | "notFound"
+  | "methodNotSupported"
+  | "representationNotSupported"
+  | "invalidDidDocument"
+  | "internalError";
+
+export interface DidResolutionMetadata {
+  contentType?: string;
+  error?: DidResolutionErrorCode;
+  /** Human readable detail accompanying `error` */
+  errorMessage?: string;
+  /** HTTP `ETag` of the document (HTTPS-hosted methods only) */
+  etag?: string;
+  /** HTTP `Cache-Control` of the document (HTTPS-hosted methods only) */
+  cacheControl?: string;
+  /** The host answered 304 to `ifNoneMatch`; `didDocument` is null and the cached copy is current */
+  notModified?: boolean;
+  /** URL the document was served from, after redirects (HTTPS-hosted methods only) */
+  documentUrl?: string;
+}
+
+export interface DidDocumentMetadata {
+  created?: string;
+  updated?: string;
+  deactivated?: boolean;
+  versionId?: string;
+  [key: string]: unknown;
+}
+
+export interface DidResolutionResult {
+  didResolutionMetadata: DidResolutionMetadata;
+  didDocument: DidDocument | null;
+  didDocumentMetadata: DidDocumentMetadata;
+}
+
+export interface DidResolutionOptions {
+  accept?: string;
+  /** ETag of a cached document, sent as `If-None-Match` by HTTPS-hosted methods */
+  ifNoneMatch?: string;
+}
+
+export interface DidResolver {
+  resolve(did: string, options?: DidResolutionOptions): Promise<DidResolutionResult>;
+}
+
+/**
+ * Resolver for a single DID method (the `wba` in `did:wba:...`).
+ */
+export interface DidMethodDriver extends DidResolver {
+  readonly method: string;
+}
+
+export { DidResolutionError };
+
+// DID syntax from DID Core §3.1 (method name plus method-specific id, no path/query/fragment)
+const DID_PATTERN = /^did:([a-z0-9]+):((?:[a-zA-Z0-9._-]|%[0-9a-fA-F]{2})*:)*((?:[a-zA-Z0-9._-]|%[0-9a-fA-F]{2})+)$/;
+
+const DID_JSON = "application/did+json";
+
+function failure(error: DidResolutionErrorCode, errorMessage?: string): DidResolutionResult {
+  return {
+    didResolutionMetadata: errorMessage ? { error, errorMessage } : { error },
+    didDocument: null,
+    didDocumentMetadata: {},
+  };
+}
+
+function success(didDocument: DidDocument, didDocumentMetadata: DidDocumentMetadata = {}): DidResolutionResult {
+  return { didResolutionMetadata: { contentType: DID_JSON }, didDocument, didDocumentMetadata };
+}
+
+/**
+ * Resolve a DID and return its document.
+ *
+ * Fail Fast: throws DidResolutionError carrying the resolution error code.
+ */
+export async function requireDidDocument(resolver: DidResolver, did: string): Promise<DidDocument> {
+  return (await requireDidResolution(resolver, did)).didDocument;
+}
+
+/**
+ * Resolve a DID, keeping the resolution metadata (e.g. `documentUrl`) alongside the document.
+ *
+ * Fail Fast: throws DidResolutionError carrying the resolution error code.
+ */
+export async function requireDidResolution(
+  resolver: DidResolver,
+  did: string
+): Promise<DidResolutionResult & { didDocument: DidDocument }> {
+  const result = await resolver.resolve(did);
+  if (!result.didDocument) {
+    const { error = "notFound", errorMessage } = result.didResolutionMetadata;
+    throw new DidResolutionError(did, error, errorMessage && `Failed to resolve ${did}: ${errorMessage}`);
+  }
+  return { ...result, didDocument: result.didDocument };
+}
+
+/**
+ * Resolve the DID a DID URL belongs to and dereference the URL against its document,
+ * e.g. `did:wba:example.com#key-1` or `did:wba:example.com?service=agent`.
+ *
+ * Fail Fast: throws InvalidDidUrlError, DidResolutionError or DidUrlNotFoundError.
+ */
+export async function dereferenceDidUrl(resolver: DidResolver, didUrl: string): Promise<DereferencedResource> {
+  const parsed = parseDidUrl(didUrl);
+  const document = await requireDidDocument(resolver, parsed.did);
+  return dereferenceDidUrlInDocument(document, parsed);
+}
+
+// ============================================
+// did:wba / did:web (HTTPS hosted documents)
+// ============================================
+
+export interface WebDidDriverConfig {
+  httpClient?: HttpClient;
+}
+
+/**
+ * Both did:wba and did:web map the method-specific id onto an HTTPS URL serving did.json.
+ */
+function createHttpsDidDriver(method: "wba" | "web", config: WebDidDriverConfig): DidMethodDriver {
+  const httpClient = config.httpClient ?? defaultHttpClient;
+
+  return {
+    method,
+    async resolve(did, options) {
+      if (!DID_PATTERN.test(did) || !did.startsWith(`did:${method}:`)) {
+        return failure("invalidDid", `Not a valid did:${method}: ${did}`);
+      }
+
+      const headers: Record<string, string> = { accept: `${DID_JSON}, application/json` };
+      if (options?.ifNoneMatch) headers["if-none-match"] = options.ifNoneMatch;
+
+      let response: HttpResponse;
+      try {
+        response = await httpClient.request(didToURL(did), "GET", { headers });
+      } catch (error) {
+        return failure("internalError", error instanceof Error ? error.message : String(error));
+      }
+
+      const cacheMetadata: DidResolutionMetadata = { documentUrl: response.url ?? didToURL(did) };
+      const etag = response.headers["etag"];
+      const cacheControl = response.headers["cache-control"];
+      if (etag) cacheMetadata.etag = etag;
+      if (cacheControl) cacheMetadata.cacheControl = cacheControl;
+
+      if (response.status === 304) {
+        return { didResolutionMetadata: { ...cacheMetadata, notModified: true }, didDocument: null, didDocumentMetadata: {} };
+      }
+
+      if (response.status === 404 || response.status === 410) {
+        return failure("notFound", `DID document not found (HTTP ${response.status})`);
+      }
+      if (response.status !== 200) {
+        return failure("internalError", `DID document request failed (HTTP ${response.status})`);
+      }
+
+      const data = typeof response.data === "string" ? safeJsonParse(response.data) : response.data;
+      const parsed = DidDocumentSchema.safeParse(data);
+      if (!parsed.success) {
+        return failure("invalidDidDocument", parsed.error.message);
+      }
+      if (parsed.data.id !== did) {
+        return failure("invalidDidDocument", `Document id ${parsed.data.id} does not match ${did}`);
+      }
+      const result = success(parsed.data as DidDocument);
+      Object.assign(result.didResolutionMetadata, cacheMetadata);
+      return result;
+    },
+  };
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * did:wba driver: `did:wba:example.com%3A8800:user:alice` → `https://example.com:8800/user/alice/did.json`.
+ */
+export function createWbaDidDriver(config: WebDidDriverConfig = {}): DidMethodDriver {
+  return createHttpsDidDriver("wba", config);
+}
+
+/**
+ * did:web driver, using the same URL mapping as did:wba.
+ */
+export function createWebDidDriver(config: WebDidDriverConfig = {}): DidMethodDriver {
+  return createHttpsDidDriver("web", config);
+}
+
+// ============================================
+// did:key (derived locally)
+// ============================================
+
+const DID_KEY_CONTEXTS = ["https://www.w3.org/ns/did/v1", "https://w3id.org/security/suites/jws-2020/v1"];
+
+/**
+ * did:key driver. The document is derived from the multicodec key in the DID itself;
+ * Ed25519 keys also get the derived X25519 key agreement key.
+ */
+export function createKeyDidDriver(): DidMethodDriver {
+  return {
+    method: "key",
+    async resolve(did) {
+      if (!DID_PATTERN.test(did) || !did.startsWith("did:key:")) {
+        return failure("invalidDid", `Not a valid did:key: ${did}`);
+      }
+
+      const multibase = did.slice("did:key:".length);
+      let key: ReturnType<typeof decodeMultibasePublicKey>;
+      try {
+        key = decodeMultibasePublicKey(multibase);
+      } catch (error) {
+        return failure("invalidDid", error instanceof Error ? error.message : String(error));
+      }
+
+      const vm = (fragment: string, publicKeyJwk: JsonWebKey) => ({
+        id: `${did}#${fragment}`,
+        type: "JsonWebKey2020",
+        controller: did,
+        publicKeyJwk,
+      });
+      const signingKey = vm(multibase, multibasePublicKeyToJwk(multibase));
+
+      if (key.curve === "X25519") {
+        return success({
+          "@context": DID_KEY_CONTEXTS,
+          id: did,
+          verificationMethod: [signingKey],
+          authentication: [],
+          keyAgreement: [signingKey.id],
+        });
+      }
+
+      const didDocument: DidDocument = {
+        "@context": DID_KEY_CONTEXTS,
+        id: did,
+        verificationMethod: [signingKey],
+        authentication: [signingKey.id],
+        assertionMethod: [signingKey.id],
+        capabilityInvocation: [signingKey.id],
+        capabilityDelegation: [signingKey.id],
+      };
+      if (key.curve === "Ed25519") {
+        const x25519 = encodeMultibasePublicKey({
+          curve: "X25519",
+          publicKey: ed25519.utils.toMontgomery(key.publicKey),
+        });
+        didDocument.verificationMethod.push(vm(x25519, multibasePublicKeyToJwk(x25519)));
+        didDocument.keyAgreement = [`${did}#${x25519}`];
+      }
+      return success(didDocument);
+    },
+  };
+}
+
+/**
+ * Build the did:key identifier of a public JWK.
+ */
+export function createDidKey(publicJwk: JsonWebKey): string {
+  return `did:key:${jwkToMultibasePublicKey(publicJwk)}`;
+}
+
+// ============================================
+// Composite resolver
+// ============================================
+
+export interface DidResolverConfig {
+  /** HTTP client for the built-in did:wba and did:web drivers */
+  httpClient?: HttpClient;
+  /** Extra or replacement drivers; a driver replaces the built-in one for its method */
+  drivers?: DidMethodDriver[];
+}
+
+/**
+ * Resolver that routes each DID to the driver registered for its method.
+ */
+export class CompositeDidResolver implements DidResolver {
+  private readonly drivers = new Map<string, DidMethodDriver>();
+
+  constructor(drivers: DidMethodDriver[]) {
+    for (const driver of drivers) {
+      this.drivers.set(driver.method, driver);
+    }
+  }
+
+  async resolve(did: string, options?: DidResolutionOptions): Promise<DidResolutionResult> {
+    const match = /^did:([a-z0-9]+):/.exec(did);
+    if (!match) {
+      return failure("invalidDid", `Not a DID: ${did}`);
+    }
+    if (options?.accept && options.accept !== DID_JSON && options.accept !== "application/json") {
+      return failure("representationNotSupported", `Unsupported representation: ${options.accept}`);
+    }
+
+    const driver = this.drivers.get(match[1]!);
+    if (!driver) {
+      return failure("methodNotSupported", `No driver for did:${match[1]}`);
+    }
+    return driver.resolve(did, options);
+  }
+
+  /**
+   * DID methods this resolver can handle.
+   */
+  getMethods(): string[] {
+    return Array.from(this.drivers.keys());
+  }
+}
+
+/**
+ * Create a resolver for did:wba, did:web and did:key, plus any extra drivers.
+ *
+ * @example
+ * ```typescript
+ * const resolver = createDidResolver();
+ * const { didDocument, didResolutionMetadata } = await resolver.resolve("did:wba:example.com:user:alice");
+ * if (!didDocument) console.log(didResolutionMetadata.error); // e.g. "notFound"
+ * ```
+ */
+export function createDidResolver(config: DidResolverConfig = {}): CompositeDidResolver {
+  const driverConfig = config.httpClient ? { httpClient: config.httpClient } : {};
+  return new CompositeDidResolver([
+    createWbaDidDriver(driverConfig),
+    createWebDidDriver(driverConfig),
+    createKeyDidDriver(),
+    ...(config.drivers ?? []),
+  ]);
+}
+
+// ============================================
+// Caching resolver
+// ============================================
+
+export interface CachedDidResolution {
+  result: DidResolutionResult;
+  /** Epoch milliseconds after which the entry must be revalidated */
+  expiresAt: number;
+}
+
+export interface CachingDidResolverConfig {
+  /** Maximum number of cached DIDs (default 500) */
+  max?: number;
+  /** TTL when the host sends no Cache-Control max-age (default 5 minutes) */
+  defaultTtlMs?: number;
+  /** Upper bound for any TTL, including Cache-Control max-age (default 24 hours) */
+  maxTtlMs?: number;
+  /** TTL for failed resolutions (default 30 seconds) */
+  negativeTtlMs?: number;
+  /** Custom cache store; defaults to an LRU bounded by `max` */
+  cache?: LruCacheLike<string, CachedDidResolution>;
+}
+
+/**
+ * Parse the caching directives that matter for DID documents.
+ */
+function parseCacheControl(header: string | undefined): { noStore: boolean; noCache: boolean; maxAge?: number } {
+  const directives = (header ?? "").toLowerCase().split(",").map((part) => part.trim());
+  const maxAge = directives.find((d) => d.startsWith("max-age="))?.slice("max-age=".length);
+  const parsed = maxAge === undefined ? NaN : Number.parseInt(maxAge, 10);
+  return {
+    noStore: directives.includes("no-store"),
+    noCache: directives.includes("no-cache"),
+    ...(Number.isFinite(parsed) ? { maxAge: parsed } : {}),
+  };
+}
+
+interface InflightResolution {
+  did: string;
+  promise: Promise<DidResolutionResult>;
+  /** Set by invalidate(); the result still reaches its callers but is not cached */
+  stale: boolean;
+}
+
+/**
+ * Concurrent resolutions are only shared when they ask for the same thing.
+ */
+function inflightKey(did: string, options?: DidResolutionOptions): string {
+  return JSON.stringify([did, options?.accept ?? null, options?.ifNoneMatch ?? null]);
+}
+
+/**
+ * DidResolver decorator that caches resolution results.
+ *
+ * - TTL follows the host's `Cache-Control` (`max-age`, `no-cache`, `no-store`), capped by `maxTtlMs`
+ * - Expired entries with an `ETag` are revalidated with `If-None-Match`
+ * - Failures are cached for `negativeTtlMs` so a bad DID cannot trigger a request per call
+ * - Only resolutions without options are cached; `accept` or `ifNoneMatch` go upstream
+ * - Concurrent resolutions of the same DID with the same options share one upstream request
+ */
+export class CachingDidResolver implements DidResolver {
+  private readonly cache: LruCacheLike<string, CachedDidResolution>;
+  private readonly inflight = new Map<string, InflightResolution>();
+  private readonly defaultTtlMs: number;
+  private readonly maxTtlMs: number;
+  private readonly negativeTtlMs: number;
+
+  constructor(
+    private readonly inner: DidResolver,
+    config: CachingDidResolverConfig = {}
+  ) {
+    this.cache = config.cache ?? new LRUCache<string, CachedDidResolution>({ max: config.max ?? 500 });
+    this.defaultTtlMs = config.defaultTtlMs ?? 5 * 60_000;
+    this.maxTtlMs = config.maxTtlMs ?? 24 * 60 * 60_000;
+    this.negativeTtlMs = config.negativeTtlMs ?? 30_000;
+  }
+
+  async resolve(did: string, options?: DidResolutionOptions): Promise<DidResolutionResult> {
+    // Other representations and the caller's own conditional requests bypass the cache
+    const cacheable = options?.accept === undefined && options?.ifNoneMatch === undefined;
+    const cached = cacheable ? this.cache.get(did) : undefined;
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const key = inflightKey(did, options);
+    const pending = this.inflight.get(key);
+    if (pending) return pending.promise;
+
+    const request: InflightResolution = {
+      did,
+      stale: false,
+      promise: this.refresh(did, cached, options, () => cacheable && !request.stale).finally(() => {
+        if (this.inflight.get(key) === request) this.inflight.delete(key);
+      }),
+    };
+    this.inflight.set(key, request);
+    return request.promise;
+  }
+
+  /**
+   * Drop the cached result for a DID so the next resolve() fetches it again.
+   *
+   * Resolutions already in flight are detached: their callers still get the
+   * result, but it is not cached and later calls start a fresh request.
+   */
+  invalidate(did: string): void {
+    this.cache.delete(did);
+    for (const [key, request] of this.inflight) {
+      if (request.did !== did) continue;
+      request.stale = true;
+      this.inflight.delete(key);
+    }
+  }
+
+  private async refresh(
+    did: string,
+    cached: CachedDidResolution | undefined,
+    options: DidResolutionOptions | undefined,
+    canStore: () => boolean
+  ): Promise<DidResolutionResult> {
+    const etag = cached?.result.didDocument ? cached.result.didResolutionMetadata.etag : undefined;
+    const result = await this.inner.resolve(did, etag ? { ...options, ifNoneMatch: etag } : options);
+
+    if (result.didResolutionMetadata.notModified) {
+      // A 304 to the caller's own If-None-Match has nothing to cache
+      if (!cached?.result.didDocument) return result;
+
+      // Keep the cached document, but take the fresh caching headers
+      const { notModified: _notModified, ...fresh } = result.didResolutionMetadata;
+      const revalidated: DidResolutionResult = {
+        ...cached.result,
+        didResolutionMetadata: { ...cached.result.didResolutionMetadata, ...fresh },
+      };
+      if (canStore()) this.store(did, revalidated);
+      return revalidated;
+    }
+
+    if (canStore()) this.store(did, result);
+    return result;
+  }
+
+  private store(did: string, result: DidResolutionResult): void {
+    if (!result.didDocument) {
+      this.cache.set(did, { result, expiresAt: Date.now() + this.negativeTtlMs });
+      return;
+    }
+
+    const cacheControl = parseCacheControl(result.didResolutionMetadata.cacheControl);
+    if (cacheControl.noStore) {
+      this.cache.delete(did);
+      return;
+    }
+
+    const ttl = cacheControl.noCache
+      ? 0
+      : Math.min(cacheControl.maxAge !== undefined ? cacheControl.maxAge * 1000 : this.defaultTtlMs, this.maxTtlMs);
+    this.cache.set(did, { result, expiresAt: Date.now() + ttl });
+  }
+}
+
+/**
+ * Wrap a resolver with caching.
+ *
+ * @example
+ * ```typescript
+ * const resolver = createCachingDidResolver(createDidResolver(), { max: 1000 });
+ * await resolver.resolve("did:wba:example.com");
+ * resolver.invalidate("did:wba:example.com"); // force refresh after key rotation
+ * ```
+ */
+export function createCachingDidResolver(
+  inner: DidResolver,
+  config?: CachingDidResolverConfig
+): CachingDidResolver {
+  return new CachingDidResolver(inner, config);
+}
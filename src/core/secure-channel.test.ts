@@ -0,0 +1,147 @@
+import { describe, expect, test } from "bun:test";
+import { generateKeyAgreementKeyPair, type KeyAgreementCurve } from "@/core/jwe.js";
+import {
+  acceptSecureChannel,
+  createSecureChannelStore,
+  initiateSecureChannel,
+  isSealedFrame,
+  SecureChannelError,
+  type SealedFrame,
+  type SecureChannel,
+} from "@/core/secure-channel.js";
+
+const KID = "did:wba:agent.example.com#key-2";
+
+async function connect(curve: KeyAgreementCurve = "X25519", ttlMs?: number) {
+  const agentKey = generateKeyAgreementKeyPair(curve);
+  const handshake = initiateSecureChannel(KID, agentKey.publicKey);
+  const { accept, channel: agent } = await acceptSecureChannel(handshake.init, agentKey.privateKey, {
+    peerDid: "did:wba:client.example",
+    ...(ttlMs !== undefined && { ttlMs }),
+  });
+  const client = await handshake.complete(accept);
+  return { client, agent, agentKey, handshake };
+}
+
+async function openError(channel: SecureChannel, frame: SealedFrame): Promise<string> {
+  const error = await channel.open(frame).catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(SecureChannelError);
+  return (error as SecureChannelError).code;
+}
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("handshake", () => {
+  test("both ends derive the same keys on every curve", async () => {
+    for (const curve of ["X25519", "secp256k1", "P-256"] as const) {
+      const { client, agent } = await connect(curve);
+      expect(client.id).toBe(agent.id);
+      expect(agent.peerDid).toBe("did:wba:client.example");
+      expect(client.peerDid).toBeUndefined();
+
+      expect(text(await agent.open(await client.seal("request")))).toBe("request");
+      expect(text(await client.open(await agent.seal("response")))).toBe("response");
+    }
+  });
+
+  test("only the holder of the keyAgreement key can read the channel", async () => {
+    const agentKey = generateKeyAgreementKeyPair("X25519");
+    const handshake = initiateSecureChannel(KID, agentKey.publicKey);
+    // An impostor answers the handshake with a key of its own
+    const impostor = await acceptSecureChannel(handshake.init, generateKeyAgreementKeyPair("X25519").privateKey);
+    const client = await handshake.complete(impostor.accept);
+    expect(await openError(impostor.channel, await client.seal("secret"))).toBe("decryptionFailed");
+  });
+
+  test("binds the keys to the requested kid and ephemeral key", async () => {
+    const agentKey = generateKeyAgreementKeyPair("X25519");
+    const handshake = initiateSecureChannel(KID, agentKey.publicKey);
+    const rewritten = { ...handshake.init, kid: "did:wba:agent.example.com#key-3" };
+    const { accept, channel } = await acceptSecureChannel(rewritten, agentKey.privateKey);
+    const client = await handshake.complete(accept);
+    expect(await openError(channel, await client.seal("hello"))).toBe("decryptionFailed");
+  });
+
+  test("rejects malformed handshakes", async () => {
+    const agentKey = generateKeyAgreementKeyPair("X25519");
+    const { init } = initiateSecureChannel(KID, agentKey.publicKey);
+    const p256 = generateKeyAgreementKeyPair("P-256");
+    for (const bad of [{ kid: KID }, { ...init, epk: p256.publicKey }, { ...init, epk: { kty: "RSA" } }]) {
+      const error = await acceptSecureChannel(bad as never, agentKey.privateKey).catch((e: unknown) => e);
+      expect(error).toMatchObject({ code: "invalidHandshake" });
+    }
+
+    const handshake = initiateSecureChannel(KID, agentKey.publicKey);
+    const error = await handshake.complete({ cid: "c" } as never).catch((e: unknown) => e);
+    expect(error).toMatchObject({ code: "invalidHandshake" });
+  });
+});
+
+describe("frames", () => {
+  test("must arrive in order, exactly once", async () => {
+    const { client, agent } = await connect();
+    const first = await client.seal("0");
+    const second = await client.seal("1");
+    const third = await client.seal("2");
+    expect([first.seq, second.seq, third.seq]).toEqual([0, 1, 2]);
+
+    expect(await openError(agent, second)).toBe("outOfOrder");
+    expect(text(await agent.open(first))).toBe("0");
+    expect(await openError(agent, first)).toBe("replayed");
+    expect(text(await agent.open(second))).toBe("1");
+    expect(await openError(agent, first)).toBe("replayed");
+    expect(text(await agent.open(third))).toBe("2");
+  });
+
+  test("authenticate their sequence number, channel and direction", async () => {
+    const { client, agent } = await connect();
+    const frame = await client.seal("pay 10");
+    await client.seal("pay 20");
+
+    // Claiming a later slot does not make an earlier frame decrypt there
+    expect(await openError(agent, { ...frame, seq: 1 })).toBe("decryptionFailed");
+    const other = await connect();
+    expect(await openError(other.agent, { ...frame, cid: other.agent.id })).toBe("decryptionFailed");
+    expect(await openError(agent, { ...frame, cid: "elsewhere" })).toBe("invalidFrame");
+    // A client frame reflected back to the client
+    expect(await openError(client, frame)).toBe("decryptionFailed");
+    expect(await openError(agent, { ...frame, seq: -1 })).toBe("invalidFrame");
+
+    // Failed frames do not advance the sequence
+    expect(text(await agent.open(frame))).toBe("pay 10");
+  });
+
+  test("reject tampered ciphertexts", async () => {
+    const { client, agent } = await connect();
+    const frame = await client.seal("pay 10");
+    const flipped = frame.ciphertext.startsWith("A") ? `B${frame.ciphertext.slice(1)}` : `A${frame.ciphertext.slice(1)}`;
+    expect(await openError(agent, { ...frame, ciphertext: flipped })).toBe("decryptionFailed");
+  });
+
+  test("are refused once the channel expires", async () => {
+    const { client, agent } = await connect("X25519", -1);
+    expect(client.isExpired()).toBe(true);
+    expect(await openError(agent, await client.seal("late"))).toBe("expired");
+  });
+
+  test("are recognized by shape", async () => {
+    const { client } = await connect();
+    expect(isSealedFrame(await client.seal("x"))).toBe(true);
+    expect(isSealedFrame({ jsonrpc: "2.0", method: "x" })).toBe(false);
+    expect(isSealedFrame(null)).toBe(false);
+  });
+});
+
+describe("SecureChannelStore", () => {
+  test("finds open channels and drops expired ones", async () => {
+    const store = createSecureChannelStore({ maxChannels: 2 });
+    const open = await connect();
+    const expired = await connect("X25519", -1);
+    store.add(open.agent);
+    store.add(expired.agent);
+    expect(store.get(open.agent.id)).toBe(open.agent);
+    expect(store.get(expired.agent.id)).toBeUndefined();
+    expect(store.delete(open.agent.id)).toBe(true);
+    expect(store.get(open.agent.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * Secure Channels
+ *
+ * End-to-end encrypted request/response channels between agents, independent of TLS
+ * termination in between:
+ *
+ * 1. The client sends `{ kid, epk }`: the agent's `keyAgreement` method and a fresh
+ *    ephemeral key on its curve (X25519, secp256k1 or P-256).
+ * 2. The agent answers `{ cid, epk, expiresAt }` with its own ephemeral key.
+ * 3. Both derive one AES-256-GCM key per direction with HKDF-SHA256 over
+ *    ECDH(ephemeral, ephemeral) || ECDH(client ephemeral, agent static), bound to the
+ *    channel id, `kid` and both ephemeral keys. Only the holder of the `keyAgreement`
+ *    private key can derive them; ephemeral keys give forward secrecy.
+ * 4. Every body is a sealed frame `{ cid, seq, ciphertext }`. Sequence numbers start at 0
+ *    in each direction and must arrive in order; the nonce is derived from `seq`, which
+ *    is also authenticated, so reordered or replayed frames are rejected.
+ *
+ * Fail Fast: handshake and frame errors throw SecureChannelError.
+ *
+ * @packageDocumentation
+ */
+
+import { hkdf } from "@noble/hashes/hkdf.js";
+import { LRUCache } from "lru-cache";
+import { sha256 } from "@/core/hash.js";
+import {
+  deriveSharedSecret,
+  generateKeyAgreementKeyPair,
+  getKeyAgreementCurve,
+} from "@/core/jwe.js";
+import { base64urlDecode, base64urlEncode } from "@/core/utils.js";
+
+/**
+ * Content type of handshake messages and sealed frames
+ */
+export const SECURE_CHANNEL_CONTENT_TYPE = "application/anp-secure+json";
+
+/**
+ * JSON-RPC error codes returned in plaintext when a frame cannot be processed
+ */
+export const SECURE_CHANNEL_RPC_ERRORS = {
+  /** Unknown or expired channel; the client negotiates a new one */
+  channelNotFound: -32010,
+  /** Frame failed to decrypt or arrived out of order */
+  invalidFrame: -32011,
+  /** The agent only accepts requests over a secure channel */
+  channelRequired: -32012,
+} as const;
+
+const HKDF_INFO = new TextEncoder().encode("ANP secure channel v1");
+
+/**
+ * Client hello: the agent's key agreement method and the client's ephemeral key.
+ */
+export interface SecureChannelInit {
+  /** DID URL of the agent's keyAgreement verification method */
+  kid: string;
+  epk: JsonWebKey;
+}
+
+/**
+ * Agent reply to SecureChannelInit.
+ */
+export interface SecureChannelAccept {
+  /** Channel id */
+  cid: string;
+  epk: JsonWebKey;
+  /** Expiry, in epoch milliseconds */
+  expiresAt: number;
+}
+
+export interface SealedFrame {
+  cid: string;
+  seq: number;
+  /** base64url AES-256-GCM ciphertext and tag */
+  ciphertext: string;
+}
+
+export type SecureChannelErrorCode =
+  | "invalidHandshake"
+  | "channelNotFound"
+  | "expired"
+  | "invalidFrame"
+  | "outOfOrder"
+  | "replayed"
+  | "decryptionFailed";
+
+export class SecureChannelError extends Error {
+  constructor(
+    public readonly code: SecureChannelErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "SecureChannelError";
+  }
+}
+
+// ============================================
+// Channel
+// ============================================
+
+/**
+ * One end of an established channel.
+ */
+export class SecureChannel {
+  private sendSeq = 0;
+  private receiveSeq = 0;
+
+  constructor(
+    readonly id: string,
+    private readonly sendKey: CryptoKey,
+    private readonly receiveKey: CryptoKey,
+    readonly expiresAt: number,
+    /** Authenticated DID of the other end, if known (set by the agent from the handshake request) */
+    readonly peerDid?: string
+  ) {}
+
+  isExpired(now = Date.now()): boolean {
+    return now >= this.expiresAt;
+  }
+
+  /**
+   * Seal the next outgoing frame
+   */
+  async seal(plaintext: string | Uint8Array): Promise<SealedFrame> {
+    const seq = this.sendSeq++;
+    const data = typeof plaintext === "string" ? new TextEncoder().encode(plaintext) : new Uint8Array(plaintext);
+    const ciphertext = await getSubtle().encrypt(frameParams(this.id, seq), this.sendKey, data);
+    return { cid: this.id, seq, ciphertext: base64urlEncode(new Uint8Array(ciphertext)) };
+  }
+
+  /**
+   * Open the next incoming frame.
+   *
+   * Fail Fast: throws SecureChannelError for frames of other channels, frames that do
+   * not decrypt, and frames before ("replayed") or after ("outOfOrder") the expected one.
+   */
+  async open(frame: SealedFrame): Promise<Uint8Array> {
+    if (frame.cid !== this.id) throw new SecureChannelError("invalidFrame", "Frame belongs to another channel");
+    if (this.isExpired()) throw new SecureChannelError("expired", `Channel ${this.id} has expired`);
+    if (!Number.isSafeInteger(frame.seq) || frame.seq < 0) throw new SecureChannelError("invalidFrame", "Invalid sequence number");
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await getSubtle().decrypt(
+        frameParams(this.id, frame.seq),
+        this.receiveKey,
+        new Uint8Array(base64urlDecode(frame.ciphertext))
+      );
+    } catch {
+      throw new SecureChannelError("decryptionFailed", "Frame failed to decrypt");
+    }
+
+    // Checked after decryption so concurrent frames cannot both claim the same slot
+    if (frame.seq < this.receiveSeq) {
+      throw new SecureChannelError("replayed", `Frame ${frame.seq} was already received`);
+    }
+    if (frame.seq > this.receiveSeq) {
+      throw new SecureChannelError("outOfOrder", `Expected frame ${this.receiveSeq}, got ${frame.seq}`);
+    }
+    this.receiveSeq++;
+    return new Uint8Array(plaintext);
+  }
+}
+
+function frameParams(cid: string, seq: number): AesGcmParams {
+  // 96-bit nonce: 32 zero bits || 64-bit sequence number; each direction has its own key
+  const iv = new Uint8Array(12);
+  new DataView(iv.buffer).setBigUint64(4, BigInt(seq));
+  return { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(`${cid}.${seq}`), tagLength: 128 };
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) throw new Error("Secure channels require WebCrypto (crypto.subtle)");
+  return subtle;
+}
+
+// ============================================
+// Handshake
+// ============================================
+
+/**
+ * Derive the client-to-agent and agent-to-client keys
+ */
+async function deriveChannelKeys(
+  ephemeralSecret: Uint8Array,
+  staticSecret: Uint8Array,
+  init: SecureChannelInit,
+  cid: string,
+  agentEpk: JsonWebKey
+): Promise<{ clientToAgent: CryptoKey; agentToClient: CryptoKey }> {
+  const ikm = new Uint8Array(ephemeralSecret.length + staticSecret.length);
+  ikm.set(ephemeralSecret);
+  ikm.set(staticSecret, ephemeralSecret.length);
+  const transcript = [cid, init.kid, publicKeyId(init.epk), publicKeyId(agentEpk)].join("|");
+  const okm = hkdf(sha256, ikm, sha256(new TextEncoder().encode(transcript)), HKDF_INFO, 64);
+
+  const subtle = getSubtle();
+  const importKey = (bytes: Uint8Array) =>
+    subtle.importKey("raw", new Uint8Array(bytes), "AES-GCM", false, ["encrypt", "decrypt"]);
+  return { clientToAgent: await importKey(okm.slice(0, 32)), agentToClient: await importKey(okm.slice(32)) };
+}
+
+function publicKeyId(jwk: JsonWebKey): string {
+  return [jwk.crv, jwk.x, jwk.y ?? ""].join(".");
+}
+
+/**
+ * Client side: start a handshake with an agent's key agreement key
+ *
+ * @param kid - DID URL of the agent's keyAgreement method
+ * @param agentPublicKey - Its public key, from the agent's DID document
+ * @returns The message to send, and `complete` to call with the agent's reply
+ */
+export function initiateSecureChannel(
+  kid: string,
+  agentPublicKey: JsonWebKey
+): { init: SecureChannelInit; complete: (accept: SecureChannelAccept) => Promise<SecureChannel> } {
+  const ephemeral = generateKeyAgreementKeyPair(getKeyAgreementCurve(agentPublicKey));
+  const init: SecureChannelInit = { kid, epk: ephemeral.publicKey };
+
+  return {
+    init,
+    async complete(accept) {
+      if (typeof accept?.cid !== "string" || typeof accept.expiresAt !== "number" || !accept.epk) {
+        throw new SecureChannelError("invalidHandshake", "Invalid secure channel reply");
+      }
+      let ephemeralSecret: Uint8Array;
+      try {
+        ephemeralSecret = deriveSharedSecret(ephemeral.privateKey, accept.epk);
+      } catch {
+        throw new SecureChannelError("invalidHandshake", "Invalid agent ephemeral key");
+      }
+      const staticSecret = deriveSharedSecret(ephemeral.privateKey, agentPublicKey);
+      const keys = await deriveChannelKeys(ephemeralSecret, staticSecret, init, accept.cid, accept.epk);
+      return new SecureChannel(accept.cid, keys.clientToAgent, keys.agentToClient, accept.expiresAt);
+    },
+  };
+}
+
+export interface AcceptSecureChannelOptions {
+  /** Channel lifetime in milliseconds (default: 1 hour) */
+  ttlMs?: number;
+  /** Authenticated DID of the client */
+  peerDid?: string;
+}
+
+/**
+ * Agent side: answer a client's handshake
+ *
+ * @param privateKey - Private key of the keyAgreement method named by `init.kid`
+ *
+ * Fail Fast: throws SecureChannelError "invalidHandshake" for keys on another curve.
+ */
+export async function acceptSecureChannel(
+  init: SecureChannelInit,
+  privateKey: JsonWebKey,
+  options: AcceptSecureChannelOptions = {}
+): Promise<{ accept: SecureChannelAccept; channel: SecureChannel }> {
+  if (typeof init?.kid !== "string" || !init.epk || typeof init.epk !== "object") {
+    throw new SecureChannelError("invalidHandshake", "Invalid secure channel request");
+  }
+  let curve;
+  try {
+    curve = getKeyAgreementCurve(init.epk);
+  } catch {
+    throw new SecureChannelError("invalidHandshake", "Unsupported ephemeral key");
+  }
+  if (curve !== getKeyAgreementCurve(privateKey)) {
+    throw new SecureChannelError("invalidHandshake", `Ephemeral key must be on ${getKeyAgreementCurve(privateKey)}`);
+  }
+
+  const ephemeral = generateKeyAgreementKeyPair(curve);
+  let ephemeralSecret: Uint8Array, staticSecret: Uint8Array;
+  try {
+    ephemeralSecret = deriveSharedSecret(ephemeral.privateKey, init.epk);
+    staticSecret = deriveSharedSecret(privateKey, init.epk);
+  } catch {
+    throw new SecureChannelError("invalidHandshake", "Invalid client ephemeral key");
+  }
+
+  const cid = base64urlEncode(globalThis.crypto.getRandomValues(new Uint8Array(16)));
+  const expiresAt = Date.now() + (options.ttlMs ?? 3_600_000);
+  const keys = await deriveChannelKeys(ephemeralSecret, staticSecret, init, cid, ephemeral.publicKey);
+  return {
+    accept: { cid, epk: ephemeral.publicKey, expiresAt },
+    channel: new SecureChannel(cid, keys.agentToClient, keys.clientToAgent, expiresAt, options.peerDid),
+  };
+}
+
+// ============================================
+// Agent-side channel store
+// ============================================
+
+export interface SecureChannelStoreConfig {
+  /** Maximum number of open channels; the least recently used are dropped (default: 10000) */
+  maxChannels?: number;
+}
+
+/**
+ * Open channels of an agent, by channel id. Expired channels are dropped on access.
+ */
+export class SecureChannelStore {
+  private readonly channels: LRUCache<string, SecureChannel>;
+
+  constructor(config: SecureChannelStoreConfig = {}) {
+    this.channels = new LRUCache({ max: config.maxChannels ?? 10_000 });
+  }
+
+  add(channel: SecureChannel): void {
+    this.channels.set(channel.id, channel, { ttl: Math.max(1, channel.expiresAt - Date.now()) });
+  }
+
+  get(cid: string): SecureChannel | undefined {
+    const channel = this.channels.get(cid);
+    if (channel?.isExpired()) {
+      this.channels.delete(cid);
+      return undefined;
+    }
+    return channel;
+  }
+
+  delete(cid: string): boolean {
+    return this.channels.delete(cid);
+  }
+}
+
+// ============================================
+// Factory Functions
+// ============================================
+
+/**
+ * Create a store for an agent's open channels
+ */
+export function createSecureChannelStore(config?: SecureChannelStoreConfig): SecureChannelStore {
+  return new SecureChannelStore(config);
+}
+
+/**
+ * Whether a parsed body is a sealed frame
+ */
+export function isSealedFrame(value: unknown): value is SealedFrame {
+  const frame = value as SealedFrame | null;
+  return (
+    typeof frame === "object" &&
+    frame !== null &&
+    typeof frame.cid === "string" &&
+    typeof frame.seq === "number" &&
+    typeof frame.ciphertext === "string"
+  );
+}
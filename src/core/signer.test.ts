@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import { verifyWithJwk } from "@/core/algorithms.js";
+import { generateEd25519KeyPair, generateP256KeyPair, generateSecp256k1KeyPair } from "@/core/crypto.js";
+import { createHttpClient, type HttpClient } from "@/core/http.js";
+import { computeJwkThumbprint } from "@/core/jwk.js";
+import {
+  createInMemorySigner,
+  createRemoteSigner,
+  createSigningServiceHandler,
+  toPublicJwk,
+  toSigner,
+} from "@/core/signer.js";
+import { base64urlEncode } from "@/core/utils.js";
+
+const SERVICE_URL = "https://signer.internal/v1";
+const DATA = new TextEncoder().encode("message to sign");
+
+/** HttpClient that hands requests to a fetch-style handler instead of the network */
+function handlerClient(handler: (request: Request) => Promise<Response>) {
+  const requests: Array<{ method: string; url: string; authorization: string | null }> = [];
+  const httpClient: HttpClient = createHttpClient({
+    fetchImpl: async (url, init) => {
+      const request = new Request(url, init);
+      requests.push({ method: request.method, url: request.url, authorization: request.headers.get("authorization") });
+      return handler(request);
+    },
+  });
+  return { httpClient, requests };
+}
+
+describe("InMemorySigner", () => {
+  test("signs with the algorithm of the key", async () => {
+    for (const [generate, alg] of [
+      [generateSecp256k1KeyPair, "ES256K"],
+      [generateP256KeyPair, "ES256"],
+      [generateEd25519KeyPair, "EdDSA"],
+    ] as const) {
+      const { privateKeyJwk, publicKeyJwk } = await generate();
+      const signer = createInMemorySigner(privateKeyJwk);
+      expect(signer.alg).toBe(alg);
+      expect(signer.publicJwk).toEqual(toPublicJwk(privateKeyJwk));
+      expect(signer.publicJwk.d).toBeUndefined();
+      expect(signer.kid).toBe(computeJwkThumbprint(publicKeyJwk));
+      expect(await verifyWithJwk(publicKeyJwk, DATA, base64urlEncode(await signer.sign(DATA)))).toBe(true);
+    }
+  });
+
+  test("requires a private key", async () => {
+    const { publicKeyJwk } = await generateEd25519KeyPair();
+    expect(() => createInMemorySigner(publicKeyJwk)).toThrow("InMemorySigner requires a private JWK");
+  });
+
+  test("toSigner passes signers through", async () => {
+    const { privateKeyJwk } = await generateEd25519KeyPair();
+    const signer = createInMemorySigner(privateKeyJwk, { kid: "key-1" });
+    expect(toSigner(signer)).toBe(signer);
+    expect(toSigner(privateKeyJwk, { kid: "key-1" }).kid).toBe("key-1");
+  });
+});
+
+describe("RemoteSigner", () => {
+  async function service() {
+    const { privateKeyJwk, publicKeyJwk } = await generateSecp256k1KeyPair();
+    const handler = createSigningServiceHandler({ "agent key": createInMemorySigner(privateKeyJwk) }, { basePath: "/v1" });
+    return { publicKeyJwk, handler, ...handlerClient(handler) };
+  }
+
+  test("signs through the signing service handler", async () => {
+    const { publicKeyJwk, httpClient, requests } = await service();
+    const signer = await createRemoteSigner({
+      url: `${SERVICE_URL}/`,
+      keyId: "agent key",
+      headers: { Authorization: "Bearer service-token" },
+      httpClient,
+    });
+    expect(signer.alg).toBe("ES256K");
+    expect(signer.publicJwk).toEqual(publicKeyJwk);
+    expect(signer.kid).toBe(computeJwkThumbprint(publicKeyJwk));
+
+    const signature = await signer.sign(DATA);
+    expect(await verifyWithJwk(signer.publicJwk, DATA, base64urlEncode(signature))).toBe(true);
+    expect(await verifyWithJwk(signer.publicJwk, new TextEncoder().encode("other"), base64urlEncode(signature))).toBe(false);
+    expect(requests).toEqual([
+      { method: "GET", url: `${SERVICE_URL}/keys/agent%20key`, authorization: "Bearer service-token" },
+      { method: "POST", url: `${SERVICE_URL}/keys/agent%20key/sign`, authorization: "Bearer service-token" },
+    ]);
+  });
+
+  test("fails to connect to unknown keys", async () => {
+    const { httpClient } = await service();
+    await expect(createRemoteSigner({ url: SERVICE_URL, keyId: "missing", httpClient })).rejects.toThrow(
+      "Signing service has no key missing (HTTP 404)"
+    );
+    await expect(createRemoteSigner({ url: "https://signer.internal", keyId: "agent key", httpClient })).rejects.toThrow(
+      "(HTTP 404)"
+    );
+  });
+
+  test("surfaces rejected sign requests", async () => {
+    const { handler } = await service();
+    // A service that lists the key but rejects what it is sent
+    const { httpClient } = handlerClient(async (request) =>
+      request.method === "POST"
+        ? new Response(JSON.stringify({ error: "invalid_request" }), { status: 400 })
+        : handler(request)
+    );
+    const signer = await createRemoteSigner({ url: SERVICE_URL, keyId: "agent key", httpClient });
+    await expect(signer.sign(DATA)).rejects.toThrow("Signing service failed to sign with agent key (HTTP 400)");
+  });
+});
+
+describe("createSigningServiceHandler", () => {
+  const signRequest = (body: string, path = "/v1/keys/agent%20key/sign") =>
+    new Request(`https://signer.internal${path}`, { method: "POST", headers: { "content-type": "application/json" }, body });
+
+  test("rejects malformed sign requests", async () => {
+    const { privateKeyJwk } = await generateEd25519KeyPair();
+    const handler = createSigningServiceHandler({ "agent key": createInMemorySigner(privateKeyJwk) }, { basePath: "/v1" });
+    for (const body of ["not json", "{}", '{"data":42}']) {
+      const response = await handler(signRequest(body));
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: "invalid_request" });
+    }
+  });
+
+  test("answers unknown paths and methods", async () => {
+    const { privateKeyJwk } = await generateEd25519KeyPair();
+    const handler = createSigningServiceHandler({ "agent key": createInMemorySigner(privateKeyJwk) }, { basePath: "/v1" });
+    expect((await handler(signRequest("{}", "/v1/keys/other/sign"))).status).toBe(404);
+    expect((await handler(signRequest("{}", "/keys/agent%20key/sign"))).status).toBe(404);
+    expect((await handler(new Request("https://signer.internal/v1/keys/agent%20key/sign"))).status).toBe(405);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Signers
+ *
+ * A Signer produces signatures without exposing its private key, so keys can live in
+ * an HSM, a cloud KMS or a separate signing service. In-memory signers wrap JWKs for
+ * development and tests; RemoteSigner talks to a signing service over HTTP.
+ *
+ * @packageDocumentation
+ */
+
+import { getKeyAlgorithm, getKeyAlgorithmForJwk } from "@/core/algorithms.js";
+import { defaultHttpClient, type HttpClient } from "@/core/http.js";
+import { computeJwkThumbprint } from "@/core/jwk.js";
+import { base64urlDecode, base64urlEncode } from "@/core/utils.js";
+
+/**
+ * Produces signatures with a key it does not expose.
+ */
+export interface Signer {
+  /** JWS algorithm of the key, e.g. "ES256K", "ES256", "EdDSA" or "RS256" */
+  readonly alg: string;
+  /** Key identifier sent with signatures (default for in-memory keys: RFC 7638 thumbprint) */
+  readonly kid: string;
+  /** Public half of the key */
+  readonly publicJwk: JsonWebKey;
+  /**
+   * Sign raw bytes; any hashing required by the algorithm happens inside. Signatures
+   * use the JWS encoding (raw r||s for ECDSA).
+   */
+  sign(data: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface SignerOptions {
+  /** Key identifier (default: RFC 7638 thumbprint of the public key) */
+  kid?: string;
+}
+
+/**
+ * Whether a value is a Signer rather than key material
+ */
+export function isSigner(value: unknown): value is Signer {
+  return typeof value === "object" && value !== null && typeof (value as Signer).sign === "function";
+}
+
+/**
+ * Public members of a JWK: private parameters and key usage hints are removed
+ */
+export function toPublicJwk(jwk: JsonWebKey): JsonWebKey {
+  const { d: _d, p: _p, q: _q, dp: _dp, dq: _dq, qi: _qi, key_ops: _ops, ext: _ext, ...publicJwk } = jwk;
+  return publicJwk;
+}
+
+// ============================================
+// In-memory signer
+// ============================================
+
+/**
+ * Signer over a private JWK held in memory. The algorithm (secp256k1, P-256, Ed25519,
+ * RSA or anything registered with registerKeyAlgorithm) is picked from the key type.
+ */
+export class InMemorySigner implements Signer {
+  readonly alg: string;
+  readonly kid: string;
+  readonly publicJwk: JsonWebKey;
+
+  constructor(
+    private readonly privateKey: JsonWebKey,
+    options: SignerOptions = {}
+  ) {
+    if (!privateKey.d) throw new Error("InMemorySigner requires a private JWK");
+    this.alg = getKeyAlgorithmForJwk(privateKey).alg;
+    this.publicJwk = toPublicJwk(privateKey);
+    this.kid = options.kid ?? computeJwkThumbprint(this.publicJwk);
+  }
+
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    return getKeyAlgorithm(this.alg).sign(this.privateKey, data);
+  }
+}
+
+// ============================================
+// Remote signer
+// ============================================
+
+export interface RemoteSignerConfig {
+  /** Base URL of the signing service, e.g. "https://signer.internal/v1" */
+  url: string;
+  /** Key name at the signing service */
+  keyId: string;
+  /** Key identifier sent with signatures (default: RFC 7638 thumbprint of the public key) */
+  kid?: string;
+  /** Extra headers for every call, e.g. service credentials */
+  headers?: Record<string, string>;
+  httpClient?: HttpClient;
+}
+
+/**
+ * Key description returned by `GET {url}/keys/{keyId}`.
+ */
+export interface RemoteKeyDescription {
+  alg: string;
+  publicJwk: JsonWebKey;
+}
+
+/**
+ * Signer backed by a signing service speaking a minimal JSON protocol:
+ *
+ * - `GET {url}/keys/{keyId}` → `{ "alg": "ES256K", "publicJwk": { ... } }`
+ * - `POST {url}/keys/{keyId}/sign` with `{ "data": "<base64url>" }` → `{ "signature": "<base64url>" }`
+ *
+ * Put an adapter speaking this protocol in front of an HSM or KMS, or use
+ * createSigningServiceHandler as a local stand-in.
+ *
+ * @example
+ * ```typescript
+ * const signer = await createRemoteSigner({
+ *   url: "https://signer.internal/v1",
+ *   keyId: "agent-key-1",
+ *   headers: { Authorization: `Bearer ${serviceToken}` },
+ * });
+ * const auth = createAuthenticator({ did, keys: [{ verificationMethodId: "key-1", signer }] });
+ * ```
+ */
+export class RemoteSigner implements Signer {
+  readonly alg: string;
+  readonly kid: string;
+  readonly publicJwk: JsonWebKey;
+  private readonly httpClient: HttpClient;
+
+  constructor(
+    private readonly config: RemoteSignerConfig,
+    key: RemoteKeyDescription
+  ) {
+    this.alg = key.alg;
+    this.publicJwk = toPublicJwk(key.publicJwk);
+    this.kid = config.kid ?? computeJwkThumbprint(this.publicJwk);
+    this.httpClient = config.httpClient ?? defaultHttpClient;
+  }
+
+  /**
+   * Fetch the key description and create a signer for it.
+   *
+   * Fail Fast: throws if the signing service does not know the key.
+   */
+  static async connect(config: RemoteSignerConfig): Promise<RemoteSigner> {
+    const httpClient = config.httpClient ?? defaultHttpClient;
+    const response = await httpClient.request<RemoteKeyDescription>(keyUrl(config), "GET", {
+      headers: { accept: "application/json", ...config.headers },
+    });
+    if (response.status !== 200 || typeof response.data?.alg !== "string" || !response.data.publicJwk) {
+      throw new Error(`Signing service has no key ${config.keyId} (HTTP ${response.status})`);
+    }
+    return new RemoteSigner(config, response.data);
+  }
+
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    const response = await this.httpClient.request<{ signature?: string }>(`${keyUrl(this.config)}/sign`, "POST", {
+      headers: { "content-type": "application/json", accept: "application/json", ...this.config.headers },
+      body: { data: base64urlEncode(data) },
+    });
+    if (response.status !== 200 || typeof response.data?.signature !== "string") {
+      throw new Error(`Signing service failed to sign with ${this.config.keyId} (HTTP ${response.status})`);
+    }
+    return base64urlDecode(response.data.signature);
+  }
+}
+
+function keyUrl(config: RemoteSignerConfig): string {
+  return `${config.url.replace(/\/+$/, "")}/keys/${encodeURIComponent(config.keyId)}`;
+}
+
+/**
+ * Fetch-style handler implementing the RemoteSigner protocol over the given signers,
+ * keyed by key name. Meant as a local stand-in for a signing service in development
+ * and tests; it performs no caller authentication.
+ *
+ * @example
+ * ```typescript
+ * const handler = createSigningServiceHandler({ "agent-key-1": createInMemorySigner(privateJwk) });
+ * Bun.serve({ port: 8790, fetch: handler });
+ * const signer = await createRemoteSigner({ url: "http://localhost:8790", keyId: "agent-key-1" });
+ * ```
+ */
+export function createSigningServiceHandler(
+  signers: Record<string, Signer>,
+  options: { basePath?: string } = {}
+): (request: Request) => Promise<Response> {
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+
+  return async (request) => {
+    const path = new URL(request.url).pathname;
+    const match = path.startsWith(`${basePath}/keys/`)
+      ? path.slice(basePath.length).match(/^\/keys\/([^/]+)(\/sign)?$/)
+      : null;
+    const signer = match ? signers[decodeURIComponent(match[1]!)] : undefined;
+    if (!match || !signer) {
+      return json({ error: "not_found" }, 404);
+    }
+
+    if (!match[2] && request.method === "GET") {
+      return json({ alg: signer.alg, publicJwk: signer.publicJwk });
+    }
+    if (match[2] && request.method === "POST") {
+      let data: Uint8Array;
+      try {
+        const body = (await request.json()) as { data?: unknown };
+        if (typeof body.data !== "string") throw new Error("data must be a base64url string");
+        data = base64urlDecode(body.data);
+      } catch (error) {
+        return json({ error: "invalid_request", message: error instanceof Error ? error.message : String(error) }, 400);
+      }
+      return json({ signature: base64urlEncode(await signer.sign(data)) });
+    }
+    return json({ error: "method_not_allowed" }, 405);
+  };
+}
+
+// ============================================
+// Factory Functions
+// ============================================
+
+/**
+ * Create a signer over a private JWK held in memory
+ */
+export function createInMemorySigner(privateKey: JsonWebKey, options?: SignerOptions): InMemorySigner {
+  return new InMemorySigner(privateKey, options);
+}
+
+/**
+ * Create an in-memory signer from a PKCS#8 (or SEC1 for secp256k1) PEM private key
+ *
+ * @param algorithm - JWS algorithm of the key, e.g. "ES256K", "ES256", "EdDSA" or "RS256"
+ */
+export async function createInMemorySignerFromPem(
+  pem: string,
+  algorithm: string,
+  options?: SignerOptions
+): Promise<InMemorySigner> {
+  return new InMemorySigner(await getKeyAlgorithm(algorithm).importPrivateKeyPem(pem), options);
+}
+
+/**
+ * Create a signer backed by a signing service (see RemoteSigner)
+ */
+export async function createRemoteSigner(config: RemoteSignerConfig): Promise<RemoteSigner> {
+  return RemoteSigner.connect(config);
+}
+
+/**
+ * A Signer for key material or an existing Signer
+ */
+export function toSigner(key: JsonWebKey | Signer, options?: SignerOptions): Signer {
+  return isSigner(key) ? key : new InMemorySigner(key, options);
+}
@@ -47,6 +47,19 @@ export function base64urlDecode(input: string): Uint8Array {
   return out;
 }
 
+/**
+ * Standard (padded) base64, as used by structured field byte sequences (RFC 8941).
+ */
+export function base64Encode(bytes: Uint8Array): string {
+  const b64url = base64urlEncode(bytes);
+  const pad = b64url.length % 4 === 0 ? 0 : 4 - (b64url.length % 4);
+  return b64url.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat(pad);
+}
+
+export function base64Decode(input: string): Uint8Array {
+  return base64urlDecode(input.replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_"));
+}
+
 const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
 const BASE58_MAP: Record<string, number> = Object.fromEntries(
   [...BASE58_ALPHABET].map((c, i) => [c, i])
@@ -106,5 +119,6 @@ export interface LruCacheLike<K, V> {
   get(key: K): V | undefined;
   set(key: K, value: V, options?: { ttl?: number }): void;
   has(key: K): boolean;
+  delete(key: K): boolean;
 }
 
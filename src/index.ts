@@ -22,7 +22,7 @@
  * 
  * // Authentication
  * const auth = createAuthenticator({ did, privateKey });
- * const authHeader = await auth.createAuthHeader("POST", "/api", body);
+ * const authHeader = await auth.createAuthHeader("POST", "https://agent.example.com/api", body);
  * 
  * // AP2 Payment
  * const builder = createCartBuilder({ privateKeyPem, merchantDid });
@@ -4,6 +4,16 @@ import { CapabilityRegistry, handleJSONRPC, type JSONRPCRequest } from "./handle
 import { SessionStore, SessionImpl } from "./session.js";
 import { createVerifier, type Verifier } from "../client/verifier.js";
 import type { Router } from "./routing.js";
+import {
+  SECURE_CHANNEL_CONTENT_TYPE,
+  SECURE_CHANNEL_RPC_ERRORS,
+  SecureChannelError,
+  acceptSecureChannel,
+  createSecureChannelStore,
+  isSealedFrame,
+  type SecureChannel,
+  type SecureChannelInit,
+} from "../core/secure-channel.js";
 
 export * from "./types.js";
 export * from "./decorators.js";
@@ -34,7 +44,12 @@ export * from "./routing.js";
 export function createAgent(config: AgentConfig): Agent {
   const registry = new CapabilityRegistry();
   const sessionStore = new SessionStore();
-  const verifier: Verifier | undefined = config.authEnabled ? createVerifier() : undefined;
+  const verifier: Verifier | undefined = config.authEnabled ? createVerifier(config.verifier) : undefined;
+  const secureChannels = config.encryption
+    ? createSecureChannelStore(
+        config.encryption.maxChannels !== undefined ? { maxChannels: config.encryption.maxChannels } : {}
+      )
+    : undefined;
 
   const baseUrl = config.baseUrl || (config.did.startsWith("did:wba:") 
     ? `https://${config.did.replace("did:wba:", "")}`
@@ -126,6 +141,10 @@ export function createAgent(config: AgentConfig): Agent {
         });
       }
 
+      if (request.method === "POST" && url.pathname === "/rpc/session" && secureChannels) {
+        return await handleSecureChannelRequest(request);
+      }
+
       if (request.method === "POST" && url.pathname === "/rpc") {
         return await handleRPCRequest(request);
       }
@@ -185,47 +204,130 @@ export function createAgent(config: AgentConfig): Agent {
     };
   }
 
-  async function handleRPCRequest(request: Request): Promise<Response> {
+  function rpcErrorResponse(code: number, message: string, status: number): Response {
+    return new Response(
+      JSON.stringify({ jsonrpc: "2.0", id: null, error: { code, message } }),
+      { status, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  /**
+   * Resolve a keyAgreement private key by full DID URL or by `#fragment`
+   */
+  function findKeyAgreementPrivateKey(kid: string): JsonWebKey | undefined {
+    const keys = config.encryption?.keyAgreementKeys ?? {};
+    if (keys[kid]) return keys[kid];
+    return kid.startsWith(`${config.did}#`) ? keys[kid.slice(config.did.length)] : undefined;
+  }
+
+  /**
+   * Open a secure channel (`POST /rpc/session`). With authentication enabled the
+   * handshake request must be authenticated, and its DID becomes the channel's peer DID.
+   * Signatures must cover the body through Content-Digest: otherwise a captured header
+   * could open a channel to another ephemeral key in the signer's name.
+   */
+  async function handleSecureChannelRequest(request: Request): Promise<Response> {
     try {
-      let did: string | undefined;
+      let peerDid: string | undefined;
+      const body = await request.text();
 
       if (config.authEnabled && verifier) {
-        const authHeader = request.headers.get("Authorization");
-        if (!authHeader) {
-          return new Response(
-            JSON.stringify({
-              jsonrpc: "2.0",
-              id: null,
-              error: { code: -32004, message: "Authorization header is required" },
-            }),
-            { status: 401, headers: { "Content-Type": "application/json" } }
-          );
+        const result = await verifier.verifyRequest(request, { body, requireContentDigest: true });
+        if (!result.verified) {
+          return rpcErrorResponse(-32004, result.error, 401);
         }
+        peerDid = result.principal.did;
+      }
 
-        const body = await request.text();
-        const result = await verifier.verify(authHeader, {
-          method: request.method,
-          url: request.url,
-          body,
-        });
+      let init: SecureChannelInit;
+      try {
+        init = JSON.parse(body) as SecureChannelInit;
+      } catch {
+        return rpcErrorResponse(-32700, "Parse error", 400);
+      }
+      const privateKey = typeof init?.kid === "string" ? findKeyAgreementPrivateKey(init.kid) : undefined;
+      if (!privateKey) {
+        return rpcErrorResponse(-32602, `Unknown key agreement key: ${String(init?.kid)}`, 400);
+      }
+
+      const { accept, channel } = await acceptSecureChannel(init, privateKey, {
+        ...(config.encryption?.channelTtlMs !== undefined && { ttlMs: config.encryption.channelTtlMs }),
+        ...(peerDid !== undefined && { peerDid }),
+      });
+      secureChannels!.add(channel);
+
+      return new Response(JSON.stringify(accept), {
+        headers: { "Content-Type": SECURE_CHANNEL_CONTENT_TYPE },
+      });
+    } catch (error) {
+      if (error instanceof SecureChannelError) {
+        return rpcErrorResponse(-32602, error.message, 400);
+      }
+      return rpcErrorResponse(-32603, error instanceof Error ? error.message : "Internal error", 500);
+    }
+  }
 
-        if (!result.verified || !result.did) {
+  async function handleRPCRequest(request: Request): Promise<Response> {
+    try {
+      let did: string | undefined;
+      let accessToken: string | undefined;
+      let channel: SecureChannel | undefined;
+      let body = await request.text();
+
+      const contentType = request.headers.get("Content-Type") ?? "";
+      if (contentType.startsWith(SECURE_CHANNEL_CONTENT_TYPE)) {
+        // Sealed frames are authenticated by the channel keys; the caller is the channel's peer
+        let frame: unknown;
+        try {
+          frame = JSON.parse(body);
+        } catch {
+          frame = undefined;
+        }
+        if (!isSealedFrame(frame)) {
+          return rpcErrorResponse(SECURE_CHANNEL_RPC_ERRORS.invalidFrame, "Invalid sealed frame", 400);
+        }
+        channel = secureChannels?.get(frame.cid);
+        if (!channel) {
+          return rpcErrorResponse(SECURE_CHANNEL_RPC_ERRORS.channelNotFound, "Unknown or expired secure channel", 401);
+        }
+        try {
+          body = new TextDecoder().decode(await channel.open(frame));
+        } catch (error) {
+          if (error instanceof SecureChannelError && error.code === "expired") {
+            secureChannels!.delete(frame.cid);
+            return rpcErrorResponse(SECURE_CHANNEL_RPC_ERRORS.channelNotFound, error.message, 401);
+          }
+          if (error instanceof SecureChannelError) {
+            return rpcErrorResponse(SECURE_CHANNEL_RPC_ERRORS.invalidFrame, error.message, 400);
+          }
+          throw error;
+        }
+        did = channel.peerDid;
+      } else if (config.encryption?.required) {
+        return rpcErrorResponse(
+          SECURE_CHANNEL_RPC_ERRORS.channelRequired,
+          "This agent only accepts requests over a secure channel (POST /rpc/session)",
+          403
+        );
+      } else if (config.authEnabled && verifier) {
+        const result = await verifier.verifyRequest(request, { body });
+        if (!result.verified) {
           return new Response(
             JSON.stringify({
               jsonrpc: "2.0",
               id: null,
-              error: { code: -32004, message: result.error || "Authentication failed" },
+              error: { code: -32004, message: result.error },
             }),
             { status: 401, headers: { "Content-Type": "application/json" } }
           );
         }
 
-        did = result.did;
+        did = result.principal.did;
+        if (result.principal.authScheme !== "Bearer") {
+          accessToken = result.principal.token;
+        }
       }
 
-      const body = await (request.headers.get("Authorization")
-        ? Promise.resolve(await request.clone().text())
-        : request.text());
       const jsonrpcRequest = JSON.parse(body) as JSONRPCRequest;
 
       const session = did ? sessionStore.getOrCreate(did) : new SessionImpl("anonymous");
@@ -234,13 +336,29 @@ export function createAgent(config: AgentConfig): Agent {
         did,
         session,
         metadata: {},
+        ...(channel && {
+          secureChannel: {
+            id: channel.id,
+            expiresAt: channel.expiresAt,
+            ...(channel.peerDid !== undefined && { peerDid: channel.peerDid }),
+          },
+        }),
       };
 
       const jsonrpcResponse = await handleJSONRPC(jsonrpcRequest, registry, context);
 
-      return new Response(JSON.stringify(jsonrpcResponse), {
-        headers: { "Content-Type": "application/json" },
-      });
+      if (channel) {
+        const sealed = await channel.seal(JSON.stringify(jsonrpcResponse));
+        return new Response(JSON.stringify(sealed), {
+          headers: { "Content-Type": SECURE_CHANNEL_CONTENT_TYPE },
+        });
+      }
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (accessToken) {
+        headers["Authorization"] = `Bearer ${accessToken}`;
+      }
+      return new Response(JSON.stringify(jsonrpcResponse), { headers });
     } catch (error) {
       return new Response(
         JSON.stringify({
@@ -292,4 +410,7 @@ export async function serve(agent: Agent, options?: ServeOptions): Promise<void>
   console.log(`   GET  /ad.json       - Agent Description`);
   console.log(`   GET  /openrpc.json  - OpenRPC Specification`);
   console.log(`   POST /rpc           - JSON-RPC Endpoint`);
+  if (agent.config.encryption) {
+    console.log(`   POST /rpc/session   - Secure Channel Handshake`);
+  }
 }
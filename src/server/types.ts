@@ -1,4 +1,5 @@
 import type { ZodSchema } from "zod";
+import type { VerifierConfig } from "../client/verifier.js";
 
 /**
  * Agent configuration
@@ -18,10 +19,35 @@ export interface AgentConfig {
   baseUrl?: string;
   /** Enable DID-WBA authentication */
   authEnabled?: boolean;
+  /**
+   * DID-WBA verifier options. With `jwtSecret` set, `/rpc` returns an access token in an
+   * `Authorization: Bearer` response header that clients may send instead of signing.
+   */
+  verifier?: VerifierConfig;
+  /**
+   * End-to-end encrypted `/rpc` (see `core/secure-channel`). Clients open a channel at
+   * `POST /rpc/session` against one of the DID document's `keyAgreement` keys; with
+   * `authEnabled`, signed handshakes must bind their body through Content-Digest.
+   */
+  encryption?: AgentEncryptionConfig;
   /** Custom metadata */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Secure channel configuration
+ */
+export interface AgentEncryptionConfig {
+  /** Private keys of the DID document's `keyAgreement` methods, by method id (`#key-2`, or full DID URL) */
+  keyAgreementKeys: Record<string, JsonWebKey>;
+  /** Reject plaintext `/rpc` requests (default: false) */
+  required?: boolean;
+  /** Channel lifetime in milliseconds (default: 1 hour) */
+  channelTtlMs?: number;
+  /** Maximum number of open channels (default: 10000) */
+  maxChannels?: number;
+}
+
 /**
  * Capability configuration
  */
@@ -70,6 +96,13 @@ export interface Context {
     /** Request body (parsed) */
     body?: unknown;
   };
+
+  /** Secure channel the request arrived on; `did` is then the DID that opened it */
+  readonly secureChannel?: {
+    id: string;
+    peerDid?: string;
+    expiresAt: number;
+  };
 }
 
 